@@ -0,0 +1,76 @@
+// Server giả lập endpoint OpenAI Chat Completions để chạy thử offline:
+//   npm run mock-ai
+//   VITE_AI_PROVIDER=openai VITE_AI_ENDPOINT=http://localhost:8787/v1 npm run dev
+// Luôn trả về cùng một bộ ngưỡng, có thể ép lỗi bằng MOCK_AI_FAIL=429|500|invalid|slow.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_AI_PORT || 8787);
+const FAIL_MODE = process.env.MOCK_AI_FAIL || '';
+const SLOW_MS = 30_000;
+
+const TUNING = {
+  sMin: 0.22,
+  vMin: 0.18,
+  hueA: [0, 25],
+  hueB: [335, 360],
+  dilateRadius: 2,
+  inpaintRadius: 3,
+  regions: [],
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    send(res, 404, { error: { message: 'Not found' } });
+    return;
+  }
+
+  let size = 0;
+  let model = 'mock-tuning';
+  const chunks = [];
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      model = JSON.parse(Buffer.concat(chunks).toString('utf8')).model || model;
+    } catch {
+      send(res, 400, { error: { message: 'Body không phải JSON' } });
+      return;
+    }
+    console.log(`[mock-ai] ${model}: ${(size / 1024).toFixed(0)} KB`);
+
+    if (FAIL_MODE === '429' || FAIL_MODE === '500') {
+      send(res, Number(FAIL_MODE), { error: { message: `Mock lỗi ${FAIL_MODE}` } });
+      return;
+    }
+    const content = FAIL_MODE === 'invalid' ? '{"sMin": "cao"}' : JSON.stringify(TUNING);
+    const reply = () =>
+      send(res, 200, {
+        id: 'mock-completion',
+        object: 'chat.completion',
+        model,
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+      });
+    if (FAIL_MODE === 'slow') setTimeout(reply, SLOW_MS);
+    else reply();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-ai] http://localhost:${PORT}/v1/chat/completions${FAIL_MODE ? ` (fail: ${FAIL_MODE})` : ''}`);
+});
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { buildDifferenceHeatmap } from '../services/imageService';
+
+interface CompareViewProps {
+  beforeImage: string;
+  afterImage: string;
+  maskImage?: string;
+  pageLabel?: string;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.25;
+
+type DragState =
+  | { kind: 'split' }
+  | { kind: 'pan'; startX: number; startY: number; originX: number; originY: number };
+
+const CompareView: React.FC<CompareViewProps> = ({ beforeImage, afterImage, maskImage, pageLabel }) => {
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const contentRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const [split, setSplit] = useState<number>(50);
+  const [showMask, setShowMask] = useState<boolean>(false);
+  const [showHeatmap, setShowHeatmap] = useState<boolean>(false);
+  const [heatmap, setHeatmap] = useState<{ before: string; after: string; url: string } | null>(null);
+  const [zoom, setZoom] = useState<number>(1);
+  const [pan, setPan] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+
+  const heatmapUrl = heatmap?.before === beforeImage && heatmap.after === afterImage ? heatmap.url : '';
+
+  // Bản đồ nhiệt tính khi bật và khi cặp ảnh thay đổi
+  useEffect(() => {
+    if (!showHeatmap || heatmapUrl) return;
+    let cancelled = false;
+    buildDifferenceHeatmap(beforeImage, afterImage)
+      .then((url) => {
+        if (!cancelled) setHeatmap({ before: beforeImage, after: afterImage, url });
+      })
+      .catch(() => {
+        if (!cancelled) setShowHeatmap(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showHeatmap, heatmapUrl, beforeImage, afterImage]);
+
+  // React đăng ký wheel dạng passive nên phải tự gắn listener để chặn cuộn trang khi zoom
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      setZoom((prev) => clampZoom(event.deltaY < 0 ? prev * ZOOM_STEP : prev / ZOOM_STEP));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const applyZoom = (next: number) => {
+    setZoom(clampZoom(next));
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const updateSplit = (clientX: number) => {
+    const rect = contentRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const target = event.target as HTMLElement;
+    if (target.dataset.splitHandle) {
+      dragRef.current = { kind: 'split' };
+      return;
+    }
+    dragRef.current = { kind: 'pan', startX: event.clientX, startY: event.clientY, originX: pan.x, originY: pan.y };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') {
+      updateSplit(event.clientX);
+      return;
+    }
+    setPan({ x: drag.originX + event.clientX - drag.startX, y: drag.originY + event.clientY - drag.startY });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-700">
+        {pageLabel && <span className="font-semibold">{pageLabel}</span>}
+        <label className="flex items-center gap-2">
+          Trước
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(split)}
+            onChange={(event) => setSplit(Number(event.target.value))}
+            aria-label="Vị trí thanh chia trước/sau"
+          />
+          Sau
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={showMask}
+            disabled={!maskImage}
+            onChange={(event) => setShowMask(event.target.checked)}
+          />
+          Mask vùng xóa
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showHeatmap} onChange={(event) => setShowHeatmap(event.target.checked)} />
+          Bản đồ chênh lệch
+          {showHeatmap && !heatmapUrl && <span className="text-xs text-slate-500">(đang tính...)</span>}
+        </label>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => applyZoom(zoom / ZOOM_STEP)}
+            disabled={zoom <= MIN_ZOOM}
+            className="rounded-md border border-slate-200 px-2 py-1 font-semibold disabled:opacity-50"
+            aria-label="Thu nhỏ"
+          >
+            −
+          </button>
+          <span className="w-12 text-center text-xs">{Math.round(zoom * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => applyZoom(zoom * ZOOM_STEP)}
+            disabled={zoom >= MAX_ZOOM}
+            className="rounded-md border border-slate-200 px-2 py-1 font-semibold disabled:opacity-50"
+            aria-label="Phóng to"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            onClick={resetView}
+            className="rounded-md border border-slate-200 px-2 py-1 text-xs font-semibold"
+          >
+            Vừa khung
+          </button>
+        </div>
+      </div>
+      <div
+        ref={viewportRef}
+        className="relative h-[70vh] overflow-hidden rounded-md border border-slate-200 bg-slate-50 touch-none cursor-grab select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          className="absolute left-1/2 top-3 origin-top"
+          style={{ transform: `translate(calc(-50% + ${pan.x}px), ${pan.y}px) scale(${zoom})` }}
+        >
+          <div ref={contentRef} className="relative">
+            <img src={afterImage} alt="Sau xử lý" className="block max-h-[65vh] w-auto shadow" draggable={false} />
+            <img
+              src={beforeImage}
+              alt="Trước xử lý"
+              className="absolute inset-0 h-full w-full"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+              draggable={false}
+            />
+            {showMask && maskImage && (
+              <img src={maskImage} alt="" className="pointer-events-none absolute inset-0 h-full w-full opacity-60" draggable={false} />
+            )}
+            {showHeatmap && heatmapUrl && (
+              <img src={heatmapUrl} alt="" className="pointer-events-none absolute inset-0 h-full w-full" draggable={false} />
+            )}
+            <div
+              data-split-handle="true"
+              className="absolute inset-y-0 w-1 -translate-x-1/2 cursor-ew-resize bg-sky-500 shadow"
+              style={{ left: `${split}%` }}
+            >
+              <span
+                data-split-handle="true"
+                className="absolute top-1/2 left-1/2 flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-sky-500 text-xs text-white"
+              >
+                ⇆
+              </span>
+            </div>
+          </div>
+        </div>
+        <span className="pointer-events-none absolute left-2 top-2 rounded bg-slate-800/70 px-2 py-0.5 text-xs text-white">Trước</span>
+        <span className="pointer-events-none absolute right-2 top-2 rounded bg-slate-800/70 px-2 py-0.5 text-xs text-white">Sau</span>
+      </div>
+      <p className="text-xs text-slate-500">Kéo thanh xanh để so sánh, kéo ảnh để di chuyển, Ctrl + cuộn chuột để phóng to.</p>
+    </div>
+  );
+};
+
+const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+
+export default CompareView;
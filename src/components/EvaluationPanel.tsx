@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import type { EvaluationReport } from '../models/appModels';
+import { evaluationToCsv, evaluationToJson } from '../services/evaluationService';
+
+interface EvaluationPanelProps {
+  promptVersion: string;
+  disabled?: boolean;
+  onRun: (
+    originals: File[],
+    references: File[],
+    onProgress: (done: number, total: number) => void
+  ) => Promise<EvaluationReport>;
+  onClose: () => void;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const downloadText = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Chế độ đánh giá: chạy pipeline trên cặp (bản gốc, bản làm sạch tay) và tính chỉ số chất lượng
+ */
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ promptVersion, disabled = false, onRun, onClose }) => {
+  const [originals, setOriginals] = useState<File[]>([]);
+  const [references, setReferences] = useState<File[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const isRunning = progress !== null;
+
+  const handleRun = async () => {
+    setError('');
+    setReport(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      setReport(await onRun(originals, references, (done, total) => setProgress({ done, total })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Không thể chạy đánh giá');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const exportName = report ? `evaluation_${report.promptVersion}_${report.generatedAt.slice(0, 19).replace(/[:T]/g, '-')}` : '';
+
+  return (
+    <div className="flex flex-col gap-4 rounded-lg border border-violet-200 bg-white p-4 shadow-sm text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-800">🧪 Đánh giá với bản làm sạch tay</h2>
+        <button type="button" onClick={onClose} className="text-xs font-semibold text-slate-600 hover:underline">
+          Đóng
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Chọn bản gốc và bản tham chiếu (ảnh hoặc PDF). Các trang được ghép theo thứ tự tên file rồi theo số trang.
+        Pipeline chạy với prompt <span className="font-semibold">{promptVersion}</span>, màu mực và tuning chỉnh tay của file
+        đang chọn.
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-xs text-slate-600">
+          <span className="font-semibold text-slate-700">Bản gốc ({originals.length} file)</span>
+          <input
+            type="file"
+            multiple
+            accept="application/pdf,image/png,image/jpeg"
+            disabled={isRunning}
+            onChange={(event) => setOriginals(Array.from(event.target.files ?? []))}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-600">
+          <span className="font-semibold text-slate-700">Bản làm sạch tay ({references.length} file)</span>
+          <input
+            type="file"
+            multiple
+            accept="application/pdf,image/png,image/jpeg"
+            disabled={isRunning}
+            onChange={(event) => setReferences(Array.from(event.target.files ?? []))}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={disabled || isRunning || !originals.length || !references.length}
+          className="rounded-md bg-violet-600 px-4 py-2 font-semibold text-white shadow hover:bg-violet-700 disabled:opacity-60"
+        >
+          {isRunning ? `Đang đánh giá ${progress.done}/${progress.total || '?'}...` : 'Chạy đánh giá'}
+        </button>
+        {report && (
+          <>
+            <button
+              type="button"
+              onClick={() => downloadText(evaluationToJson(report), 'application/json', `${exportName}.json`)}
+              className="rounded-md border border-slate-200 px-3 py-2 font-semibold text-slate-700"
+            >
+              ⬇️ JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadText(evaluationToCsv(report), 'text/csv', `${exportName}.csv`)}
+              className="rounded-md border border-slate-200 px-3 py-2 font-semibold text-slate-700"
+            >
+              ⬇️ CSV
+            </button>
+          </>
+        )}
+      </div>
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      {report && (
+        <div className="overflow-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="border-b border-slate-200 text-slate-500">
+              <tr>
+                <th className="py-1 pr-3">Trang</th>
+                <th className="py-1 pr-3">PSNR</th>
+                <th className="py-1 pr-3">SSIM</th>
+                <th className="py-1 pr-3">Mực còn sót</th>
+                <th className="py-1 pr-3">Xóa nhầm chữ</th>
+                <th className="py-1 pr-3">Tuning</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700">
+              {report.pages.map((page) => (
+                <tr key={page.name} className="border-b border-slate-100">
+                  <td className="py-1 pr-3">{page.name}</td>
+                  <td className="py-1 pr-3">{page.psnr.toFixed(2)} dB</td>
+                  <td className="py-1 pr-3">{page.ssim.toFixed(4)}</td>
+                  <td className="py-1 pr-3">{percent(page.residualInkRatio)}</td>
+                  <td className="py-1 pr-3">{percent(page.overErasureRatio)}</td>
+                  <td className="py-1 pr-3">
+                    {page.tuningSource ?? '—'}
+                    {page.escalations > 0 && ` (+${page.escalations})`}
+                  </td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-1 pr-3">Trung bình</td>
+                <td className="py-1 pr-3">{report.aggregate.psnr.toFixed(2)} dB</td>
+                <td className="py-1 pr-3">{report.aggregate.ssim.toFixed(4)}</td>
+                <td className="py-1 pr-3">{percent(report.aggregate.residualInkRatio)}</td>
+                <td className="py-1 pr-3">{percent(report.aggregate.overErasureRatio)}</td>
+                <td className="py-1 pr-3" />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationPanel;
@@ -0,0 +1,125 @@
+import React from 'react';
+import type { ExportColorMode, ExportSettings } from '../models/appModels';
+
+interface ExportSettingsPanelProps {
+  value: ExportSettings;
+  disabled?: boolean;
+  onChange: (settings: ExportSettings) => void;
+}
+
+const COLOR_MODE_LABELS: Record<ExportColorMode, string> = {
+  color: 'Màu',
+  grayscale: 'Xám',
+  bilevel: 'Đen trắng',
+};
+
+const DEFAULT_TARGET_SIZE_MB = 10;
+
+/**
+ * Tùy chọn nén ảnh trang khi tải PDF (áp dụng cho cả tải một file và tải ZIP)
+ */
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ value, disabled = false, onChange }) => {
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...value, ...patch });
+  const autoMode = value.targetSizeMb !== null;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm text-sm">
+      <h3 className="text-lg font-semibold text-slate-800">Xuất PDF</h3>
+      <div className="flex flex-col gap-1 text-xs text-slate-600">
+        <span className="font-semibold text-slate-700">{autoMode ? 'Chế độ màu tối đa' : 'Chế độ màu'}</span>
+        <div className="flex gap-1">
+          {(Object.keys(COLOR_MODE_LABELS) as ExportColorMode[]).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => update({ colorMode: mode })}
+              disabled={disabled}
+              aria-pressed={value.colorMode === mode}
+              className={`flex-1 rounded-md border px-2 py-1.5 font-semibold disabled:opacity-60 ${value.colorMode === mode ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 'border-slate-200 text-slate-600'}`}
+            >
+              {COLOR_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {!autoMode && value.colorMode !== 'bilevel' && (
+        <label className="flex flex-col gap-1 text-xs text-slate-600">
+          <span className="font-semibold text-slate-700">Định dạng ảnh</span>
+          <select
+            value={value.format}
+            onChange={(event) => update({ format: event.target.value === 'jpeg' ? 'jpeg' : 'png' })}
+            disabled={disabled}
+            className="w-full rounded-md border border-slate-200 px-2 py-2 text-sm disabled:opacity-60"
+          >
+            <option value="png">PNG (không mất dữ liệu)</option>
+            <option value="jpeg">JPEG (nhỏ hơn)</option>
+          </select>
+        </label>
+      )}
+      {!autoMode && value.colorMode !== 'bilevel' && value.format === 'jpeg' && (
+        <label className="flex flex-col gap-1 text-xs text-slate-600">
+          <span className="font-semibold text-slate-700">Chất lượng JPEG: {Math.round(value.jpegQuality * 100)}%</span>
+          <input
+            type="range"
+            min={30}
+            max={95}
+            step={5}
+            value={Math.round(value.jpegQuality * 100)}
+            onChange={(event) => update({ jpegQuality: Number(event.target.value) / 100 })}
+            disabled={disabled}
+          />
+        </label>
+      )}
+      {value.colorMode === 'bilevel' && !autoMode && (
+        <p className="text-xs text-slate-500">Đen trắng 1 bit, nén Flate: nhỏ nhất nhưng mất nét mờ và màu.</p>
+      )}
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={autoMode}
+          onChange={(event) => update({ targetSizeMb: event.target.checked ? DEFAULT_TARGET_SIZE_MB : null })}
+          disabled={disabled}
+        />
+        <span className="font-semibold text-slate-700">Giới hạn dung lượng mỗi file</span>
+        {autoMode && (
+          <>
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={value.targetSizeMb ?? DEFAULT_TARGET_SIZE_MB}
+              onChange={(event) => {
+                const size = Number(event.target.value);
+                if (Number.isFinite(size) && size > 0) update({ targetSizeMb: size });
+              }}
+              disabled={disabled}
+              className="w-20 rounded-md border border-slate-200 px-2 py-1 text-sm"
+            />
+            <span>MB</span>
+          </>
+        )}
+      </label>
+      {autoMode && (
+        <p className="text-xs text-slate-500">
+          Tự thử từ JPEG chất lượng cao tới ảnh xám, đen trắng và giảm độ phân giải cho tới khi vừa dung lượng.
+        </p>
+      )}
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={value.ocrTextLayer}
+          onChange={(event) => update({ ocrTextLayer: event.target.checked })}
+          disabled={disabled}
+        />
+        <span className="font-semibold text-slate-700">Lớp chữ tìm kiếm được (OCR tiếng Việt/Anh)</span>
+      </label>
+      {value.ocrTextLayer && (
+        <p className="text-xs text-slate-500">
+          Nhận dạng chữ ngay trên máy sau khi xóa mực, không cần mạng. Chữ ẩn nằm đúng vị trí trên ảnh trang để tìm và chép được.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
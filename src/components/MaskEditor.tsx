@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PageEditMode, PageEditStroke } from '../models/appModels';
+
+interface MaskEditorProps {
+  processedImage: string;
+  sourceImage: string;
+  initialStrokes: PageEditStroke[];
+  isSaving?: boolean;
+  onSave: (strokes: PageEditStroke[]) => void;
+  onCancel: () => void;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3];
+const MIN_BRUSH_SIZE = 4;
+const MAX_BRUSH_SIZE = 120;
+
+const OVERLAY_COLORS: Record<PageEditMode, string> = {
+  clean: 'rgba(244, 63, 94, 0.45)',
+  restore: 'rgba(16, 185, 129, 0.45)',
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({
+  processedImage,
+  sourceImage,
+  initialStrokes,
+  isSaving = false,
+  onSave,
+  onCancel,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawingRef = useRef<PageEditStroke | null>(null);
+
+  const [strokes, setStrokes] = useState<PageEditStroke[]>(initialStrokes);
+  const [mode, setMode] = useState<PageEditMode>('clean');
+  const [brushSize, setBrushSize] = useState<number>(24);
+  const [zoomIndex, setZoomIndex] = useState<number>(2);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [showSource, setShowSource] = useState<boolean>(false);
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  // Vẽ lại lớp phủ mỗi khi danh sách nét thay đổi
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !imageSize) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    for (const stroke of strokes) drawStroke(ctx, stroke);
+  }, [strokes, imageSize]);
+
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const width = imageSize?.width ?? rect.width;
+    const height = imageSize?.height ?? rect.height;
+    return [
+      Math.round(((event.clientX - rect.left) / rect.width) * width),
+      Math.round(((event.clientY - rect.top) / rect.height) * height),
+    ];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isSaving) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const stroke: PageEditStroke = { mode, size: brushSize, points: [toImagePoint(event)] };
+    drawingRef.current = stroke;
+    const ctx = event.currentTarget.getContext('2d');
+    if (ctx) drawStroke(ctx, stroke);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = drawingRef.current;
+    if (!stroke) return;
+    const point = toImagePoint(event);
+    const last = stroke.points[stroke.points.length - 1];
+    if (last[0] === point[0] && last[1] === point[1]) return;
+    stroke.points.push(point);
+    const ctx = event.currentTarget.getContext('2d');
+    if (ctx) drawSegment(ctx, stroke, last, point);
+  };
+
+  const handlePointerUp = () => {
+    const stroke = drawingRef.current;
+    drawingRef.current = null;
+    if (stroke) setStrokes((prev) => [...prev, stroke]);
+  };
+
+  const handleUndo = () => {
+    setStrokes((prev) => prev.slice(0, -1));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-slate-900/70 p-2 sm:p-6" role="dialog" aria-modal="true">
+      <div className="flex flex-1 flex-col gap-3 overflow-hidden rounded-lg bg-white p-4 shadow-xl">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <h2 className="mr-2 text-lg font-semibold text-slate-800">Chỉnh sửa thủ công</h2>
+          {(['clean', 'restore'] as PageEditMode[]).map((item) => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setMode(item)}
+              aria-pressed={mode === item}
+              className={`rounded-full border px-3 py-1 font-semibold ${mode === item
+                ? item === 'clean'
+                  ? 'border-rose-400 bg-rose-50 text-rose-700'
+                  : 'border-emerald-400 bg-emerald-50 text-emerald-700'
+                : 'border-slate-200 bg-white text-slate-600'}`}
+            >
+              {item === 'clean' ? '🧽 Xóa thêm' : '↩️ Khôi phục gốc'}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 text-slate-700">
+            Cọ
+            <input
+              type="range"
+              min={MIN_BRUSH_SIZE}
+              max={MAX_BRUSH_SIZE}
+              value={brushSize}
+              onChange={(event) => setBrushSize(Number(event.target.value))}
+            />
+            <span className="w-12 text-xs text-slate-500">{brushSize}px</span>
+          </label>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => setZoomIndex((index) => Math.max(0, index - 1))}
+              disabled={zoomIndex === 0}
+              className="rounded-md border border-slate-200 px-2 py-1 font-semibold disabled:opacity-50"
+              aria-label="Thu nhỏ"
+            >
+              −
+            </button>
+            <span className="w-12 text-center text-xs text-slate-600">{Math.round(zoom * 100)}%</span>
+            <button
+              type="button"
+              onClick={() => setZoomIndex((index) => Math.min(ZOOM_LEVELS.length - 1, index + 1))}
+              disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+              className="rounded-md border border-slate-200 px-2 py-1 font-semibold disabled:opacity-50"
+              aria-label="Phóng to"
+            >
+              +
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-slate-700">
+            <input type="checkbox" checked={showSource} onChange={(event) => setShowSource(event.target.checked)} />
+            Xem ảnh gốc
+          </label>
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleUndo}
+              disabled={!strokes.length || isSaving}
+              className="rounded-md border border-slate-200 px-3 py-1 font-semibold text-slate-700 disabled:opacity-50"
+            >
+              Hoàn tác
+            </button>
+            <button
+              type="button"
+              onClick={() => setStrokes([])}
+              disabled={!strokes.length || isSaving}
+              className="rounded-md border border-slate-200 px-3 py-1 font-semibold text-slate-700 disabled:opacity-50"
+            >
+              Xóa hết nét
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSaving}
+              className="rounded-md border border-slate-200 px-3 py-1 font-semibold text-slate-700 disabled:opacity-50"
+            >
+              Hủy
+            </button>
+            <button
+              type="button"
+              onClick={() => onSave(strokes)}
+              disabled={isSaving}
+              className="rounded-md bg-emerald-600 px-3 py-1 font-semibold text-white shadow hover:bg-emerald-700 disabled:opacity-60"
+            >
+              {isSaving ? 'Đang áp dụng...' : 'Lưu chỉnh sửa'}
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">
+          Tô đỏ để xóa thêm vùng còn sót, tô xanh để lấy lại nội dung gốc bị xóa nhầm. Nét vẽ sau đè lên nét trước.
+        </p>
+        <div className="flex-1 overflow-auto rounded-md border border-slate-200 bg-slate-50 p-3">
+          <div
+            className="relative mx-auto"
+            style={imageSize ? { width: imageSize.width * zoom, height: imageSize.height * zoom } : undefined}
+          >
+            <img
+              src={showSource ? sourceImage : processedImage}
+              alt="Trang đang chỉnh sửa"
+              className="block h-full w-full select-none"
+              draggable={false}
+              onLoad={(event) => {
+                const { naturalWidth, naturalHeight } = event.currentTarget;
+                if (!imageSize) setImageSize({ width: naturalWidth, height: naturalHeight });
+              }}
+            />
+            {imageSize && (
+              <canvas
+                ref={canvasRef}
+                width={imageSize.width}
+                height={imageSize.height}
+                className="absolute inset-0 h-full w-full touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const drawStroke = (ctx: CanvasRenderingContext2D, stroke: PageEditStroke) => {
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+  ctx.fillStyle = OVERLAY_COLORS[stroke.mode];
+  ctx.beginPath();
+  ctx.arc(first[0], first[1], stroke.size / 2, 0, Math.PI * 2);
+  ctx.fill();
+  if (!rest.length) return;
+  ctx.strokeStyle = OVERLAY_COLORS[stroke.mode];
+  ctx.lineWidth = stroke.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  ctx.moveTo(first[0], first[1]);
+  for (const [x, y] of rest) ctx.lineTo(x, y);
+  ctx.stroke();
+};
+
+const drawSegment = (
+  ctx: CanvasRenderingContext2D,
+  stroke: PageEditStroke,
+  from: [number, number],
+  to: [number, number]
+) => {
+  ctx.strokeStyle = OVERLAY_COLORS[stroke.mode];
+  ctx.lineWidth = stroke.size;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(from[0], from[1]);
+  ctx.lineTo(to[0], to[1]);
+  ctx.stroke();
+};
+
+export default MaskEditor;
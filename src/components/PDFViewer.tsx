@@ -11,9 +11,18 @@ interface PDFViewerProps {
   file: File | null;
   onPDFToImage?: (imageData: string) => void;
   onDocumentLoad?: (info: { numPages: number }) => void;
+  // Truyền vào để điều khiển trang từ bên ngoài (đồng bộ với khung kết quả)
+  pageNumber?: number;
+  onPageChange?: (pageNumber: number) => void;
 }
 
-const PDFViewer: React.FC<PDFViewerProps> = ({ file, onPDFToImage, onDocumentLoad }) => {
+const PDFViewer: React.FC<PDFViewerProps> = ({
+  file,
+  onPDFToImage,
+  onDocumentLoad,
+  pageNumber: controlledPageNumber,
+  onPageChange,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const pdfRef = useRef<pdfjsLib.PDFDocumentProxy | null>(null);
   const renderTaskRef = useRef<pdfjsLib.RenderTask | null>(null);
@@ -23,12 +32,13 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, onPDFToImage, onDocumentLoa
   const onPDFToImageRef = useRef<PDFViewerProps['onPDFToImage']>(onPDFToImage);
 
   const [numPages, setNumPages] = useState<number>(0);
-  const [pageNumber, setPageNumber] = useState<number>(1);
+  const [internalPageNumber, setPageNumber] = useState<number>(1);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
   const [pagePreview, setPagePreview] = useState<string>('');
 
   const canRender = useMemo(() => !!file, [file]);
+  const pageNumber = controlledPageNumber ?? internalPageNumber;
 
   useEffect(() => {
     onDocumentLoadRef.current = onDocumentLoad;
@@ -168,12 +178,18 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, onPDFToImage, onDocumentLoa
     });
   }, [isLoading, numPages, pageNumber]);
 
+  const goToPage = (next: number) => {
+    const clamped = Math.min(Math.max(next, 1), numPages);
+    if (controlledPageNumber !== undefined) onPageChange?.(clamped);
+    else setPageNumber(clamped);
+  };
+
   const handlePreviousPage = () => {
-    setPageNumber((prev) => Math.max(prev - 1, 1));
+    goToPage(pageNumber - 1);
   };
 
   const handleNextPage = () => {
-    setPageNumber((prev) => Math.min(prev + 1, numPages));
+    goToPage(pageNumber + 1);
   };
 
   if (!file) {
@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { INK_PROFILES } from '../const/inkProfiles';
+import type { InkProfileId, TuningPreset } from '../models/appModels';
+
+interface PresetLibraryProps {
+  presets: TuningPreset[];
+  selectedPresetId: string | null;
+  defaultInkProfile: InkProfileId;
+  disabled?: boolean;
+  onSelect: (presetId: string | null) => void;
+  onSave: (name: string, description: string, inkProfile: InkProfileId) => Promise<void>;
+  onDelete: (presetId: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const PresetLibrary: React.FC<PresetLibraryProps> = ({
+  presets,
+  selectedPresetId,
+  defaultInkProfile,
+  disabled = false,
+  onSelect,
+  onSave,
+  onDelete,
+  onExport,
+  onImport,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isSaveFormOpen, setIsSaveFormOpen] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [inkProfile, setInkProfile] = useState<InkProfileId>(defaultInkProfile);
+
+  const selected = presets.find((preset) => preset.id === selectedPresetId) ?? null;
+
+  const openSaveForm = () => {
+    setName('');
+    setDescription('');
+    setInkProfile(defaultInkProfile);
+    setIsSaveFormOpen(true);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    await onSave(name, description, inkProfile);
+    setIsSaveFormOpen(false);
+  };
+
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm text-sm">
+      <h3 className="text-lg font-semibold text-slate-800">Preset tuning</h3>
+      <select
+        value={selectedPresetId ?? ''}
+        onChange={(event) => onSelect(event.target.value || null)}
+        disabled={disabled}
+        className="w-full rounded-md border border-slate-200 px-2 py-2 disabled:opacity-60"
+        aria-label="Chọn preset cho file"
+      >
+        <option value="">Không dùng preset</option>
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name} · {INK_PROFILES[preset.inkProfile]?.label ?? preset.inkProfile}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <div className="flex items-start justify-between gap-2 rounded-md bg-slate-50 px-3 py-2 text-xs text-slate-600">
+          <span>{selected.description || 'Không có mô tả'}</span>
+          <button
+            type="button"
+            onClick={() => onDelete(selected.id)}
+            className="shrink-0 font-semibold text-rose-600 hover:underline"
+          >
+            Xóa preset
+          </button>
+        </div>
+      )}
+
+      {isSaveFormOpen ? (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Tên preset (vd: Đề Toán 10 - máy scan A)"
+            className="rounded-md border border-slate-200 px-2 py-1"
+            required
+          />
+          <textarea
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="Mô tả (loại đề, máy scan, lưu ý...)"
+            rows={2}
+            className="rounded-md border border-slate-200 px-2 py-1"
+          />
+          <select
+            value={inkProfile}
+            onChange={(event) => setInkProfile(event.target.value as InkProfileId)}
+            className="rounded-md border border-slate-200 px-2 py-1"
+            aria-label="Màu mực của preset"
+          >
+            {Object.values(INK_PROFILES).map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsSaveFormOpen(false)}
+              className="rounded-md border border-slate-200 px-3 py-1 font-semibold text-slate-700"
+            >
+              Hủy
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="rounded-md bg-emerald-600 px-3 py-1 font-semibold text-white disabled:opacity-60"
+            >
+              Lưu
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={openSaveForm}
+          disabled={disabled}
+          className="rounded-md border border-emerald-500 px-3 py-1 font-semibold text-emerald-700 hover:bg-emerald-50 disabled:opacity-60"
+        >
+          💾 Lưu tuning hiện tại thành preset
+        </button>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={!presets.length}
+          className="flex-1 rounded-md border border-slate-200 px-3 py-1 font-semibold text-slate-700 disabled:opacity-50"
+        >
+          ⬇️ Xuất JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          className="flex-1 rounded-md border border-slate-200 px-3 py-1 font-semibold text-slate-700"
+        >
+          ⬆️ Nhập JSON
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportChange}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PresetLibrary;
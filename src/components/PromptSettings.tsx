@@ -0,0 +1,48 @@
+import React from 'react';
+import type { PromptTemplate } from '../models/appModels';
+import type { TuningProvider } from '../services/ai';
+
+interface PromptSettingsProps {
+  templates: PromptTemplate[];
+  value: string;
+  provider: TuningProvider | null;
+  disabled?: boolean;
+  onChange: (promptVersion: string) => void;
+}
+
+const PromptSettings: React.FC<PromptSettingsProps> = ({ templates, value, provider, disabled = false, onChange }) => {
+  const selected = templates.find((template) => template.id === value) ?? templates[0];
+  const model = provider ? `${provider.id}/${selected.settings.models?.[provider.id] ?? provider.model}` : null;
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-slate-200 bg-white p-4 shadow-sm text-sm">
+      <h3 className="text-lg font-semibold text-slate-800">Cài đặt AI</h3>
+      <label className="flex flex-col gap-1 text-xs text-slate-600">
+        <span className="font-semibold text-slate-700">Phiên bản prompt</span>
+        <select
+          value={selected.id}
+          onChange={(event) => onChange(event.target.value)}
+          disabled={disabled}
+          className="w-full rounded-md border border-slate-200 px-2 py-2 text-sm disabled:opacity-60"
+        >
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.label} ({template.id})
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-slate-500">{selected.description}</p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-slate-600">
+        <dt className="font-semibold">Model</dt>
+        <dd>{model ?? 'Chưa cấu hình AI provider'}</dd>
+        <dt className="font-semibold">Temperature</dt>
+        <dd>{selected.settings.temperature}</dd>
+        <dt className="font-semibold">Max output</dt>
+        <dd>{selected.settings.maxOutputTokens} token</dd>
+      </dl>
+    </div>
+  );
+};
+
+export default PromptSettings;
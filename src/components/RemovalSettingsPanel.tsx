@@ -0,0 +1,66 @@
+import React from 'react';
+import type { InpaintMode, RemovalSettings } from '../models/appModels';
+
+interface RemovalSettingsPanelProps {
+  value: RemovalSettings;
+  disabled?: boolean;
+  onChange: (settings: RemovalSettings) => void;
+}
+
+const INPAINT_MODE_LABELS: Record<InpaintMode, string> = {
+  average: 'Trung bình lân cận',
+  telea: 'Telea (nối tiếp nét chữ)',
+};
+
+/**
+ * Cách lấp vùng đã xóa và giữ bố cục in sẵn, áp dụng cho lần xử lý tiếp theo
+ */
+const RemovalSettingsPanel: React.FC<RemovalSettingsPanelProps> = ({ value, disabled = false, onChange }) => {
+  const update = (patch: Partial<RemovalSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm text-sm">
+      <h3 className="text-lg font-semibold text-slate-800">Xóa mực</h3>
+      <label className="flex flex-col gap-1 text-xs text-slate-600">
+        <span className="font-semibold text-slate-700">Cách lấp vùng xóa</span>
+        <select
+          value={value.inpaintMode}
+          onChange={(event) => update({ inpaintMode: event.target.value === 'telea' ? 'telea' : 'average' })}
+          disabled={disabled}
+          className="w-full rounded-md border border-slate-200 px-2 py-2 text-sm disabled:opacity-60"
+        >
+          {(Object.keys(INPAINT_MODE_LABELS) as InpaintMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {INPAINT_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={value.preserveLayout}
+          onChange={(event) => update({ preserveLayout: event.target.checked })}
+          disabled={disabled}
+        />
+        <span className="font-semibold text-slate-700">Giữ khung, đường kẻ, tiêu đề in sẵn</span>
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={value.protectStudentInk}
+          onChange={(event) => update({ protectStudentInk: event.target.checked })}
+          disabled={disabled}
+        />
+        <span className="font-semibold text-slate-700">Tự nhận mực học sinh</span>
+      </label>
+      {value.protectStudentInk && (
+        <p className="text-xs text-slate-500">
+          Nhận màu mực viết chiếm phần lớn trang (không tính chữ in đen); không rõ thì chọn cụm mực học sinh trên từng trang.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RemovalSettingsPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { RenderSettings } from '../models/appModels';
+import { MAX_PAGE_PIXELS } from '../services/pageRenderService';
+import { RENDER_DPI_OPTIONS } from '../services/settingsService';
+
+interface RenderSettingsPanelProps {
+  value: RenderSettings;
+  disabled?: boolean;
+  onChange: (settings: RenderSettings) => void;
+}
+
+/**
+ * Độ phân giải đưa trang vào pipeline xóa mực, áp dụng cho lần xử lý file tiếp theo
+ */
+const RenderSettingsPanel: React.FC<RenderSettingsPanelProps> = ({ value, disabled = false, onChange }) => {
+  const update = (patch: Partial<RenderSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm text-sm">
+      <h3 className="text-lg font-semibold text-slate-800">Độ phân giải</h3>
+      <label className="flex flex-col gap-1 text-xs text-slate-600">
+        <span className="font-semibold text-slate-700">DPI render trang</span>
+        <select
+          value={value.renderDpi}
+          onChange={(event) => update({ renderDpi: Number(event.target.value) })}
+          disabled={disabled}
+          className="w-full rounded-md border border-slate-200 px-2 py-2 text-sm disabled:opacity-60"
+        >
+          {RENDER_DPI_OPTIONS.map((dpi) => (
+            <option key={dpi} value={dpi}>
+              {dpi} DPI
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={value.nativeScanImages}
+          onChange={(event) => update({ nativeScanImages: event.target.checked })}
+          disabled={disabled}
+        />
+        <span className="font-semibold text-slate-700">Xử lý ảnh quét ở độ phân giải gốc</span>
+      </label>
+      <p className="text-xs text-slate-500">
+        Trang quét chỉ gồm một ảnh được làm sạch trên chính ảnh nhúng và thay lại vào trang. Trang lớn hơn{' '}
+        {Math.round(MAX_PAGE_PIXELS / 1_000_000)} triệu pixel được render giảm DPI để không tràn bộ nhớ.
+      </p>
+    </div>
+  );
+};
+
+export default RenderSettingsPanel;
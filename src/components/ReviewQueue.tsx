@@ -0,0 +1,128 @@
+import React from 'react';
+import type { PageConfidence, PageReviewDecision } from '../models/appModels';
+
+export type ReviewQueueItem = {
+  pageIndex: number;
+  image: string;
+  confidence: PageConfidence;
+  decision?: PageReviewDecision;
+};
+
+interface ReviewQueueProps {
+  items: ReviewQueueItem[];
+  activePageIndex: number;
+  disabled?: boolean;
+  onOpen: (pageIndex: number) => void;
+  onDecide: (pageIndex: number, decision: PageReviewDecision | null) => void;
+  onRefreshTuning: (pageIndex: number) => void;
+  onAdjust: (pageIndex: number) => void;
+}
+
+const DECISION_LABELS: Record<PageReviewDecision, string> = {
+  approved: '✅ Đã duyệt',
+  'keep-original': '📄 Giữ bản gốc',
+};
+
+/**
+ * Danh sách trang có điểm tin cậy thấp để người vận hành duyệt trước khi tải xuống
+ */
+const ReviewQueue: React.FC<ReviewQueueProps> = ({
+  items,
+  activePageIndex,
+  disabled = false,
+  onOpen,
+  onDecide,
+  onRefreshTuning,
+  onAdjust,
+}) => {
+  const pending = items.filter((item) => !item.decision).length;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-amber-200 bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-800">Hàng chờ duyệt</h2>
+        <span className={`text-sm font-semibold ${pending ? 'text-amber-700' : 'text-emerald-700'}`}>
+          {pending ? `${pending} trang cần xem` : 'Đã xử lý hết'}
+        </span>
+      </div>
+      <ul className="flex flex-col gap-2">
+        {items.map((item) => (
+          <li
+            key={item.pageIndex}
+            className={`flex gap-3 rounded-md border p-2 text-sm ${item.pageIndex === activePageIndex ? 'border-sky-300 bg-sky-50' : 'border-slate-200'}`}
+          >
+            <button
+              type="button"
+              onClick={() => onOpen(item.pageIndex)}
+              className="shrink-0"
+              aria-label={`Xem trang ${item.pageIndex + 1}`}
+            >
+              <img src={item.image} alt="" className="h-20 w-16 rounded border border-slate-200 object-cover" />
+            </button>
+            <div className="flex min-w-0 flex-1 flex-col gap-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-slate-800">Trang {item.pageIndex + 1}</span>
+                <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800">
+                  {Math.round(item.confidence.score * 100)}%
+                </span>
+                {item.decision && <span className="text-xs font-semibold text-slate-600">{DECISION_LABELS[item.decision]}</span>}
+              </div>
+              {item.confidence.reasons.length > 0 && (
+                <p className="text-xs text-slate-500">{item.confidence.reasons.join(' · ')}</p>
+              )}
+              <div className="flex flex-wrap gap-2 text-xs">
+                {item.decision ? (
+                  <button
+                    type="button"
+                    onClick={() => onDecide(item.pageIndex, null)}
+                    disabled={disabled}
+                    className="font-semibold text-slate-600 hover:underline disabled:opacity-50"
+                  >
+                    Bỏ quyết định
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => onDecide(item.pageIndex, 'approved')}
+                      disabled={disabled}
+                      className="font-semibold text-emerald-700 hover:underline disabled:opacity-50"
+                    >
+                      Duyệt
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRefreshTuning(item.pageIndex)}
+                      disabled={disabled}
+                      className="font-semibold text-sky-700 hover:underline disabled:opacity-50"
+                    >
+                      Hỏi lại AI
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onAdjust(item.pageIndex)}
+                      disabled={disabled}
+                      className="font-semibold text-sky-700 hover:underline disabled:opacity-50"
+                    >
+                      Chỉnh ngưỡng
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDecide(item.pageIndex, 'keep-original')}
+                      disabled={disabled}
+                      className="font-semibold text-slate-700 hover:underline disabled:opacity-50"
+                    >
+                      Giữ bản gốc
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ReviewQueue;
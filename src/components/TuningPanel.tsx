@@ -0,0 +1,175 @@
+import React from 'react';
+import type { TuningOverride } from '../models/appModels';
+
+export type TuningScope = 'file' | 'page';
+
+interface TuningPanelProps {
+  value: TuningOverride;
+  scope: TuningScope;
+  // Nguồn của giá trị đang hiển thị
+  source: 'page' | 'file' | 'auto';
+  pageNumber: number;
+  disabled?: boolean;
+  isPreviewing?: boolean;
+  // Phạm vi đang chọn có giá trị chỉnh tay để bỏ
+  canReset: boolean;
+  onScopeChange: (scope: TuningScope) => void;
+  onChange: (value: TuningOverride) => void;
+  onReset: () => void;
+}
+
+const SOURCE_LABELS: Record<TuningPanelProps['source'], string> = {
+  page: 'riêng trang này',
+  file: 'chung cả file',
+  auto: 'tự động (AI/mặc định)',
+};
+
+type SliderProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+};
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, disabled, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-600">
+    <span className="flex items-center justify-between">
+      <span className="font-semibold text-slate-700">{label}</span>
+      <span>{format ? format(value) : value}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(event) => onChange(Number(event.target.value))}
+    />
+  </label>
+);
+
+const WHEEL_SIZE = 120;
+const WHEEL_RADIUS = 50;
+const WHEEL_SEGMENTS = 72;
+
+const polar = (angle: number, radius: number): [number, number] => {
+  const rad = ((angle - 90) * Math.PI) / 180;
+  return [WHEEL_SIZE / 2 + radius * Math.cos(rad), WHEEL_SIZE / 2 + radius * Math.sin(rad)];
+};
+
+const arcPath = (start: number, end: number, radius: number): string => {
+  // Khoảng hue a > b là khoảng vòng qua 360
+  const span = ((end - start + 360) % 360) || (end === start ? 0 : 360);
+  const [x0, y0] = polar(start, radius);
+  const [x1, y1] = polar(start + Math.min(Math.max(span, 0.5), 359.9), radius);
+  return `M ${x0} ${y0} A ${radius} ${radius} 0 ${span > 180 ? 1 : 0} 1 ${x1} ${y1}`;
+};
+
+/**
+ * Vòng màu hue, tô đậm hai khoảng hue đang chọn
+ */
+const HueWheel: React.FC<{ ranges: [number, number][] }> = ({ ranges }) => (
+  <svg width={WHEEL_SIZE} height={WHEEL_SIZE} viewBox={`0 0 ${WHEEL_SIZE} ${WHEEL_SIZE}`} aria-hidden="true">
+    {Array.from({ length: WHEEL_SEGMENTS }, (_, index) => {
+      const start = (index * 360) / WHEEL_SEGMENTS;
+      return (
+        <path
+          key={index}
+          d={arcPath(start, start + 360 / WHEEL_SEGMENTS + 0.5, WHEEL_RADIUS)}
+          stroke={`hsl(${start}, 85%, 55%)`}
+          strokeWidth={8}
+          fill="none"
+          opacity={0.35}
+        />
+      );
+    })}
+    {ranges.map(([start, end], index) => (
+      <path
+        key={index}
+        d={arcPath(start, end, WHEEL_RADIUS)}
+        stroke={`hsl(${start}, 85%, 50%)`}
+        strokeWidth={14}
+        strokeLinecap="round"
+        fill="none"
+      />
+    ))}
+    {ranges.map(([start, end], index) => (
+      <path key={`outline-${index}`} d={arcPath(start, end, WHEEL_RADIUS - 11)} stroke="#0f172a" strokeWidth={1.5} fill="none" />
+    ))}
+  </svg>
+);
+
+const TuningPanel: React.FC<TuningPanelProps> = ({
+  value,
+  scope,
+  source,
+  pageNumber,
+  disabled = false,
+  isPreviewing = false,
+  canReset,
+  onScopeChange,
+  onChange,
+  onReset,
+}) => {
+  const update = <K extends keyof TuningOverride>(key: K, next: TuningOverride[K]) => {
+    onChange({ ...value, [key]: next });
+  };
+
+  const updateHue = (key: 'hueA' | 'hueB', index: 0 | 1, next: number) => {
+    const range: [number, number] = [...value[key]];
+    range[index] = next;
+    update(key, range);
+  };
+
+  const percent = (v: number) => `${Math.round(v * 100)}%`;
+  const degrees = (v: number) => `${v}°`;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-800">Tinh chỉnh ngưỡng</h3>
+        {isPreviewing && <span className="text-xs text-amber-600">Đang cập nhật...</span>}
+      </div>
+      <div className="flex gap-2 text-xs">
+        {(['page', 'file'] as TuningScope[]).map((item) => (
+          <button
+            key={item}
+            type="button"
+            onClick={() => onScopeChange(item)}
+            aria-pressed={scope === item}
+            className={`flex-1 rounded-full border px-2 py-1 font-semibold ${scope === item ? 'border-emerald-400 bg-emerald-50 text-emerald-700' : 'border-slate-200 bg-white text-slate-600'}`}
+          >
+            {item === 'page' ? `Trang ${pageNumber}` : 'Cả file'}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">Đang dùng: {SOURCE_LABELS[source]}</p>
+      <div className="flex justify-center">
+        <HueWheel ranges={[value.hueA, value.hueB]} />
+      </div>
+      <Slider label="Hue A từ" value={value.hueA[0]} min={0} max={360} step={1} format={degrees} disabled={disabled} onChange={(v) => updateHue('hueA', 0, v)} />
+      <Slider label="Hue A đến" value={value.hueA[1]} min={0} max={360} step={1} format={degrees} disabled={disabled} onChange={(v) => updateHue('hueA', 1, v)} />
+      <Slider label="Hue B từ" value={value.hueB[0]} min={0} max={360} step={1} format={degrees} disabled={disabled} onChange={(v) => updateHue('hueB', 0, v)} />
+      <Slider label="Hue B đến" value={value.hueB[1]} min={0} max={360} step={1} format={degrees} disabled={disabled} onChange={(v) => updateHue('hueB', 1, v)} />
+      <Slider label="Độ bão hòa tối thiểu (sMin)" value={value.sMin} min={0} max={1} step={0.01} format={percent} disabled={disabled} onChange={(v) => update('sMin', v)} />
+      <Slider label="Độ sáng tối thiểu (vMin)" value={value.vMin} min={0} max={1} step={0.01} format={percent} disabled={disabled} onChange={(v) => update('vMin', v)} />
+      <Slider label="Nới rộng mask" value={value.dilateRadius} min={0} max={3} step={1} format={(v) => `${v}px`} disabled={disabled} onChange={(v) => update('dilateRadius', v)} />
+      <Slider label="Bán kính inpaint" value={value.inpaintRadius} min={1} max={5} step={1} format={(v) => `${v}px`} disabled={disabled} onChange={(v) => update('inpaintRadius', v)} />
+      <button
+        type="button"
+        onClick={onReset}
+        disabled={disabled || !canReset}
+        className="self-end text-xs font-semibold text-sky-700 hover:underline disabled:opacity-50"
+      >
+        {scope === 'page' ? 'Bỏ chỉnh riêng trang' : 'Bỏ chỉnh cho cả file'}
+      </button>
+    </div>
+  );
+};
+
+export default TuningPanel;
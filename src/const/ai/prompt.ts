@@ -1,12 +1,76 @@
-export const GEMINI_RED_CLEANUP_PROMPT = (
-	'You will receive a scanned document image that contains red teacher markings (ticks, circles, underlines). ' +
-	'Remove ONLY the handwriting/annotation strokes while preserving any structural red elements such as printed borders, layout frames, or decorative headings. ' +
-	'Be aggressive enough to remove at least 100% of teacher ink, even if that requires broader hue coverage or slightly higher dilation/inpainting radii, but never erase printed layout elements. ' +
-	'Specifically expand detection to catch faint pink, magenta, and orange-red remnants by keeping saturation thresholds no higher than 0.25 and value thresholds no higher than 0.2. ' +
-	'Treat any annotation color that differs from the student’s original writing ink as teacher ink that must be removed. ' +
-	'During the final double-check pass, erase any remaining teacher pixels by overwriting them with pure white (#FFFFFF) so the page looks clean like the provided samples. ' +
-	'Double-check the cleaned output, especially cramped or narrow handwriting regions, to ensure no red strokes remain before finalizing parameters. ' +
-	'Return ONLY valid JSON (no markdown) with recommended HSV thresholds to detect those red ink markings while keeping black text and the original red layout. ' +
+import type { InkProfile, PromptTemplate } from '../../models/appModels';
+
+/**
+ * Phần hướng dẫn chung của các phiên bản prompt xóa nét chấm.
+ * Profile đầu tiên là profile chính: JSON trả về mô tả ngưỡng cho màu đó.
+ */
+const cleanupInstructions = (profiles: InkProfile[]): string => {
+	const [primary, ...others] = profiles;
+	const colorList = profiles.map((profile) => profile.colorName).join(', ');
+	return (
+		`You will receive a scanned document image that contains teacher markings (ticks, circles, underlines) in ${colorList} ink. ` +
+		`Remove ONLY the handwriting/annotation strokes while preserving any structural ${primary.colorName} elements such as printed borders, layout frames, or decorative headings. ` +
+		'Be aggressive enough to remove at least 100% of teacher ink, even if that requires broader hue coverage or slightly higher dilation/inpainting radii, but never erase printed layout elements. ' +
+		'Specifically expand detection to catch faint, washed-out and anti-aliased remnants of the ink by keeping saturation thresholds no higher than 0.25 and value thresholds no higher than 0.2. ' +
+		'Treat any annotation color that differs from the student’s original writing ink as teacher ink that must be removed. ' +
+		'During the final double-check pass, erase any remaining teacher pixels by overwriting them with pure white (#FFFFFF) so the page looks clean like the provided samples. ' +
+		`Double-check the cleaned output, especially cramped or narrow handwriting regions, to ensure no ${primary.colorName} strokes remain before finalizing parameters. ` +
+		(others.length
+			? `Other teacher ink colors (${others.map((profile) => profile.colorName).join(', ')}) are removed with built-in ranges; the thresholds you return are for the ${primary.colorName} ink only. `
+			: '') +
+		`Return ONLY valid JSON (no markdown) with recommended HSV thresholds to detect those ${primary.colorName} ink markings while keeping black text and the original printed layout. `
+	);
+};
+
+/**
+ * v1: chỉ gợi ý ngưỡng HSV cho cả trang
+ */
+const buildCleanupPromptV1 = (profiles: InkProfile[]): string =>
+	cleanupInstructions(profiles) +
 	'Schema: {"sMin":0..1,"vMin":0..1,"hueA":[0..360,0..360],"hueB":[0..360,0..360],"dilateRadius":0..3,"inpaintRadius":1..5}. ' +
-	'Use hue ranges around red (near 0 and near 360).'
-);
+	`Use hue ranges ${profiles[0].promptHueHint}.`;
+
+/**
+ * v2: ngưỡng HSV kèm đa giác khoanh nét chấm (annotation) và phần in sẵn cần giữ (keep)
+ */
+const buildCleanupPromptV2 = (profiles: InkProfile[]): string => {
+	const [primary] = profiles;
+	return (
+		cleanupInstructions(profiles) +
+		`Also localise the marks in "regions": one polygon of kind "annotation" around each teacher mark or cluster of marks, and one polygon of kind "keep" around each printed ${primary.colorName} element (headers, logos, borders, stamps) that must survive. ` +
+		'Polygons use normalised coordinates: [x, y] with x = left-to-right and y = top-to-bottom, both 0..1 relative to the image; use 4 points for a box, at most 32 points. ' +
+		'Leave a small margin around annotations, keep "keep" polygons tight, and return an empty "regions" array if you cannot localise the marks reliably. ' +
+		'Schema: {"sMin":0..1,"vMin":0..1,"hueA":[0..360,0..360],"hueB":[0..360,0..360],"dilateRadius":0..3,"inpaintRadius":1..5,"regions":[{"kind":"annotation"|"keep","points":[[0..1,0..1],...]}]}. ' +
+		`Use hue ranges ${primary.promptHueHint}.`
+	);
+};
+
+/**
+ * Các phiên bản prompt đã dùng. Không sửa nội dung phiên bản cũ: đổi câu chữ thì thêm phiên bản mới
+ * để biết lô nào chạy với prompt nào.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+	{
+		id: 'cleanup-v1',
+		label: 'v1 · Ngưỡng HSV',
+		description: 'Chỉ gợi ý ngưỡng màu cho cả trang',
+		build: buildCleanupPromptV1,
+		withRegions: false,
+		settings: { temperature: 0, maxOutputTokens: 512 },
+	},
+	{
+		id: 'cleanup-v2',
+		label: 'v2 · Ngưỡng HSV + khoanh vùng',
+		description: 'Ngưỡng màu kèm vùng nét chấm và phần in sẵn cần giữ',
+		build: buildCleanupPromptV2,
+		withRegions: true,
+		settings: { temperature: 0, maxOutputTokens: 2048 },
+	},
+];
+
+export const DEFAULT_PROMPT_VERSION = 'cleanup-v2';
+
+export const getPromptTemplate = (id?: string | null): PromptTemplate =>
+	PROMPT_TEMPLATES.find((template) => template.id === id) ??
+	PROMPT_TEMPLATES.find((template) => template.id === DEFAULT_PROMPT_VERSION) ??
+	PROMPT_TEMPLATES[0];
@@ -4,3 +4,11 @@ export const DEFAULT_TOAST_DURATION_MS = 4000;
 export const AUTH_STORAGE_KEY = 'pdf-processor-auth';
 export const VALID_USERNAME = 'admin';
 export const VALID_PASSWORD = 'Vu$@12345';
+export const AI_SETTINGS_STORAGE_KEY = 'pdf-processor-ai-settings';
+export const EXPORT_SETTINGS_STORAGE_KEY = 'pdf-processor-export-settings';
+export const RENDER_SETTINGS_STORAGE_KEY = 'pdf-processor-render-settings';
+export const REMOVAL_SETTINGS_STORAGE_KEY = 'pdf-processor-removal-settings';
+// Ảnh phủ ít nhất tỉ lệ này của trang thì coi là trang quét nguyên ảnh
+export const MIN_SCAN_COVERAGE = 0.9;
+// Trang quét xóa ít hơn tỉ lệ diện tích này coi như không có nét chấm (chỉ là nhiễu lẻ tẻ)
+export const NO_INK_MASK_COVERAGE = 0.00002;
@@ -0,0 +1,65 @@
+import type { InkProfile, InkProfileId } from '../models/appModels';
+
+export const INK_PROFILES: Record<InkProfileId, InkProfile> = {
+  red: {
+    id: 'red',
+    label: 'Đỏ',
+    colorName: 'red',
+    promptHueHint: 'around red (near 0 and near 360), including pink, magenta and orange-red',
+    swatch: '#e11d48',
+    bands: [
+      { hue: [0, 30], sMin: 0.2, sMax: 1, vMin: 0.15, vMax: 1 },
+      { hue: [330, 360], sMin: 0.2, sMax: 1, vMin: 0.15, vMax: 1 },
+    ],
+    referenceInks: ['#d7263d', '#e8577e', '#e4572e'],
+    tunable: true,
+  },
+  blue: {
+    id: 'blue',
+    label: 'Xanh dương',
+    colorName: 'blue',
+    promptHueHint: 'around blue (roughly 190-255)',
+    swatch: '#2563eb',
+    bands: [{ hue: [190, 255], sMin: 0.25, sMax: 1, vMin: 0.2, vMax: 1 }],
+    referenceInks: ['#1f4fd1', '#3b82f6'],
+    tunable: true,
+  },
+  green: {
+    id: 'green',
+    label: 'Xanh lá',
+    colorName: 'green',
+    promptHueHint: 'around green (roughly 75-165)',
+    swatch: '#16a34a',
+    bands: [{ hue: [75, 165], sMin: 0.25, sMax: 1, vMin: 0.15, vMax: 1 }],
+    referenceInks: ['#15803d', '#22c55e'],
+    tunable: true,
+  },
+  purple: {
+    id: 'purple',
+    label: 'Tím',
+    colorName: 'purple',
+    promptHueHint: 'around purple/violet (roughly 255-320)',
+    swatch: '#9333ea',
+    bands: [{ hue: [255, 320], sMin: 0.2, sMax: 1, vMin: 0.15, vMax: 1 }],
+    referenceInks: ['#7e22ce', '#a855f7'],
+    tunable: true,
+  },
+  pencil: {
+    id: 'pencil',
+    label: 'Bút chì',
+    colorName: 'grey pencil/graphite',
+    promptHueHint: 'any hue with very low saturation and mid-grey value',
+    swatch: '#9ca3af',
+    // Graphite: gần như không bão hòa, sáng hơn mực đen in
+    bands: [{ hue: [0, 360], sMin: 0, sMax: 0.15, vMin: 0.35, vMax: 0.78 }],
+    referenceInks: ['#8a8a8a'],
+    tunable: false,
+  },
+};
+
+export const DEFAULT_INK_PROFILE_IDS: InkProfileId[] = ['red'];
+
+export const getInkProfiles = (ids: InkProfileId[]): InkProfile[] => {
+  const profiles = ids.map((id) => INK_PROFILES[id]).filter(Boolean);
+  return profiles.length ? profiles : DEFAULT_INK_PROFILE_IDS.map((id) => INK_PROFILES[id]);
+};
@@ -4,10 +4,342 @@ export type Toast = {
   type: 'info' | 'success' | 'warning' | 'error';
 };
 
+export type InpaintMode = 'average' | 'telea';
+
+export type DetectionMode = 'hsv' | 'lab';
+
+export type InkProfileId = 'red' | 'blue' | 'green' | 'purple' | 'pencil';
+
+export type HsvBand = {
+  // Hue range (0-360), a > b nghĩa là vòng qua 360
+  hue: [number, number];
+  sMin: number;
+  sMax: number;
+  vMin: number;
+  vMax: number;
+};
+
+export type InkProfile = {
+  id: InkProfileId;
+  // Tên hiển thị trên UI
+  label: string;
+  // Tên màu dùng trong prompt AI
+  colorName: string;
+  promptHueHint: string;
+  swatch: string;
+  bands: HsvBand[];
+  // Màu mực mẫu (hex) cho chế độ phát hiện ΔE
+  referenceInks: string[];
+  // Profile chính có tunable = true lấy hue/sMin/vMin từ tuning (AI) thay cho band mặc định
+  tunable: boolean;
+};
+
+// CIELAB (L 0..100, a/b ~ -128..127)
+export type LabColor = [number, number, number];
+
+export type InkClusterRole = 'student' | 'teacher' | 'other';
+
+export type InkCluster = {
+  lab: LabColor;
+  rgb: [number, number, number];
+  // Tỉ lệ pixel mực thuộc cụm (0..1)
+  share: number;
+  // Màu tâm cụm nằm trong dải màu đang xóa
+  removable: boolean;
+  role: InkClusterRole;
+};
+
+export type RedDetectionTuning = {
+  // HSV thresholds for red detection
+  sMin: number;
+  vMin: number;
+  // Hue ranges (0-360). Red is usually around 0 and 360.
+  hueA: [number, number];
+  hueB: [number, number];
+  // mask expand radius (pixels)
+  dilateRadius: number;
+  // inpaint radius (pixels)
+  inpaintRadius: number;
+  // 'average' = trung bình lân cận, 'telea' = fast marching nối tiếp nét chữ
+  inpaintMode: InpaintMode;
+  // Giữ lại khung, đường kẻ, tiêu đề in sẵn màu đỏ (phân tích thành phần liên thông)
+  preserveLayout: boolean;
+  // Các màu mực cần xóa; profile đầu tiên là profile chính mà hueA/hueB/sMin/vMin mô tả
+  inkProfiles: InkProfileId[];
+  // Tự nhận cụm mực viết có màu chiếm nhiều nhất trang (bỏ qua chữ in đen) là mực học sinh và không xóa (cụm chọn tay luôn được bảo vệ)
+  protectStudentInk: boolean;
+  // 'hsv' = ngưỡng HSV ở trên, 'lab' = khoảng cách ΔE tới màu mực mẫu (mask mềm)
+  detectionMode: DetectionMode;
+  // Màu mực mẫu (hex); rỗng = dùng màu mẫu của các ink profile
+  referenceInks: string[];
+  // ΔE tối đa để pixel bị xóa hoàn toàn; xa hơn thì mask giảm dần về 0
+  deltaETolerance: number;
+};
+
+// Các ngưỡng người vận hành chỉnh được trên panel tuning
+export type TuningOverride = Pick<
+  RedDetectionTuning,
+  'sMin' | 'vMin' | 'hueA' | 'hueB' | 'dilateRadius' | 'inpaintRadius'
+>;
+
+// Tùy chọn xóa người vận hành tự bật, áp lên mọi tuning (AI, cache, preset hay chỉnh tay)
+export type RemovalSettings = Pick<RedDetectionTuning, 'inpaintMode' | 'preserveLayout' | 'protectStudentInk'>;
+
+export type BoundingBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type LayoutComponentKind = 'rule-line' | 'frame' | 'printed-text' | 'annotation';
+
+export type LayoutComponentDecision = {
+  bbox: BoundingBox;
+  area: number;
+  kind: LayoutComponentKind;
+  kept: boolean;
+  reason: string;
+};
+
+// annotation = vùng có nét chấm của giáo viên, keep = phần in sẵn màu đỏ cần giữ
+export type MarkRegionKind = 'annotation' | 'keep';
+
+// Đa giác do AI khoanh trên trang, tọa độ chuẩn hóa 0..1 theo chiều rộng/cao ảnh
+export type MarkRegion = {
+  kind: MarkRegionKind;
+  points: [number, number][];
+};
+
+// Kết quả bước kiểm tra lại sau khi xóa
+export type PageVerification = {
+  // Số pixel còn mang màu mực cần xóa (ngoài vùng được bảo vệ)
+  residualPixels: number;
+  // Tỉ lệ mực còn sót trên tổng mực phát hiện được, 0..1
+  residualRatio: number;
+  // Số lần chạy lại với tuning mạnh hơn
+  escalations: number;
+  passed: boolean;
+};
+
+export type PageConfidence = {
+  // 0..1, càng cao càng tin được kết quả tự động
+  score: number;
+  reasons: string[];
+};
+
+// approved = đã duyệt kết quả, keep-original = xuất trang gốc không xóa
+export type PageReviewDecision = 'approved' | 'keep-original';
+
+export type PageProcessingMeta = {
+  // Kích thước ảnh đã xử lý (pixel), dùng để vẽ overlay debug
+  width: number;
+  height: number;
+  // Tuning đã dùng cho trang
+  tuning: RedDetectionTuning;
+  // PNG trong suốt của mask vùng đã xóa, dùng cho khung so sánh
+  maskUrl: string;
+  // Tuning đến từ đâu, lỗi gì nếu AI không trả lời được
+  tuningOutcome: TuningOutcome;
+  keptComponents: LayoutComponentDecision[];
+  removedComponents: number;
+  inkClusters: InkCluster[];
+  // 'operator' khi người vận hành đã chọn lại cụm mực học sinh
+  studentInkSource: 'auto' | 'operator';
+  // Vùng AI khoanh đã dùng để giới hạn/bảo vệ vùng xóa
+  regions: MarkRegion[];
+  verification?: PageVerification;
+  confidence?: PageConfidence;
+  // Phiên bản prompt đang chọn khi xử lý trang (model nằm trong tuningOutcome)
+  promptVersion?: string;
+  // Tỉ lệ diện tích trang bị xóa, gần 0 nghĩa là không có nét chấm
+  maskCoverage?: number;
+};
+
+// model = AI trả về hợp lệ, default = không gọi AI, fallback = gọi AI lỗi nên dùng mặc định,
+// operator = người vận hành chỉnh tay
+export type TuningSource = 'model' | 'default' | 'fallback' | 'operator';
+
+export type TuningFailureKind = 'timeout' | 'rate-limit' | 'server' | 'blocked' | 'invalid-response' | 'request';
+
+export type TuningOutcome = {
+  source: TuningSource;
+  // Số lần gọi model (kể cả retry)
+  attempts: number;
+  // provider/model đã gọi, ví dụ gemini/gemini-1.5-flash
+  model?: string;
+  failure?: TuningFailureKind;
+  reason?: string;
+  // hit = lấy từ cache theo hash trang, refreshed = bỏ qua cache và gọi lại AI
+  cache?: 'hit' | 'miss' | 'refreshed';
+  // Perceptual hash của trang dùng làm khóa cache
+  fingerprint?: string;
+  // Số trang lấy mẫu khi dùng một tuning cho cả file
+  sampledPages?: number;
+  // AI có khoanh nét chấm nhưng trang này không dùng được (cache của trang gần giống, tuning chung cả file)
+  // nên bị xóa theo màu trên toàn trang
+  annotationRegionsLost?: boolean;
+};
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// Cấu hình gọi model đi kèm một phiên bản prompt
+export type PromptModelSettings = {
+  // Model theo từng provider; không có thì dùng VITE_AI_MODEL hoặc model mặc định của provider
+  models?: Partial<Record<AiProviderId, string>>;
+  temperature: number;
+  maxOutputTokens: number;
+};
+
+export type PromptTemplate = {
+  // Mã phiên bản, được ghi vào metadata từng trang và báo cáo
+  id: string;
+  label: string;
+  description: string;
+  build: (profiles: InkProfile[]) => string;
+  // Prompt yêu cầu model khoanh vùng `regions`; phiên bản chỉ hỏi ngưỡng thì schema không có field này
+  withRegions: boolean;
+  settings: PromptModelSettings;
+};
+
+// Một gợi ý tuning của AI được lưu lại theo hash trang
+export type TuningCacheEntry = {
+  // provider/model + màu mực, gợi ý chỉ dùng lại khi cùng scope
+  scope: string;
+  fingerprint: string;
+  tuning: TuningOverride;
+  // Vùng keep dùng lại cho mọi trang gần giống: bố cục in sẵn giống nhau giữa các trang cùng mẫu đề
+  keepRegions?: MarkRegion[];
+  // Vùng nét chấm chỉ đúng cho chính trang đã hỏi AI nên chỉ dùng lại khi hash trùng khớp
+  annotationRegions?: MarkRegion[];
+  model: string;
+  createdAt: number;
+};
+
+// page = hỏi AI cho từng trang, file = lấy mẫu vài trang rồi dùng chung cho cả file
+export type TuningStrategy = 'page' | 'file';
+
+export type TuningPreset = {
+  id: string;
+  name: string;
+  description: string;
+  // Màu mực chính mà preset được hiệu chỉnh cho
+  inkProfile: InkProfileId;
+  tuning: TuningOverride;
+  updatedAt: number;
+};
+
+// Kết quả xóa trực tiếp trên PDF (không raster hóa) của một trang
+export type VectorPageResult = {
+  // vector = xuất lại trang PDF đã gỡ nét chấm, scanned = trang ảnh quét, xử lý raster
+  kind: 'vector' | 'scanned';
+  // Số chú thích /Annot (Ink, FreeText, Highlight...) đã gỡ
+  removedAnnotations: number;
+  // Số path màu mực trong content stream đã bỏ
+  removedPaths: number;
+};
+
+// Độ phân giải đưa trang vào pipeline raster
+export type RenderSettings = {
+  // DPI render trang (bị giới hạn theo số pixel tối đa để không tràn bộ nhớ)
+  renderDpi: number;
+  // Trang quét chỉ gồm một ảnh nhúng thì xử lý ảnh đó ở độ phân giải gốc
+  nativeScanImages: boolean;
+};
+
+// Ảnh quét nhúng đã xử lý ở độ phân giải gốc: vị trí ảnh trên trang (đơn vị PDF, gốc dưới trái)
+// và kích thước pixel gốc; khi xuất, ảnh đã làm sạch thay thẳng vào XObject của trang
+export type NativeScanPlacement = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixelWidth: number;
+  pixelHeight: number;
+};
+
+// range = nằm ngoài khoảng trang cần xử lý, no-ink = không phát hiện nét chấm nào
+export type PassThroughReason = 'range' | 'no-ink';
+
+// color = giữ màu, grayscale = ảnh xám, bilevel = đen trắng 1 bit
+export type ExportColorMode = 'color' | 'grayscale' | 'bilevel';
+
+export type ExportImageFormat = 'png' | 'jpeg';
+
+// Tùy chọn nén ảnh trang khi tải PDF xuống
+export type ExportSettings = {
+  colorMode: ExportColorMode;
+  // Không áp dụng cho bilevel (luôn nén Flate 1 bit)
+  format: ExportImageFormat;
+  // Chất lượng JPEG 0..1
+  jpegQuality: number;
+  // Dung lượng tối đa mỗi file PDF (MB); null = tắt, có giá trị thì tự chọn cấu hình nén
+  targetSizeMb: number | null;
+  // Nhận dạng chữ (OCR) sau khi xóa mực đỏ và nhúng lớp chữ ẩn để tìm kiếm/chép được trong PDF
+  ocrTextLayer: boolean;
+};
+
+// Một từ OCR, toạ độ pixel trên ảnh trang đã nhận dạng
+export type OcrWord = {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+};
+
+export type OcrPageResult = {
+  // Kích thước ảnh đã nhận dạng, để quy đổi toạ độ khi ảnh xuất bị thu nhỏ
+  width: number;
+  height: number;
+  words: OcrWord[];
+};
+
+export type PageEditMode = 'clean' | 'restore';
+
+export type PageEditStroke = {
+  mode: PageEditMode;
+  // Đường kính cọ (pixel ảnh)
+  size: number;
+  // Toạ độ pixel trên ảnh đã xử lý
+  points: [number, number][];
+};
+
 export type FileProcessingState = {
   currentImageData: string;
   processedImageData: string;
   processedPages: string[];
+  pageMeta: PageProcessingMeta[];
+  inkProfileIds: InkProfileId[];
+  // Màu mực học sinh do người vận hành chọn, theo chỉ số trang
+  studentInkOverrides: Record<number, LabColor[]>;
+  // Nét cọ chỉnh tay theo chỉ số trang và ảnh kết quả sau khi áp dụng
+  pageEdits: Record<number, PageEditStroke[]>;
+  editedPages: Record<number, string>;
+  // Tuning chỉnh tay cho cả file và cho từng trang (trang ưu tiên hơn file)
+  fileTuning: TuningOverride | null;
+  pageTuning: Record<number, TuningOverride>;
+  // Preset đang áp dụng cho file (fileTuning lấy từ preset này)
+  presetId: string | null;
+  tuningStrategy: TuningStrategy;
+  // Quyết định của người vận hành cho các trang trong hàng chờ duyệt
+  pageReview: Record<number, PageReviewDecision>;
+  // Khoảng trang cần xử lý, ví dụ "2-5, 8"; rỗng = mọi trang
+  pageRange: string;
+  // Trang không phát hiện nét chấm giữ nguyên trang PDF gốc
+  skipUnmarkedPages: boolean;
+  // Trang chép nguyên từ PDF gốc khi xuất và lý do
+  passThroughPages: Record<number, PassThroughReason>;
+  // DPI đã render khi xử lý, để render lại trang (chỉnh tay, xử lý lại) đúng kích thước cũ
+  renderDpi: number;
+  // Trang quét xử lý trên ảnh nhúng ở độ phân giải gốc
+  nativePages: Record<number, NativeScanPlacement>;
+  // PDF đã gỡ nét chấm dạng vector (data URL) và kết quả theo trang; rỗng nếu file không đọc được bằng pdf-lib
+  vectorPdfData: string;
+  vectorPages: Record<number, VectorPageResult>;
+  // Lớp chữ OCR theo chỉ số trang (chỉ trang xuất bằng ảnh)
+  ocrPages: Record<number, OcrPageResult>;
+  ocrProgress: { current: number; total: number };
   previewPageIndex: number;
   batchProgress: { current: number; total: number };
   totalPages: number;
@@ -22,6 +354,36 @@ export type UploadedFile = {
   dataUrl: string;
 };
 
+// Chỉ số chất lượng của một trang so với bản làm sạch tay
+export type EvaluationMetrics = {
+  // dB, giới hạn 100 khi hai ảnh trùng khớp
+  psnr: number;
+  ssim: number;
+  // Tỉ lệ pixel mực giáo viên (khác giữa bản gốc và bản tham chiếu) còn sót sau xử lý
+  residualInkRatio: number;
+  // Tỉ lệ pixel chữ tối (có ở cả bản gốc và tham chiếu) bị xóa nhầm
+  overErasureRatio: number;
+};
+
+export type EvaluationPageResult = EvaluationMetrics & {
+  name: string;
+  tuningSource: TuningSource | null;
+  model: string | null;
+  escalations: number;
+  confidence: number | null;
+};
+
+export type EvaluationReport = {
+  generatedAt: string;
+  promptVersion: string;
+  inkProfiles: InkProfileId[];
+  // Ngưỡng chỉnh tay dùng khi đánh giá; null = AI/mặc định
+  tuning: TuningOverride | null;
+  pages: EvaluationPageResult[];
+  // Trung bình các chỉ số trên mọi trang
+  aggregate: EvaluationMetrics;
+};
+
 export type PersistedFile = {
   id: string;
   name: string;
@@ -2,11 +2,83 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?worker';
 import PDFViewer from '../components/PDFViewer';
-import { removeRedMarkings } from '../services/geminiService';
-import { PDFDocument } from 'pdf-lib';
+import MaskEditor from '../components/MaskEditor';
+import CompareView from '../components/CompareView';
+import TuningPanel, { type TuningScope } from '../components/TuningPanel';
+import PresetLibrary from '../components/PresetLibrary';
+import ReviewQueue, { type ReviewQueueItem } from '../components/ReviewQueue';
+import PromptSettings from '../components/PromptSettings';
+import EvaluationPanel from '../components/EvaluationPanel';
+import ExportSettingsPanel from '../components/ExportSettingsPanel';
+import RenderSettingsPanel from '../components/RenderSettingsPanel';
+import RemovalSettingsPanel from '../components/RemovalSettingsPanel';
+import { PROMPT_TEMPLATES } from '../const/ai/prompt';
+import { getTuningProvider } from '../services/ai';
+import {
+  DEFAULT_RENDER_SETTINGS,
+  loadAiSettings,
+  loadExportSettings,
+  loadRemovalSettings,
+  loadRenderSettings,
+  saveAiSettings,
+  saveExportSettings,
+  saveRemovalSettings,
+  saveRenderSettings,
+} from '../services/settingsService';
+import { buildProcessingReport } from '../services/reportService';
+import { runEvaluation, type EvaluationPair } from '../services/evaluationService';
+import {
+  DEFAULT_TUNING,
+  defaultTuningForProfiles,
+  removeRedMarkings,
+  suggestFileTuning,
+  type RemoveMarkingsOptions,
+  type TuningResult,
+} from '../services/geminiService';
+import { applyPageEdits } from '../services/pageEditService';
+import { stripVectorMarkings, type VectorCleanupResult } from '../services/vectorPdfService';
+import { exportPdf, type ExportResult, type OutputPage, type OutputPdfSources } from '../services/pdfExportService';
+import { isUnmarkedPage, pageRangeError, parsePageRange } from '../services/pageRangeService';
+import { extractNativeScanImage, renderPdfPageToImage, type NativeScanImage } from '../services/pageRenderService';
+import { recognizePageText } from '../services/ocrService';
+import { createPreset, exportPresetsJson, parsePresetsJson } from '../services/presetService';
+import { needsReview, REVIEW_CONFIDENCE_THRESHOLD } from '../services/confidenceService';
+import {
+  isPageTuningStale,
+  pickTuningOverride,
+  resolveTuningOverride,
+} from '../services/tuningService';
+import { getRedRemovalPoolSize } from '../services/redRemovalPool';
 import JSZip from 'jszip';
 import { DEFAULT_TOAST_DURATION_MS, MAX_UPLOAD_FILES, STORAGE_KEY } from '../const/appConstants';
-import type { FileProcessingState, PersistedState, Toast, UploadedFile } from '../models/appModels';
+import { DEFAULT_INK_PROFILE_IDS, getInkProfiles, INK_PROFILES } from '../const/inkProfiles';
+import type {
+  FileProcessingState,
+  InkCluster,
+  InkClusterRole,
+  InkProfileId,
+  LabColor,
+  LayoutComponentKind,
+  PageEditStroke,
+  PageProcessingMeta,
+  PageReviewDecision,
+  PersistedState,
+  ExportSettings,
+  NativeScanPlacement,
+  RemovalSettings,
+  RenderSettings,
+  Toast,
+  TuningFailureKind,
+  TuningOutcome,
+  TuningOverride,
+  TuningPreset,
+  TuningSource,
+  TuningStrategy,
+  UploadedFile,
+  VectorPageResult,
+  OcrPageResult,
+  PassThroughReason,
+} from '../models/appModels';
 import {
   saveFileData,
   loadFileData,
@@ -15,6 +87,9 @@ import {
   loadFileState,
   deleteFileState,
   clearAllStorage,
+  deletePreset,
+  listPresets,
+  savePreset,
 } from '../services/storageService';
 
 // Use a real Worker instance to avoid dynamic-import failures in dev/prod
@@ -24,6 +99,25 @@ const createInitialFileState = (): FileProcessingState => ({
   currentImageData: '',
   processedImageData: '',
   processedPages: [],
+  pageMeta: [],
+  inkProfileIds: DEFAULT_INK_PROFILE_IDS,
+  studentInkOverrides: {},
+  pageEdits: {},
+  editedPages: {},
+  fileTuning: null,
+  pageTuning: {},
+  presetId: null,
+  tuningStrategy: 'page',
+  pageReview: {},
+  pageRange: '',
+  skipUnmarkedPages: false,
+  passThroughPages: {},
+  renderDpi: DEFAULT_RENDER_SETTINGS.renderDpi,
+  nativePages: {},
+  vectorPdfData: '',
+  vectorPages: {},
+  ocrPages: {},
+  ocrProgress: { current: 0, total: 0 },
   previewPageIndex: 0,
   batchProgress: { current: 0, total: 0 },
   totalPages: 0,
@@ -31,6 +125,52 @@ const createInitialFileState = (): FileProcessingState => ({
   error: '',
 });
 
+// Trạng thái lưu từ phiên bản cũ có thể thiếu field mới
+const normalizeFileState = (state: Partial<FileProcessingState> | null): FileProcessingState => ({
+  ...createInitialFileState(),
+  ...(state ?? {}),
+});
+
+const PASS_THROUGH_LABELS: Record<PassThroughReason, string> = {
+  range: 'Ngoài khoảng trang cần xử lý',
+  'no-ink': 'Không phát hiện nét chấm',
+};
+
+const COMPONENT_KIND_LABELS: Record<LayoutComponentKind, string> = {
+  'rule-line': 'Đường kẻ',
+  frame: 'Khung',
+  'printed-text': 'Chữ in',
+  annotation: 'Nét chấm',
+};
+
+const INK_ROLE_LABELS: Record<InkClusterRole, string> = {
+  student: 'Mực học sinh (giữ)',
+  teacher: 'Mực giáo viên (xóa)',
+  other: 'Mực khác',
+};
+
+const TUNING_SOURCE_LABELS: Record<TuningSource, string> = {
+  model: 'AI đề xuất',
+  default: 'Mặc định (không gọi AI)',
+  fallback: 'Mặc định (AI lỗi)',
+  operator: 'Chỉnh tay',
+};
+
+const TUNING_FAILURE_LABELS: Record<TuningFailureKind, string> = {
+  timeout: 'Hết thời gian chờ',
+  'rate-limit': 'Vượt hạn mức',
+  server: 'Lỗi máy chủ',
+  blocked: 'Phản hồi bị chặn',
+  'invalid-response': 'Phản hồi sai định dạng',
+  request: 'Lỗi gửi yêu cầu',
+};
+
+const TUNING_CACHE_LABELS: Record<NonNullable<TuningOutcome['cache']>, string> = {
+  hit: 'lấy từ cache',
+  miss: 'gọi AI mới',
+  refreshed: 'đã hỏi lại AI',
+};
+
 const generateFileId = (file: File): string => {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
@@ -38,28 +178,90 @@ const generateFileId = (file: File): string => {
   return `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2, 9)}`;
 };
 
+// Trang có chỉnh sửa tay dùng ảnh đã chỉnh thay cho kết quả tự động
 const getImageSources = (state: FileProcessingState): string[] => {
-  if (state.processedPages.length > 0) return state.processedPages;
+  if (state.processedPages.length > 0) {
+    return state.processedPages.map((page, index) => state.editedPages[index] ?? page);
+  }
   if (state.processedImageData) return [state.processedImageData];
   return [];
 };
 
-const buildPdfFromImages = async (imageSources: string[]): Promise<Uint8Array> => {
-  const pdfDoc = await PDFDocument.create();
-  for (const imageSource of imageSources) {
-    const response = await fetch(imageSource);
-    const imageBytes = new Uint8Array(await response.arrayBuffer());
-    const isPng = imageSource.startsWith('data:image/png');
-    const embedded = isPng ? await pdfDoc.embedPng(imageBytes) : await pdfDoc.embedJpg(imageBytes);
-    const { width, height } = embedded.size();
-    const page = pdfDoc.addPage([width, height]);
-    page.drawImage(embedded, { x: 0, y: 0, width, height });
+const countPendingReview = (state: FileProcessingState): number =>
+  state.pageMeta.filter((meta, pageIndex) => needsReview(meta, !!state.pageReview[pageIndex])).length;
+
+// PDF nguồn để giữ kích thước, hướng trang, outline và chép trang: file gốc và bản đã gỡ nét chấm vector nếu có
+const getSourcePdfs = async (file: UploadedFile, state: FileProcessingState): Promise<OutputPdfSources> => ({
+  original: await file.file.arrayBuffer(),
+  cleaned: state.vectorPdfData ? await (await fetch(state.vectorPdfData)).arrayBuffer() : null,
+});
+
+// Số trang lấy mẫu khi dùng một tuning AI cho cả file
+const FILE_TUNING_SAMPLE_PAGES = 3;
+// Chờ người dùng ngừng kéo slider rồi mới xử lý lại trang đang xem
+const TUNING_PREVIEW_DEBOUNCE_MS = 300;
+
+/**
+ * Ảnh quét nhúng ở độ phân giải gốc nếu trang đủ điều kiện, lỗi đọc ảnh thì coi như không có
+ */
+const tryExtractNativeScan = async (pdf: pdfjsLib.PDFDocumentProxy, pageNumber: number): Promise<NativeScanImage | null> => {
+  try {
+    return await extractNativeScanImage(await pdf.getPage(pageNumber));
+  } catch {
+    return null;
   }
+};
+
+/**
+ * Render lại một trang của file gốc với cùng DPI (hoặc cùng ảnh nhúng gốc) đã dùng khi xử lý
+ */
+const renderFilePage = async (file: File | Blob, pageIndex: number, dpi: number, native = false): Promise<string> => {
+  const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    const scan = native ? await tryExtractNativeScan(pdf, pageIndex + 1) : null;
+    return scan?.dataUrl ?? (await renderPdfPageToImage(pdf, pageIndex + 1, dpi));
+  } finally {
+    try {
+      await pdf.destroy();
+    } catch {
+      // ignore
+    }
+  }
+};
+
+/**
+ * Chỉ số các trang mẫu trải đều từ đầu đến cuối file
+ */
+const sampleTuningPages = (total: number): number[] => {
+  const count = Math.min(FILE_TUNING_SAMPLE_PAGES, total);
+  if (count <= 1) return count ? [0] : [];
+  return Array.from(new Set(Array.from({ length: count }, (_, index) => Math.round((index * (total - 1)) / (count - 1)))));
+};
+
+type ProcessedPage = {
+  processedUrl: string;
+  meta?: PageProcessingMeta;
+  editedUrl?: string;
+};
 
-  const pdfBytes = await pdfDoc.save();
-  const pdfBytesCopy = new Uint8Array(pdfBytes.byteLength);
-  pdfBytesCopy.set(pdfBytes);
-  return pdfBytesCopy;
+/**
+ * Xóa nét màu trên ảnh một trang rồi áp lại nét chỉnh tay đã lưu (nếu có)
+ */
+const processPageImage = async (
+  pageImage: string,
+  pageIndex: number,
+  options: RemoveMarkingsOptions,
+  strokes?: PageEditStroke[]
+): Promise<ProcessedPage> => {
+  const result = await removeRedMarkings(pageImage, options);
+  const processedUrl = result.processedImageUrl;
+  if (!result.success || !processedUrl) {
+    throw new Error(result.error || `Không thể xử lý trang ${pageIndex + 1}`);
+  }
+  const editedUrl = strokes?.length
+    ? await applyPageEdits(processedUrl, pageImage, strokes, result.meta?.tuning ?? DEFAULT_TUNING)
+    : undefined;
+  return { processedUrl, meta: result.meta, editedUrl };
 };
 
 const readFileAsDataUrl = (file: File): Promise<string> => {
@@ -71,6 +273,38 @@ const readFileAsDataUrl = (file: File): Promise<string> => {
   });
 };
 
+type EvaluationPage = { name: string; image: string };
+
+/**
+ * Tách các file đánh giá (ảnh hoặc PDF) thành danh sách ảnh trang, theo thứ tự tên file
+ */
+const loadEvaluationPages = async (files: File[], dpi: number): Promise<EvaluationPage[]> => {
+  const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const pages: EvaluationPage[] = [];
+  for (const file of sorted) {
+    if (file.type !== 'application/pdf') {
+      pages.push({ name: file.name, image: await readFileAsDataUrl(file) });
+      continue;
+    }
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+        pages.push({
+          name: pdf.numPages > 1 ? `${file.name}#${pageNumber}` : file.name,
+          image: await renderPdfPageToImage(pdf, pageNumber, dpi),
+        });
+      }
+    } finally {
+      try {
+        await pdf.destroy();
+      } catch {
+        // ignore
+      }
+    }
+  }
+  return pages;
+};
+
 const dataUrlToFile = (dataUrl: string, filename: string): File => {
   const [meta, base64] = dataUrl.split(',');
   const mimeMatch = meta.match(/data:(.*?);base64/);
@@ -97,8 +331,22 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
   const [isDownloadingAll, setIsDownloadingAll] = useState<boolean>(false);
   const [fileSearchQuery, setFileSearchQuery] = useState<string>('');
   const [toasts, setToasts] = useState<Toast[]>([]);
+  const [showLayoutDebug, setShowLayoutDebug] = useState<boolean>(false);
+  const [showCompare, setShowCompare] = useState<boolean>(false);
+  const [tuningScope, setTuningScope] = useState<TuningScope>('page');
+  const [promptVersion, setPromptVersion] = useState<string>(() => loadAiSettings().promptVersion);
+  const [presets, setPresets] = useState<TuningPreset[]>([]);
+  const [pageEditor, setPageEditor] = useState<{ fileId: string; pageIndex: number; sourceImage: string } | null>(null);
+  const [isSavingEdits, setIsSavingEdits] = useState<boolean>(false);
+  const [showEvaluation, setShowEvaluation] = useState<boolean>(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => loadExportSettings());
+  const [renderSettings, setRenderSettings] = useState<RenderSettings>(() => loadRenderSettings());
+  const [removalSettings, setRemovalSettings] = useState<RemovalSettings>(() => loadRemovalSettings());
   const fileInputRef = useRef<HTMLInputElement>(null);
   const hasHydratedRef = useRef<boolean>(false);
+  const sourcePageCacheRef = useRef<{ key: string; image: string } | null>(null);
+  const reprocessTokensRef = useRef<Record<string, number>>({});
+  const previewTimerRef = useRef<number | null>(null);
 
   const createToastId = () => {
     if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
@@ -153,23 +401,54 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
     });
   };
 
-  const processSingleFile = async (file: UploadedFile) => {
+  const processSingleFile = async (file: UploadedFile, options: { refreshTuning?: boolean } = {}) => {
     const fileId = file.id;
+    const fileState = fileStates[fileId] ?? createInitialFileState();
+    const { inkProfileIds, studentInkOverrides, pageEdits, pageRange, skipUnmarkedPages } = fileState;
+    const { refreshTuning = false } = options;
+    const { renderDpi, nativeScanImages } = renderSettings;
     updateFileState(fileId, (prev) => ({
       ...prev,
       isBatchProcessing: true,
       error: '',
       processedPages: [],
+      pageMeta: [],
+      editedPages: {},
+      pageReview: {},
+      passThroughPages: {},
+      nativePages: {},
+      renderDpi,
       processedImageData: '',
       previewPageIndex: 0,
       batchProgress: { current: 0, total: 0 },
+      ocrPages: {},
+      ocrProgress: { current: 0, total: 0 },
     }));
 
     let pdfInstance: pdfjsLib.PDFDocumentProxy | null = null;
+    // Bản render file gốc cho trang ngoài khoảng xử lý (chính là pdfInstance khi không có bản đã gỡ vector)
+    let originalPdfInstance: pdfjsLib.PDFDocumentProxy | null = null;
 
     try {
       const data = await file.file.arrayBuffer();
-      const loadingTask = pdfjsLib.getDocument({ data });
+      // Gỡ chú thích và path màu mực ngay trên PDF; file pdf-lib không đọc được thì raster hóa toàn bộ như cũ
+      let vector: VectorCleanupResult | null = null;
+      try {
+        vector = await stripVectorMarkings(data, {
+          ...defaultTuningForProfiles(getInkProfiles(inkProfileIds)),
+          ...(fileState.fileTuning ?? {}),
+        });
+      } catch {
+        vector = null;
+      }
+      const vectorPages: Record<number, VectorPageResult> = { ...(vector?.pages ?? []) };
+      const isVectorPage = (pageIndex: number) => vectorPages[pageIndex]?.kind === 'vector';
+      const vectorPdfData = vector?.pages.some((page) => page.kind === 'vector')
+        ? await readFileAsDataUrl(new File([vector.bytes.slice()], file.name, { type: 'application/pdf' }))
+        : '';
+
+      // Trang quét cũng render từ PDF đã gỡ chú thích để pipeline raster không phải xóa lại
+      const loadingTask = pdfjsLib.getDocument({ data: vector ? vector.bytes : data });
       pdfInstance = await loadingTask.promise;
 
       const total = pdfInstance.numPages;
@@ -179,28 +458,135 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
         batchProgress: { current: 0, total },
       }));
 
-      const processed: string[] = [];
+      const selectedPages = parsePageRange(pageRange, total);
+      if (!selectedPages.size) throw new Error(`Khoảng trang "${pageRange}" không có trang nào trong file ${total} trang`);
+      const passThroughPages: Record<number, PassThroughReason> = {};
+      const nativePages: Record<number, NativeScanPlacement> = {};
 
-      for (let pageNumber = 1; pageNumber <= total; pageNumber++) {
-        const pageImage = await renderPdfPageToImage(pdfInstance, pageNumber, 1.75);
-        const result = await removeRedMarkings(pageImage);
-        if (!result.success || !result.processedImageUrl) {
-          throw new Error(result.error || `Không thể xử lý trang ${pageNumber}`);
+      // Tuning chung của file chỉ cần khi chưa có ngưỡng chỉnh tay cho cả file, lấy mẫu trên các trang raster
+      let aiTuning: TuningResult | undefined;
+      const rasterPages = Array.from({ length: total }, (_, pageIndex) => pageIndex).filter(
+        (pageIndex) => selectedPages.has(pageIndex) && !isVectorPage(pageIndex)
+      );
+      if (fileState.tuningStrategy === 'file' && !fileState.fileTuning && rasterPages.length) {
+        const samples: string[] = [];
+        for (const sample of sampleTuningPages(rasterPages.length)) {
+          samples.push(await renderPdfPageToImage(pdfInstance, rasterPages[sample] + 1, renderDpi));
         }
-        processed.push(result.processedImageUrl);
+        aiTuning = await suggestFileTuning(samples, { inkProfiles: inkProfileIds, promptVersion, refreshTuning });
+      }
+
+      const processed: string[] = new Array(total);
+      const pageMeta: PageProcessingMeta[] = new Array(total);
+      const editedPages: Record<number, string> = {};
+      // Render tuần tự trên UI thread, phần xử lý pixel chạy song song trên worker pool
+      const maxInFlight = getRedRemovalPoolSize();
+      const inFlight = new Set<Promise<void>>();
+      let completed = 0;
+      let failure: Error | null = null;
+      const markCompleted = () => {
+        completed += 1;
+        const current = completed;
         updateFileState(fileId, (prev) => ({
           ...prev,
-          batchProgress: { current: pageNumber, total },
+          batchProgress: { current, total },
         }));
+      };
+
+      // Trang không qua pipeline raster: ảnh render chỉ để xem trước và chỉnh tay
+      const keepRendered = async (pageIndex: number, pageImage: string) => {
+        processed[pageIndex] = pageImage;
+        const strokes = pageEdits[pageIndex];
+        if (strokes?.length) editedPages[pageIndex] = await applyPageEdits(pageImage, pageImage, strokes, DEFAULT_TUNING);
+        markCompleted();
+      };
+
+      for (let pageNumber = 1; pageNumber <= total; pageNumber++) {
+        if (failure) break;
+        const pageIndex = pageNumber - 1;
+        if (!selectedPages.has(pageIndex)) {
+          // Trang ngoài khoảng xử lý được chép nguyên từ file gốc nên xem trước cũng từ file gốc
+          originalPdfInstance ??= vector ? await pdfjsLib.getDocument({ data: data.slice(0) }).promise : pdfInstance;
+          passThroughPages[pageIndex] = 'range';
+          await keepRendered(pageIndex, await renderPdfPageToImage(originalPdfInstance, pageNumber, renderDpi));
+          continue;
+        }
+        if (isVectorPage(pageIndex)) {
+          const pageImage = await renderPdfPageToImage(pdfInstance, pageNumber, renderDpi);
+          // Trang vector đã được làm sạch trong PDF; không gỡ được gì thì giữ nguyên trang gốc
+          if (skipUnmarkedPages && isUnmarkedPage(vectorPages[pageIndex])) passThroughPages[pageIndex] = 'no-ink';
+          await keepRendered(pageIndex, pageImage);
+          continue;
+        }
+        // Trang quét nguyên ảnh: xử lý thẳng ảnh nhúng ở độ phân giải gốc thay vì render theo DPI
+        const scan = nativeScanImages ? await tryExtractNativeScan(pdfInstance, pageNumber) : null;
+        if (scan) nativePages[pageIndex] = scan.placement;
+        const pageImage = scan?.dataUrl ?? (await renderPdfPageToImage(pdfInstance, pageNumber, renderDpi));
+        const task: Promise<void> = processPageImage(
+          pageImage,
+          pageIndex,
+          {
+            inkProfiles: inkProfileIds,
+            promptVersion,
+            studentInks: studentInkOverrides[pageIndex],
+            tuning: resolveTuningOverride(fileState, pageIndex) ?? undefined,
+            aiTuning,
+            refreshTuning,
+            removal: removalSettings,
+          },
+          pageEdits[pageIndex]
+        )
+          .then(({ processedUrl, meta, editedUrl }) => {
+            processed[pageIndex] = processedUrl;
+            if (meta) pageMeta[pageIndex] = meta;
+            if (editedUrl) editedPages[pageIndex] = editedUrl;
+            if (skipUnmarkedPages && isUnmarkedPage(vectorPages[pageIndex], meta?.maskCoverage)) {
+              passThroughPages[pageIndex] = 'no-ink';
+            }
+            markCompleted();
+          })
+          .catch((err) => {
+            failure ??= err instanceof Error ? err : new Error(`Không thể xử lý trang ${pageNumber}`);
+          })
+          .finally(() => {
+            inFlight.delete(task);
+          });
+        inFlight.add(task);
+        if (inFlight.size >= maxInFlight) {
+          await Promise.race(inFlight);
+        }
       }
 
+      await Promise.all(inFlight);
+      if (failure) throw failure;
+
       updateFileState(fileId, (prev) => ({
         ...prev,
         processedPages: processed,
+        pageMeta,
+        editedPages,
+        vectorPdfData,
+        vectorPages,
+        passThroughPages,
+        nativePages,
         processedImageData: processed[0] || '',
         previewPageIndex: 0,
         error: '',
       }));
+
+      if (exportSettings.ocrTextLayer) {
+        const ocrTargets = processed.flatMap((processedUrl, pageIndex) =>
+          isVectorPage(pageIndex) || passThroughPages[pageIndex]
+            ? []
+            : [{ pageIndex, source: editedPages[pageIndex] ?? processedUrl }]
+        );
+        try {
+          await recognizePages(fileId, ocrTargets);
+        } catch (err) {
+          // Lớp chữ là tùy chọn: lỗi OCR không làm hỏng kết quả xóa mực
+          showToast(`Không nhận dạng được chữ cho ${file.name}: ${err instanceof Error ? err.message : 'lỗi OCR'}`, 'warning');
+        }
+      }
     } catch (err) {
       updateFileState(fileId, (prev) => ({
         ...prev,
@@ -211,9 +597,9 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
         ...prev,
         isBatchProcessing: false,
       }));
-      if (pdfInstance) {
+      for (const instance of new Set([pdfInstance, originalPdfInstance])) {
         try {
-          await pdfInstance.destroy();
+          await instance?.destroy();
         } catch {
           // ignore
         }
@@ -221,6 +607,437 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
     }
   };
 
+  /**
+   * OCR tuần tự các trang ảnh (một worker dùng chung), lưu lớp chữ từng trang ngay khi xong để hiện tiến độ
+   */
+  const recognizePages = async (
+    fileId: string,
+    pages: { pageIndex: number; source: string }[]
+  ): Promise<Record<number, OcrPageResult>> => {
+    const results: Record<number, OcrPageResult> = {};
+    const total = pages.length;
+    updateFileState(fileId, (prev) => ({ ...prev, ocrProgress: { current: 0, total } }));
+    for (const [done, { pageIndex, source }] of pages.entries()) {
+      const result = await recognizePageText(source);
+      results[pageIndex] = result;
+      updateFileState(fileId, (prev) => ({
+        ...prev,
+        ocrPages: { ...prev.ocrPages, [pageIndex]: result },
+        ocrProgress: { current: done + 1, total },
+      }));
+    }
+    return results;
+  };
+
+  /**
+   * Ảnh gốc của trang, giữ lại trang gần nhất để kéo slider tuning không phải render lại PDF.
+   * `cleaned` render từ PDF đã gỡ nét chấm vector (nếu có) để làm đầu vào cho pipeline raster.
+   * Dùng cùng DPI/ảnh nhúng gốc như lần xử lý để khớp kích thước với kết quả và nét chỉnh tay.
+   */
+  const getSourcePage = async (file: UploadedFile, pageIndex: number, cleaned = false): Promise<string> => {
+    const state = fileStates[file.id] ?? createInitialFileState();
+    const vectorPdfData = cleaned ? state.vectorPdfData : '';
+    const native = !!state.nativePages[pageIndex];
+    const key = `${file.id}:${pageIndex}:${vectorPdfData ? 'cleaned' : 'original'}:${native ? 'native' : state.renderDpi}`;
+    if (sourcePageCacheRef.current?.key === key) return sourcePageCacheRef.current.image;
+    const image = await renderFilePage(
+      vectorPdfData ? dataUrlToFile(vectorPdfData, file.name) : file.file,
+      pageIndex,
+      state.renderDpi,
+      native
+    );
+    sourcePageCacheRef.current = { key, image };
+    return image;
+  };
+
+  /**
+   * Xử lý lại một trang (sau khi người vận hành chỉnh lựa chọn) mà không chạy lại cả file.
+   * Giá trị `undefined` trong `overrides` nghĩa là lấy theo trạng thái đã lưu, `null` là bỏ chỉnh tay.
+   * Trả về ảnh kết quả (đã áp chỉnh sửa tay) hoặc null nếu lỗi/bị lần chạy mới hơn thay thế.
+   */
+  const reprocessPage = async (
+    file: UploadedFile,
+    pageIndex: number,
+    overrides: { studentInks?: LabColor[] | null; tuning?: TuningOverride | null; refreshTuning?: boolean } = {}
+  ): Promise<string | null> => {
+    const fileId = file.id;
+    const state = fileStates[fileId] ?? createInitialFileState();
+    const previousMeta = state.pageMeta[pageIndex];
+    // Dùng lại gợi ý AI (kể cả vùng khoanh) của lần xử lý trước nếu vẫn cùng màu mực
+    const reuseAiTuning =
+      !overrides.refreshTuning &&
+      previousMeta?.tuningOutcome?.source === 'model' &&
+      previousMeta.promptVersion === promptVersion &&
+      previousMeta.tuning.inkProfiles.join(',') === state.inkProfileIds.join(',');
+    const aiTuning: TuningResult | undefined = reuseAiTuning
+      ? { tuning: previousMeta.tuning, outcome: previousMeta.tuningOutcome, regions: previousMeta.regions }
+      : undefined;
+    const studentInks =
+      overrides.studentInks === undefined ? state.studentInkOverrides[pageIndex] : overrides.studentInks ?? undefined;
+    const tuning =
+      overrides.tuning === undefined ? resolveTuningOverride(state, pageIndex) : overrides.tuning;
+    const tokenKey = `${fileId}:${pageIndex}`;
+    const token = (reprocessTokensRef.current[tokenKey] ?? 0) + 1;
+    reprocessTokensRef.current[tokenKey] = token;
+    updateFileState(fileId, (prev) => ({ ...prev, isBatchProcessing: true, error: '' }));
+
+    try {
+      const pageImage = await getSourcePage(file, pageIndex, true);
+      const { processedUrl, meta, editedUrl } = await processPageImage(
+        pageImage,
+        pageIndex,
+        {
+          inkProfiles: state.inkProfileIds,
+          promptVersion,
+          studentInks,
+          tuning: tuning ?? undefined,
+          aiTuning,
+          refreshTuning: overrides.refreshTuning,
+          removal: removalSettings,
+        },
+        state.pageEdits[pageIndex]
+      );
+      // Kéo slider liên tục: chỉ giữ kết quả của lần chạy mới nhất
+      if (reprocessTokensRef.current[tokenKey] !== token) return null;
+      updateFileState(fileId, (prev) => {
+        const processedPages = [...prev.processedPages];
+        processedPages[pageIndex] = processedUrl;
+        const pageMeta = [...prev.pageMeta];
+        if (meta) pageMeta[pageIndex] = meta;
+        const editedPages = { ...prev.editedPages };
+        if (editedUrl) editedPages[pageIndex] = editedUrl;
+        else delete editedPages[pageIndex];
+        // Kết quả mới cần được duyệt lại
+        const pageReview = { ...prev.pageReview };
+        delete pageReview[pageIndex];
+        // Trang vector xử lý lại bằng pipeline raster thì xuất ảnh kết quả thay cho trang PDF
+        const vectorPages = { ...prev.vectorPages };
+        if (vectorPages[pageIndex]?.kind === 'vector') delete vectorPages[pageIndex];
+        // Ảnh đổi thì nhận dạng lại khi xuất
+        const ocrPages = { ...prev.ocrPages };
+        delete ocrPages[pageIndex];
+        // Người vận hành chủ động xử lý trang giữ nguyên thì xuất ảnh kết quả
+        const passThroughPages = { ...prev.passThroughPages };
+        delete passThroughPages[pageIndex];
+        return {
+          ...prev,
+          processedPages,
+          pageMeta,
+          editedPages,
+          pageReview,
+          vectorPages,
+          ocrPages,
+          passThroughPages,
+          processedImageData: processedPages[0] || '',
+        };
+      });
+      return editedUrl ?? processedUrl;
+    } catch (err) {
+      updateFileState(fileId, (prev) => ({
+        ...prev,
+        error: err instanceof Error ? err.message : `Không thể xử lý trang ${pageIndex + 1}`,
+      }));
+      return null;
+    } finally {
+      updateFileState(fileId, (prev) => ({ ...prev, isBatchProcessing: false }));
+    }
+  };
+
+  /**
+   * Các trang để xuất PDF; trang xử lý với tuning cũ được xử lý lại theo tuning chỉnh tay hiện tại,
+   * trang người vận hành chọn giữ bản gốc thì xuất ảnh gốc, trang vector chưa chỉnh tay giữ nguyên trang PDF,
+   * trang ngoài khoảng xử lý hoặc không có nét chấm chép nguyên từ PDF gốc.
+   * Bật lớp chữ OCR thì trang ảnh chưa được nhận dạng (xử lý lại, bật sau khi xử lý) được OCR bổ sung.
+   */
+  const getOutputPages = async (file: UploadedFile): Promise<OutputPage[]> => {
+    const state = fileStates[file.id] ?? createInitialFileState();
+    const pages: OutputPage[] = getImageSources(state).map((source, pageIndex) => ({
+      kind: 'image',
+      source,
+      native: state.nativePages[pageIndex],
+    }));
+    const refreshedPages = new Set<number>();
+    for (let pageIndex = 0; pageIndex < state.processedPages.length; pageIndex++) {
+      if (state.passThroughPages[pageIndex] && !state.editedPages[pageIndex]) {
+        pages[pageIndex] = { kind: 'original' };
+        continue;
+      }
+      if (state.pageReview[pageIndex] === 'keep-original') {
+        pages[pageIndex] = {
+          kind: 'image',
+          source: await getSourcePage(file, pageIndex),
+          native: state.nativePages[pageIndex],
+        };
+        continue;
+      }
+      if (state.vectorPdfData && state.vectorPages[pageIndex]?.kind === 'vector' && !state.editedPages[pageIndex]) {
+        pages[pageIndex] = { kind: 'vector' };
+        continue;
+      }
+      if (!isPageTuningStale(state, pageIndex)) continue;
+      const refreshed = await reprocessPage(file, pageIndex);
+      if (!refreshed) throw new Error(`Không thể xử lý lại trang ${pageIndex + 1} theo tuning mới`);
+      pages[pageIndex] = { kind: 'image', source: refreshed, native: state.nativePages[pageIndex] };
+      refreshedPages.add(pageIndex);
+    }
+    if (!exportSettings.ocrTextLayer) return pages;
+
+    const ocrPages = { ...state.ocrPages };
+    refreshedPages.forEach((pageIndex) => delete ocrPages[pageIndex]);
+    const missing = pages.flatMap((page, pageIndex) =>
+      page.kind === 'image' && !ocrPages[pageIndex] ? [{ pageIndex, source: page.source }] : []
+    );
+    if (missing.length) Object.assign(ocrPages, await recognizePages(file.id, missing));
+    return pages.map((page, pageIndex) => (page.kind === 'image' ? { ...page, ocr: ocrPages[pageIndex] } : page));
+  };
+
+  const schedulePreview = (file: UploadedFile, pageIndex: number, tuning: TuningOverride | null) => {
+    if (previewTimerRef.current !== null) window.clearTimeout(previewTimerRef.current);
+    previewTimerRef.current = window.setTimeout(() => {
+      previewTimerRef.current = null;
+      void reprocessPage(file, pageIndex, { tuning });
+    }, TUNING_PREVIEW_DEBOUNCE_MS);
+  };
+
+  const handleTuningChange = (value: TuningOverride) => {
+    if (!activeFile) return;
+    const pageIndex = activeState.previewPageIndex;
+    updateFileState(activeFile.id, (prev) =>
+      tuningScope === 'page'
+        ? { ...prev, pageTuning: { ...prev.pageTuning, [pageIndex]: value } }
+        : { ...prev, fileTuning: value, presetId: null }
+    );
+    // Trang có tuning riêng không bị ảnh hưởng khi chỉnh cho cả file
+    const effective = tuningScope === 'file' ? activeState.pageTuning[pageIndex] ?? value : value;
+    if (activeState.processedPages[pageIndex]) schedulePreview(activeFile, pageIndex, effective);
+  };
+
+  const handleTuningReset = () => {
+    if (!activeFile) return;
+    const pageIndex = activeState.previewPageIndex;
+    // Tuning còn lại sau khi bỏ chỉnh ở phạm vi đang chọn
+    const remaining = tuningScope === 'page' ? activeState.fileTuning : activeState.pageTuning[pageIndex] ?? null;
+    updateFileState(activeFile.id, (prev) => {
+      if (tuningScope === 'file') return { ...prev, fileTuning: null, presetId: null };
+      const pageTuning = { ...prev.pageTuning };
+      delete pageTuning[pageIndex];
+      return { ...prev, pageTuning };
+    });
+    if (activeState.processedPages[pageIndex]) {
+      schedulePreview(activeFile, pageIndex, remaining);
+    }
+  };
+
+  /**
+   * Áp preset cho cả file: tuning chung của file lấy theo preset, màu mực của preset thành màu chính
+   */
+  const handleSelectPreset = (presetId: string | null) => {
+    if (!activeFile) return;
+    const preset = presets.find((item) => item.id === presetId) ?? null;
+    const pageIndex = activeState.previewPageIndex;
+    updateFileState(activeFile.id, (prev) => ({
+      ...prev,
+      presetId: preset?.id ?? null,
+      fileTuning: preset?.tuning ?? null,
+      inkProfileIds: preset
+        ? [preset.inkProfile, ...prev.inkProfileIds.filter((id) => id !== preset.inkProfile)]
+        : prev.inkProfileIds,
+    }));
+    if (activeState.processedPages[pageIndex]) {
+      schedulePreview(activeFile, pageIndex, activeState.pageTuning[pageIndex] ?? preset?.tuning ?? null);
+    }
+  };
+
+  const handleSavePreset = async (name: string, description: string, inkProfile: InkProfileId) => {
+    const preset = createPreset(name, description, inkProfile, tuningValue);
+    try {
+      await savePreset(preset);
+      setPresets(await listPresets());
+      showToast(`Đã lưu preset "${preset.name}"`, 'success');
+    } catch {
+      showToast('Không thể lưu preset', 'error');
+    }
+  };
+
+  const handleDeletePreset = async (presetId: string) => {
+    try {
+      await deletePreset(presetId);
+      setPresets((prev) => prev.filter((preset) => preset.id !== presetId));
+      // File đang dùng preset giữ nguyên tuning, chỉ bỏ liên kết
+      setFileStates((prev) => {
+        const next = { ...prev };
+        for (const [fileId, state] of Object.entries(prev)) {
+          if (state.presetId === presetId) next[fileId] = { ...state, presetId: null };
+        }
+        return next;
+      });
+    } catch {
+      showToast('Không thể xóa preset', 'error');
+    }
+  };
+
+  const handleExportPresets = () => {
+    const blob = new Blob([exportPresetsJson(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'tuning-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePromptVersionChange = (version: string) => {
+    setPromptVersion(version);
+    saveAiSettings({ promptVersion: version });
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
+  };
+
+  const handleRenderSettingsChange = (settings: RenderSettings) => {
+    setRenderSettings(settings);
+    saveRenderSettings(settings);
+  };
+
+  const handleRemovalSettingsChange = (settings: RemovalSettings) => {
+    setRemovalSettings(settings);
+    saveRemovalSettings(settings);
+  };
+
+  const warnExportSize = (fileName: string, result: ExportResult) => {
+    if (result.withinTarget || exportSettings.targetSizeMb === null) return;
+    showToast(
+      `"${fileName}" vẫn lớn hơn ${exportSettings.targetSizeMb} MB (${(result.bytes.length / 1024 / 1024).toFixed(1)} MB) dù đã nén tối đa`,
+      'warning'
+    );
+  };
+
+  const handleDownloadReport = () => {
+    if (!activeFile) return;
+    const blob = new Blob([buildProcessingReport(activeFile.file.name, activeState)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `report_${activeFile.file.name.replace(/\.pdf$/i, '') || 'document'}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRunEvaluation = async (
+    originals: File[],
+    references: File[],
+    onProgress: (done: number, total: number) => void
+  ) => {
+    const originalPages = await loadEvaluationPages(originals, renderSettings.renderDpi);
+    const referencePages = await loadEvaluationPages(references, renderSettings.renderDpi);
+    if (originalPages.length !== referencePages.length) {
+      throw new Error(`Số trang không khớp: ${originalPages.length} trang gốc, ${referencePages.length} trang tham chiếu`);
+    }
+    const pairs: EvaluationPair[] = originalPages.map((page, index) => ({
+      name: page.name,
+      original: page.image,
+      reference: referencePages[index].image,
+    }));
+    onProgress(0, pairs.length);
+    return runEvaluation(
+      pairs,
+      {
+        inkProfiles: activeState.inkProfileIds,
+        promptVersion,
+        tuning: activeState.fileTuning,
+        removal: removalSettings,
+      },
+      onProgress
+    );
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = parsePresetsJson(await file.text(), pickTuningOverride(DEFAULT_TUNING));
+      await Promise.all(imported.map((preset) => savePreset(preset)));
+      setPresets(await listPresets());
+      showToast(`Đã nhập ${imported.length} preset`, imported.length ? 'success' : 'warning');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Không thể nhập preset', 'error');
+    }
+  };
+
+  const handleReviewDecision = (pageIndex: number, decision: PageReviewDecision | null) => {
+    if (!activeFile) return;
+    updateFileState(activeFile.id, (prev) => {
+      const pageReview = { ...prev.pageReview };
+      if (decision) pageReview[pageIndex] = decision;
+      else delete pageReview[pageIndex];
+      return { ...prev, pageReview };
+    });
+  };
+
+  const handleReviewRefresh = (pageIndex: number) => {
+    if (!activeFile) return;
+    handleSourcePageChange(pageIndex + 1);
+    void reprocessPage(activeFile, pageIndex, { refreshTuning: true });
+  };
+
+  // Chuyển tới trang và bảng tinh chỉnh sang phạm vi riêng trang đó
+  const handleReviewAdjust = (pageIndex: number) => {
+    handleSourcePageChange(pageIndex + 1);
+    setTuningScope('page');
+    showToast(`Chỉnh ngưỡng cho trang ${pageIndex + 1} trong bảng "Tinh chỉnh ngưỡng"`, 'info');
+  };
+
+  const handleOpenPageEditor = async () => {
+    if (!activeFile) return;
+    const pageIndex = activeState.previewPageIndex;
+    try {
+      const sourceImage = await getSourcePage(activeFile, pageIndex);
+      setPageEditor({ fileId: activeFile.id, pageIndex, sourceImage });
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Không thể mở trình chỉnh sửa', 'error');
+    }
+  };
+
+  /**
+   * Lưu nét chỉnh tay của trang và áp dụng lên ảnh đã xử lý tự động
+   */
+  const handleSavePageEdits = async (strokes: PageEditStroke[]) => {
+    if (!pageEditor) return;
+    const { fileId, pageIndex, sourceImage } = pageEditor;
+    const state = fileStates[fileId] ?? createInitialFileState();
+    const processedUrl = state.processedPages[pageIndex];
+    if (!processedUrl) return;
+
+    setIsSavingEdits(true);
+    try {
+      const editedUrl = strokes.length
+        ? await applyPageEdits(processedUrl, sourceImage, strokes, state.pageMeta[pageIndex]?.tuning ?? DEFAULT_TUNING)
+        : undefined;
+      updateFileState(fileId, (prev) => {
+        const pageEdits = { ...prev.pageEdits };
+        const editedPages = { ...prev.editedPages };
+        if (editedUrl) {
+          pageEdits[pageIndex] = strokes;
+          editedPages[pageIndex] = editedUrl;
+        } else {
+          delete pageEdits[pageIndex];
+          delete editedPages[pageIndex];
+        }
+        return { ...prev, pageEdits, editedPages };
+      });
+      setPageEditor(null);
+      showToast(`Đã lưu chỉnh sửa trang ${pageIndex + 1}`, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Không thể áp dụng chỉnh sửa', 'error');
+    } finally {
+      setIsSavingEdits(false);
+    }
+  };
+
   const handleProcessAllFiles = async () => {
     if (!uploadedFiles.length) {
       setGlobalError('Vui lòng thêm ít nhất một file PDF');
@@ -410,6 +1227,71 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
     }));
   };
 
+  const handleToggleInkProfile = (profileId: InkProfileId) => {
+    if (!activeFile) return;
+    updateFileState(activeFile.id, (prev) => {
+      const selected = prev.inkProfileIds.includes(profileId)
+        ? prev.inkProfileIds.filter((id) => id !== profileId)
+        : [...prev.inkProfileIds, profileId];
+      // Luôn giữ ít nhất một màu mực
+      return selected.length ? { ...prev, inkProfileIds: selected } : prev;
+    });
+  };
+
+  const handleTuningStrategyChange = (strategy: TuningStrategy) => {
+    if (!activeFile) return;
+    updateFileState(activeFile.id, (prev) => ({ ...prev, tuningStrategy: strategy }));
+  };
+
+  const handlePageRangeChange = (pageRange: string) => {
+    if (!activeFile) return;
+    updateFileState(activeFile.id, (prev) => ({ ...prev, pageRange }));
+  };
+
+  const handleSkipUnmarkedChange = (skipUnmarkedPages: boolean) => {
+    if (!activeFile) return;
+    updateFileState(activeFile.id, (prev) => ({ ...prev, skipUnmarkedPages }));
+  };
+
+  /**
+   * Bỏ qua cache và hỏi lại AI: cả file khi dùng tuning lấy mẫu, ngược lại chỉ trang đang xem
+   */
+  const handleRefreshTuning = async () => {
+    if (!activeFile) return;
+    const outcome = activeState.pageMeta[activeState.previewPageIndex]?.tuningOutcome;
+    if (outcome?.sampledPages) {
+      await processSingleFile(activeFile, { refreshTuning: true });
+      return;
+    }
+    await reprocessPage(activeFile, activeState.previewPageIndex, { refreshTuning: true });
+  };
+
+  const handleToggleStudentCluster = (cluster: InkCluster) => {
+    if (!activeFile) return;
+    const pageIndex = activeState.previewPageIndex;
+    const meta = activeState.pageMeta[pageIndex];
+    if (!meta) return;
+    const studentInks = meta.inkClusters
+      .filter((item) => (item === cluster ? item.role !== 'student' : item.role === 'student'))
+      .map((item) => item.lab);
+    updateFileState(activeFile.id, (prev) => ({
+      ...prev,
+      studentInkOverrides: { ...prev.studentInkOverrides, [pageIndex]: studentInks },
+    }));
+    void reprocessPage(activeFile, pageIndex, { studentInks });
+  };
+
+  const handleResetStudentInk = () => {
+    if (!activeFile) return;
+    const pageIndex = activeState.previewPageIndex;
+    updateFileState(activeFile.id, (prev) => {
+      const studentInkOverrides = { ...prev.studentInkOverrides };
+      delete studentInkOverrides[pageIndex];
+      return { ...prev, studentInkOverrides };
+    });
+    void reprocessPage(activeFile, pageIndex, { studentInks: null });
+  };
+
   const handleDownloadPdf = async () => {
     if (!activeFile) {
       setGlobalError('Vui lòng chọn file PDF');
@@ -417,13 +1299,7 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
     }
 
     const state = fileStates[activeFile.id] ?? createInitialFileState();
-    const imageSources = state.processedPages.length > 0
-      ? state.processedPages
-      : state.processedImageData
-        ? [state.processedImageData]
-        : [];
-
-    if (!imageSources.length) {
+    if (!getImageSources(state).length) {
       updateFileState(activeFile.id, (prev) => ({
         ...prev,
         error: 'Chưa có dữ liệu để tải xuống',
@@ -431,28 +1307,22 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
       return;
     }
 
-    try {
-      const pdfDoc = await PDFDocument.create();
-      for (const imageSource of imageSources) {
-        const response = await fetch(imageSource);
-        const imageBytes = new Uint8Array(await response.arrayBuffer());
-        const isPng = imageSource.startsWith('data:image/png');
-        const embedded = isPng ? await pdfDoc.embedPng(imageBytes) : await pdfDoc.embedJpg(imageBytes);
-        const { width, height } = embedded.size();
-        const page = pdfDoc.addPage([width, height]);
-        page.drawImage(embedded, { x: 0, y: 0, width, height });
-      }
+    const pendingReview = countPendingReview(state);
+    if (pendingReview) {
+      showToast(`Còn ${pendingReview} trang trong hàng chờ duyệt chưa được xem`, 'warning');
+    }
 
-      const pdfBytes = await pdfDoc.save();
-      const pdfBytesCopy = new Uint8Array(pdfBytes.byteLength);
-      pdfBytesCopy.set(pdfBytes);
-      const blob = new Blob([pdfBytesCopy.buffer], { type: 'application/pdf' });
+    try {
+      const outputPages = await getOutputPages(activeFile);
+      const result = await exportPdf(outputPages, await getSourcePdfs(activeFile, state), exportSettings);
+      warnExportSize(activeFile.file.name, result);
+      const blob = new Blob([result.bytes.buffer as ArrayBuffer], { type: 'application/pdf' });
       const url = URL.createObjectURL(blob);
 
       const link = document.createElement('a');
       link.href = url;
       const baseName = activeFile.file.name.replace(/\.pdf$/i, '') || 'document';
-      const multiSuffix = imageSources.length > 1 ? '_multi' : '';
+      const multiSuffix = outputPages.length > 1 ? '_multi' : '';
       link.download = `processed_${baseName}${multiSuffix}.pdf`;
       document.body.appendChild(link);
       link.click();
@@ -477,6 +1347,13 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
 
     setGlobalError('');
     setIsDownloadingAll(true);
+    const pendingReview = uploadedFiles.reduce(
+      (sum, file) => sum + countPendingReview(fileStates[file.id] ?? createInitialFileState()),
+      0
+    );
+    if (pendingReview) {
+      showToast(`Còn ${pendingReview} trang trong hàng chờ duyệt chưa được xem`, 'warning');
+    }
 
     try {
       const zip = new JSZip();
@@ -484,13 +1361,15 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
 
       for (const file of uploadedFiles) {
         const state = fileStates[file.id] ?? createInitialFileState();
-        const imageSources = getImageSources(state);
-        if (!imageSources.length) continue;
+        if (!getImageSources(state).length) continue;
+        const outputPages = await getOutputPages(file);
 
-        const pdfBytes = await buildPdfFromImages(imageSources);
+        const result = await exportPdf(outputPages, await getSourcePdfs(file, state), exportSettings);
+        warnExportSize(file.file.name, result);
         const baseName = file.file.name.replace(/\.pdf$/i, '') || 'document';
-        const multiSuffix = imageSources.length > 1 ? '_multi' : '';
-        zip.file(`processed_${baseName}${multiSuffix}.pdf`, pdfBytes);
+        const multiSuffix = outputPages.length > 1 ? '_multi' : '';
+        zip.file(`processed_${baseName}${multiSuffix}.pdf`, result.bytes);
+        zip.file(`report_${baseName}.json`, buildProcessingReport(file.file.name, state));
         addedFiles += 1;
       }
 
@@ -518,8 +1397,38 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
 
   const hasBatchResult = activeState.processedPages.length > 0;
   const previewImage = hasBatchResult
-    ? activeState.processedPages[activeState.previewPageIndex]
+    ? activeState.editedPages[activeState.previewPageIndex] ?? activeState.processedPages[activeState.previewPageIndex]
     : activeState.processedImageData;
+  const previewEdited = hasBatchResult && !!activeState.pageEdits[activeState.previewPageIndex]?.length;
+  const previewMeta = hasBatchResult ? activeState.pageMeta[activeState.previewPageIndex] : undefined;
+  const previewVector = hasBatchResult ? activeState.vectorPages[activeState.previewPageIndex] : undefined;
+  const previewPassThrough = hasBatchResult ? activeState.passThroughPages[activeState.previewPageIndex] : undefined;
+  const activePageRangeError = pageRangeError(activeState.pageRange);
+  // Trang chưa đạt bước kiểm tra mực còn sót, cần xem lại bằng mắt
+  const unverifiedPages = activeState.pageMeta.flatMap((meta, index) =>
+    meta?.verification && !meta.verification.passed ? [index] : []
+  );
+  const activeImageSources = getImageSources(activeState);
+  // Trang điểm thấp luôn hiện trong hàng chờ, kể cả khi đã có quyết định (để đổi lại)
+  const reviewItems: ReviewQueueItem[] = hasBatchResult
+    ? activeState.pageMeta.flatMap((meta, pageIndex) => {
+        if (!meta?.confidence || meta.confidence.score >= REVIEW_CONFIDENCE_THRESHOLD) return [];
+        return [
+          {
+            pageIndex,
+            image: activeImageSources[pageIndex],
+            confidence: meta.confidence,
+            decision: activeState.pageReview[pageIndex],
+          },
+        ];
+      })
+    : [];
+  const previewKeepsOriginal = hasBatchResult && activeState.pageReview[activeState.previewPageIndex] === 'keep-original';
+  const pageTuningOverride = activeState.pageTuning[activeState.previewPageIndex];
+  const tuningSource = pageTuningOverride ? 'page' : activeState.fileTuning ? 'file' : 'auto';
+  const tuningValue = pageTuningOverride
+    ?? activeState.fileTuning
+    ?? pickTuningOverride(previewMeta?.tuning ?? DEFAULT_TUNING);
   const processAllDisabled = isGlobalProcessing || uploadedFiles.length === 0;
   const downloadDisabled = !previewImage || activeState.isBatchProcessing || isGlobalProcessing;
   const hasAnyProcessed = uploadedFiles.some((file) => {
@@ -562,7 +1471,7 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
         const restoredStates: Record<string, FileProcessingState> = {};
         for (const file of restoredFiles) {
           const state = await loadFileState(file.id);
-          restoredStates[file.id] = state ?? createInitialFileState();
+          restoredStates[file.id] = normalizeFileState(state);
         }
 
         setUploadedFiles(restoredFiles);
@@ -620,11 +1529,17 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
     })();
   }, [uploadedFiles, fileStates, activeFileId]);
 
+  useEffect(() => {
+    listPresets()
+      .then(setPresets)
+      .catch((error) => console.warn('Không thể tải preset tuning', error));
+  }, []);
+
   const handlePreviewChange = (direction: number) => {
     if (!activeFile) return;
     updateFileState(activeFile.id, (prev) => {
-      const maxIndex = Math.max(prev.processedPages.length - 1, 0);
-      const nextIndex = Math.min(Math.max(prev.previewPageIndex + direction, 0), maxIndex);
+      const maxIndex = Math.max(prev.processedPages.length, prev.totalPages) - 1;
+      const nextIndex = Math.min(Math.max(prev.previewPageIndex + direction, 0), Math.max(maxIndex, 0));
       return {
         ...prev,
         previewPageIndex: nextIndex,
@@ -632,6 +1547,12 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
     });
   };
 
+  // PDF gốc và kết quả luôn hiển thị cùng một trang
+  const handleSourcePageChange = (pageNumber: number) => {
+    if (!activeFile) return;
+    updateFileState(activeFile.id, (prev) => ({ ...prev, previewPageIndex: pageNumber - 1 }));
+  };
+
   return (
     <div className="min-h-screen bg-slate-50">
       <div className="max-w-7xl mx-auto px-0.5 sm:px-1 lg:px-2 py-8 space-y-6">
@@ -664,6 +1585,14 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
             >
               🔄 Làm mới workspace
             </button>
+            <button
+              type="button"
+              className="inline-flex items-center gap-2 rounded-full border border-violet-500 px-4 py-2 text-violet-700 font-semibold bg-white shadow-sm hover:bg-violet-50"
+              onClick={() => setShowEvaluation((prev) => !prev)}
+              aria-pressed={showEvaluation}
+            >
+              🧪 Đánh giá
+            </button>
             {onLogout && (
               <button
                 type="button"
@@ -713,6 +1642,15 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
           );
         })()}
 
+        {showEvaluation && (
+          <EvaluationPanel
+            promptVersion={promptVersion}
+            disabled={isGlobalProcessing}
+            onRun={handleRunEvaluation}
+            onClose={() => setShowEvaluation(false)}
+          />
+        )}
+
         {globalError && (
           <div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-rose-700 font-semibold">
             ❌ {globalError}
@@ -751,14 +1689,49 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
                           file={activeFile.file}
                           onPDFToImage={handlePDFToImage}
                           onDocumentLoad={handleDocumentLoad}
+                          pageNumber={activeState.previewPageIndex + 1}
+                          onPageChange={handleSourcePageChange}
                         />
                       </div>
                     </div>
 
                     {previewImage && (
                       <div className="rounded-lg border border-slate-200 bg-white p-4 shadow-sm flex flex-col gap-3 min-h-[320px]">
-                        <div className="flex items-center gap-2">
-                          <h2 className="text-lg font-semibold text-slate-800">Kết quả sau xử lý</h2>
+                        <div className="flex items-center justify-between gap-2">
+                          <h2 className="text-lg font-semibold text-slate-800">
+                            Kết quả sau xử lý
+                            {previewEdited && <span className="ml-2 text-xs font-medium text-sky-600">(đã chỉnh tay)</span>}
+                            {previewKeepsOriginal && (
+                              <span className="ml-2 text-xs font-medium text-slate-500">(sẽ xuất bản gốc)</span>
+                            )}
+                            {previewMeta?.confidence && (
+                              <span
+                                className={`ml-2 text-xs font-medium ${previewMeta.confidence.score < REVIEW_CONFIDENCE_THRESHOLD ? 'text-amber-600' : 'text-emerald-600'}`}
+                              >
+                                Tin cậy {Math.round(previewMeta.confidence.score * 100)}%
+                              </span>
+                            )}
+                          </h2>
+                          {hasBatchResult && (
+                            <div className="flex items-center gap-2">
+                              <button
+                                type="button"
+                                onClick={() => setShowCompare((prev) => !prev)}
+                                aria-pressed={showCompare}
+                                className={`rounded-md border px-3 py-1 text-sm font-semibold shadow-sm ${showCompare ? 'border-sky-400 bg-sky-50 text-sky-700' : 'border-slate-200 bg-white text-slate-700 hover:bg-slate-50'}`}
+                              >
+                                🔍 So sánh
+                              </button>
+                              <button
+                                type="button"
+                                onClick={handleOpenPageEditor}
+                                disabled={activeState.isBatchProcessing}
+                                className="rounded-md border border-slate-200 bg-white px-3 py-1 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-50 disabled:opacity-50"
+                              >
+                                ✏️ Chỉnh sửa
+                              </button>
+                            </div>
+                          )}
                         </div>
                         <div className="flex-1 flex flex-col gap-3">
                           {hasBatchResult && (
@@ -772,6 +1745,11 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
                               </button>
                               <span className="text-sm text-slate-700">
                                 Trang {activeState.previewPageIndex + 1} / {activeState.processedPages.length}
+                                {unverifiedPages.length > 0 && (
+                                  <span className="ml-2 text-xs text-amber-700">
+                                    ⚠️ Còn sót mực: trang {unverifiedPages.map((index) => index + 1).join(', ')}
+                                  </span>
+                                )}
                               </span>
                               <button
                                 onClick={() => handlePreviewChange(1)}
@@ -783,8 +1761,174 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
                             </div>
                           )}
                           <div className="flex-1 overflow-auto rounded-md border border-slate-200 bg-slate-50 p-3 flex justify-center items-center max-h-[70vh]">
-                            <img src={previewImage} alt="Processed PDF preview" className="max-w-full h-auto shadow" />
+                            <div className="relative inline-block">
+                              <img src={previewImage} alt="Processed PDF preview" className="max-w-full h-auto shadow" />
+                              {showLayoutDebug && previewMeta && (
+                                <svg
+                                  className="pointer-events-none absolute inset-0 h-full w-full"
+                                  viewBox={`0 0 ${previewMeta.width} ${previewMeta.height}`}
+                                  preserveAspectRatio="none"
+                                  aria-hidden="true"
+                                >
+                                  {previewMeta.keptComponents.map((component, index) => (
+                                    <rect
+                                      key={index}
+                                      x={component.bbox.x}
+                                      y={component.bbox.y}
+                                      width={component.bbox.width}
+                                      height={component.bbox.height}
+                                      fill="none"
+                                      stroke="#0ea5e9"
+                                      strokeWidth={Math.max(2, previewMeta.width / 400)}
+                                    />
+                                  ))}
+                                  {(previewMeta.regions ?? []).map((region, index) => (
+                                    <polygon
+                                      key={`region-${index}`}
+                                      points={region.points
+                                        .map(([x, y]) => `${x * previewMeta.width},${y * previewMeta.height}`)
+                                        .join(' ')}
+                                      fill="none"
+                                      stroke={region.kind === 'annotation' ? '#f43f5e' : '#10b981'}
+                                      strokeDasharray={region.kind === 'annotation' ? '8 6' : undefined}
+                                      strokeWidth={Math.max(2, previewMeta.width / 400)}
+                                    />
+                                  ))}
+                                </svg>
+                              )}
+                            </div>
                           </div>
+                          {previewPassThrough && (
+                            <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                              <span className="font-semibold">Giữ nguyên trang gốc</span>
+                              {` · ${PASS_THROUGH_LABELS[previewPassThrough]}`}
+                              <span className="block text-slate-500">
+                                {activeState.editedPages[activeState.previewPageIndex]
+                                  ? 'Trang đã chỉnh tay nên sẽ xuất dạng ảnh'
+                                  : 'Trang được chép nguyên từ PDF gốc khi xuất'}
+                              </span>
+                            </div>
+                          )}
+                          {previewVector && (previewVector.kind === 'vector' || previewVector.removedAnnotations > 0) && (
+                            <div className="rounded-md border border-sky-200 bg-sky-50 px-3 py-2 text-xs text-sky-800">
+                              <span className="font-semibold">
+                                {previewVector.kind === 'vector' ? 'Xóa trực tiếp trên PDF' : 'Trang quét'}
+                              </span>
+                              {` · gỡ ${previewVector.removedAnnotations} chú thích`}
+                              {previewVector.kind === 'vector' && ` · ${previewVector.removedPaths} nét vẽ`}
+                              {previewVector.kind === 'vector' && (
+                                <span className="block text-sky-700">
+                                  Chữ và hình vector gốc được giữ nguyên
+                                  {activeState.editedPages[activeState.previewPageIndex] && '; trang đã chỉnh tay nên sẽ xuất dạng ảnh'}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          {previewMeta?.tuningOutcome && (
+                            <div
+                              className={`rounded-md border px-3 py-2 text-xs ${previewMeta.tuningOutcome.source === 'fallback' ? 'border-amber-200 bg-amber-50 text-amber-800' : 'border-slate-200 bg-white text-slate-600'}`}
+                            >
+                              <span className="font-semibold">Tuning: {TUNING_SOURCE_LABELS[previewMeta.tuningOutcome.source]}</span>
+                              {previewMeta.tuningOutcome.model && ` · ${previewMeta.tuningOutcome.model}`}
+                              {previewMeta.promptVersion && ` · prompt ${previewMeta.promptVersion}`}
+                              {previewMeta.tuningOutcome.attempts > 0 && ` · ${previewMeta.tuningOutcome.attempts} lần gọi AI`}
+                              {previewMeta.tuningOutcome.failure && ` · ${TUNING_FAILURE_LABELS[previewMeta.tuningOutcome.failure]}`}
+                              {previewMeta.tuningOutcome.sampledPages && ` · chung cả file (mẫu ${previewMeta.tuningOutcome.sampledPages} trang)`}
+                              {previewMeta.tuningOutcome.cache && ` · ${TUNING_CACHE_LABELS[previewMeta.tuningOutcome.cache]}`}
+                              {previewMeta.tuningOutcome.annotationRegionsLost && ' · không có vùng khoanh nét chấm'}
+                              {previewMeta.tuningOutcome.source !== 'operator' && previewMeta.tuningOutcome.source !== 'default' && (
+                                <button
+                                  type="button"
+                                  onClick={handleRefreshTuning}
+                                  disabled={activeState.isBatchProcessing}
+                                  className="ml-2 font-semibold text-sky-700 hover:underline disabled:opacity-50"
+                                >
+                                  🔄 Làm mới tuning
+                                </button>
+                              )}
+                              {previewMeta.tuningOutcome.reason && (
+                                <span className="block text-slate-500">{previewMeta.tuningOutcome.reason}</span>
+                              )}
+                            </div>
+                          )}
+                          {previewMeta?.verification && (
+                            <div
+                              className={`rounded-md border px-3 py-2 text-xs ${previewMeta.verification.passed ? 'border-emerald-200 bg-emerald-50 text-emerald-800' : 'border-amber-200 bg-amber-50 text-amber-800'}`}
+                            >
+                              <span className="font-semibold">
+                                Kiểm tra: {previewMeta.verification.passed ? 'đạt' : 'còn sót mực'}
+                              </span>
+                              {` · còn ${(previewMeta.verification.residualRatio * 100).toFixed(1)}% (${previewMeta.verification.residualPixels} px)`}
+                              {previewMeta.verification.escalations > 0 &&
+                                ` · chạy lại ${previewMeta.verification.escalations} lần với tuning mạnh hơn`}
+                            </div>
+                          )}
+                          {previewMeta && (
+                            <details className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700">
+                              <summary className="cursor-pointer font-semibold">
+                                Giữ lại {previewMeta.keptComponents.length} thành phần in sẵn, xóa {previewMeta.removedComponents} nét chấm
+                              </summary>
+                              <label className="mt-2 flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={showLayoutDebug}
+                                  onChange={(event) => setShowLayoutDebug(event.target.checked)}
+                                />
+                                Hiện khung các thành phần được giữ
+                                {(previewMeta.regions ?? []).length > 0 && ' và vùng AI khoanh (đỏ: nét chấm, xanh: giữ)'}
+                              </label>
+                              {previewMeta.keptComponents.length > 0 && (
+                                <ul className="mt-2 max-h-40 overflow-auto space-y-1">
+                                  {previewMeta.keptComponents.map((component, index) => (
+                                    <li key={index}>
+                                      <span className="font-semibold">{COMPONENT_KIND_LABELS[component.kind]}</span>
+                                      {` (${component.bbox.x}, ${component.bbox.y}, ${component.bbox.width}×${component.bbox.height}): `}
+                                      {component.reason}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </details>
+                          )}
+                          {previewMeta && previewMeta.inkClusters.length > 0 && (
+                            <div className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700">
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="font-semibold">
+                                  Cụm màu mực ({previewMeta.studentInkSource === 'operator' ? 'đã chọn tay' : 'tự động'})
+                                </span>
+                                {previewMeta.studentInkSource === 'operator' && (
+                                  <button
+                                    type="button"
+                                    onClick={handleResetStudentInk}
+                                    disabled={activeState.isBatchProcessing}
+                                    className="text-xs font-semibold text-sky-700 hover:underline disabled:opacity-50"
+                                  >
+                                    Tự động lại
+                                  </button>
+                                )}
+                              </div>
+                              <p className="mt-1 text-xs text-slate-500">Bấm vào một cụm để đánh dấu / bỏ đánh dấu là mực học sinh, trang sẽ được xử lý lại.</p>
+                              <div className="mt-2 flex flex-wrap gap-2">
+                                {previewMeta.inkClusters.map((cluster, index) => (
+                                  <button
+                                    key={index}
+                                    type="button"
+                                    onClick={() => handleToggleStudentCluster(cluster)}
+                                    disabled={activeState.isBatchProcessing}
+                                    className={`inline-flex items-center gap-2 rounded-md border px-2 py-1 text-xs disabled:opacity-50 ${cluster.role === 'student' ? 'border-emerald-400 bg-emerald-50' : 'border-slate-200 bg-white'}`}
+                                  >
+                                    <span
+                                      className="h-4 w-4 rounded border border-slate-300"
+                                      style={{ backgroundColor: `rgb(${cluster.rgb.join(',')})` }}
+                                    />
+                                    <span>
+                                      {INK_ROLE_LABELS[cluster.role]} · {Math.round(cluster.share * 100)}%
+                                    </span>
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          )}
                           {hasBatchResult && (
                             <div className="text-center text-sm font-semibold text-emerald-600">
                               Đã xử lý {activeState.processedPages.length} / {activeState.totalPages || activeState.processedPages.length} trang
@@ -795,6 +1939,107 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
                     )}
                   </div>
 
+                  {reviewItems.length > 0 && (
+                    <ReviewQueue
+                      items={reviewItems}
+                      activePageIndex={activeState.previewPageIndex}
+                      disabled={activeState.isBatchProcessing}
+                      onOpen={(pageIndex) => handleSourcePageChange(pageIndex + 1)}
+                      onDecide={handleReviewDecision}
+                      onRefreshTuning={handleReviewRefresh}
+                      onAdjust={handleReviewAdjust}
+                    />
+                  )}
+
+                  {showCompare && previewImage && activeState.currentImageData && (
+                    <div className="rounded-lg border border-slate-200 bg-white p-4 shadow-sm flex flex-col gap-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <h2 className="text-lg font-semibold text-slate-800">So sánh trước / sau</h2>
+                        <button
+                          type="button"
+                          onClick={() => setShowCompare(false)}
+                          className="text-sm font-semibold text-slate-500 hover:text-slate-700"
+                          aria-label="Đóng khung so sánh"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      <CompareView
+                        beforeImage={activeState.currentImageData}
+                        afterImage={previewImage}
+                        maskImage={previewMeta?.maskUrl}
+                        pageLabel={`Trang ${activeState.previewPageIndex + 1}`}
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-white px-4 py-3 text-sm shadow-sm">
+                    <span className="font-semibold text-slate-700">Màu mực cần xóa:</span>
+                    {Object.values(INK_PROFILES).map((profile) => {
+                      const selectedIndex = activeState.inkProfileIds.indexOf(profile.id);
+                      const selected = selectedIndex !== -1;
+                      return (
+                        <button
+                          key={profile.id}
+                          type="button"
+                          onClick={() => handleToggleInkProfile(profile.id)}
+                          disabled={activeState.isBatchProcessing}
+                          aria-pressed={selected}
+                          className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 font-semibold disabled:opacity-60 ${selected ? 'border-emerald-400 bg-emerald-50 text-emerald-700' : 'border-slate-200 bg-white text-slate-600'}`}
+                        >
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: profile.swatch }} />
+                          {profile.label}
+                          {selectedIndex === 0 && activeState.inkProfileIds.length > 1 && (
+                            <span className="text-xs font-normal">(chính)</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-white px-4 py-3 text-sm shadow-sm">
+                    <span className="font-semibold text-slate-700">Gợi ý tuning AI:</span>
+                    {(['page', 'file'] as TuningStrategy[]).map((strategy) => (
+                      <button
+                        key={strategy}
+                        type="button"
+                        onClick={() => handleTuningStrategyChange(strategy)}
+                        disabled={activeState.isBatchProcessing}
+                        aria-pressed={activeState.tuningStrategy === strategy}
+                        className={`rounded-full border px-3 py-1 font-semibold disabled:opacity-60 ${activeState.tuningStrategy === strategy ? 'border-emerald-400 bg-emerald-50 text-emerald-700' : 'border-slate-200 bg-white text-slate-600'}`}
+                      >
+                        {strategy === 'page' ? 'Theo từng trang' : `Một tuning cho cả file (mẫu ${FILE_TUNING_SAMPLE_PAGES} trang)`}
+                      </button>
+                    ))}
+                    <span className="text-xs text-slate-500">Trang giống nhau dùng lại gợi ý đã lưu, không gọi AI lại.</span>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-200 bg-white px-4 py-3 text-sm shadow-sm">
+                    <label className="flex items-center gap-2">
+                      <span className="font-semibold text-slate-700">Trang cần xử lý:</span>
+                      <input
+                        type="text"
+                        value={activeState.pageRange}
+                        onChange={(event) => handlePageRangeChange(event.target.value)}
+                        disabled={activeState.isBatchProcessing}
+                        placeholder="Tất cả, ví dụ 2-5, 8"
+                        className={`w-44 rounded-md border px-2 py-1 text-sm disabled:opacity-60 ${activePageRangeError ? 'border-rose-300' : 'border-slate-200'}`}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={activeState.skipUnmarkedPages}
+                        onChange={(event) => handleSkipUnmarkedChange(event.target.checked)}
+                        disabled={activeState.isBatchProcessing}
+                      />
+                      Giữ nguyên trang không có nét chấm
+                    </label>
+                    <span className={`text-xs ${activePageRangeError ? 'text-rose-600' : 'text-slate-500'}`}>
+                      {activePageRangeError ?? 'Trang không xử lý được chép nguyên từ PDF gốc khi xuất.'}
+                    </span>
+                  </div>
+
                   <div className="flex flex-col sm:flex-row sm:flex-wrap items-stretch sm:items-center justify-center gap-3 rounded-lg bg-white px-4 py-3 shadow-sm border border-slate-200">
                     {hasUnprocessedFiles && (
                       <button
@@ -820,6 +2065,15 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
                       </button>
                     )}
 
+                    {hasBatchResult && (
+                      <button
+                        onClick={handleDownloadReport}
+                        className="inline-flex w-full sm:w-auto items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-3 font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
+                      >
+                        📋 Tải báo cáo xử lý
+                      </button>
+                    )}
+
                     {uploadedFiles.length > 1 && hasAnyProcessed && (
                       <button
                         onClick={handleDownloadAll}
@@ -846,6 +2100,20 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
                     </div>
                   )}
 
+                  {activeState.ocrProgress.total > 0 && (
+                    <div
+                      className={`rounded-md border px-4 py-3 text-sm font-semibold shadow-sm ${
+                        activeState.ocrProgress.current === activeState.ocrProgress.total
+                          ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                          : 'border-indigo-200 bg-indigo-50 text-indigo-700'
+                      }`}
+                    >
+                      {activeState.ocrProgress.current < activeState.ocrProgress.total
+                        ? `Đang nhận dạng chữ ${activeState.ocrProgress.current}/${activeState.ocrProgress.total} trang...`
+                        : `Đã nhận dạng chữ ${activeState.ocrProgress.total} trang`}
+                    </div>
+                  )}
+
                   {activeState.error && (
                     <div className="rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-rose-700 font-semibold">
                       ❌ {activeState.error}
@@ -857,131 +2125,169 @@ const PDFProcessor: React.FC<PDFProcessorProps> = ({ onLogout }) => {
               )}
             </div>
 
-            <aside className="rounded-lg border border-slate-200 bg-white shadow-sm p-4 flex flex-col gap-3">
-              <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold text-slate-800">Danh sách file</h3>
-                <span className="text-sm text-slate-500">{fileCountLabel}</span>
-              </div>
-              <div className="relative">
-                <input
-                  type="text"
-                  value={fileSearchQuery}
-                  placeholder="Tìm theo tên file..."
-                  onChange={(event) => setFileSearchQuery(event.target.value)}
-                  aria-label="Tìm kiếm file theo tên"
-                  className="w-full rounded-full border border-slate-200 px-4 py-2 pr-10 text-sm focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-100"
-                />
-                {fileSearchQuery && (
-                  <button
-                    type="button"
-                    className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full px-2 text-slate-500 hover:bg-slate-100"
-                    onClick={() => setFileSearchQuery('')}
-                    aria-label="Xóa từ khóa tìm kiếm"
-                  >
-                    ✕
-                  </button>
-                )}
-              </div>
-              <div className="flex flex-col gap-2 overflow-auto pr-1 max-h-[70vh]">
-                {filteredFiles.length ? filteredFiles.map((file) => {
-                  const state = fileStates[file.id] ?? createInitialFileState();
-                  const hasResult = getImageSources(state).length > 0;
-                  const sidebarStatus = state.isBatchProcessing
-                    ? 'Đang xử lý'
-                    : hasResult
-                      ? 'Đã xử lý'
-                      : 'Chưa xử lý';
-                  const totalPagesForProgress = state.batchProgress.total || state.totalPages || 0;
-                  const progressValue = totalPagesForProgress
-                    ? Math.min(
-                        100,
-                        Math.round((state.batchProgress.current / totalPagesForProgress) * 100)
-                      )
-                    : 0;
-
-                  return (
+            <div className="flex flex-col gap-4">
+              <aside className="rounded-lg border border-slate-200 bg-white shadow-sm p-4 flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-slate-800">Danh sách file</h3>
+                  <span className="text-sm text-slate-500">{fileCountLabel}</span>
+                </div>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={fileSearchQuery}
+                    placeholder="Tìm theo tên file..."
+                    onChange={(event) => setFileSearchQuery(event.target.value)}
+                    aria-label="Tìm kiếm file theo tên"
+                    className="w-full rounded-full border border-slate-200 px-4 py-2 pr-10 text-sm focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-100"
+                  />
+                  {fileSearchQuery && (
                     <button
-                      key={file.id}
                       type="button"
-                      className={`w-full rounded-lg border px-3 py-2 text-left shadow-sm transition hover:shadow ${activeFile?.id === file.id ? 'border-emerald-300 bg-emerald-50' : 'border-slate-200 bg-white'}`}
-                      onClick={() => handleSelectFile(file.id)}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full px-2 text-slate-500 hover:bg-slate-100"
+                      onClick={() => setFileSearchQuery('')}
+                      aria-label="Xóa từ khóa tìm kiếm"
                     >
-                      <div className="flex items-center justify-between gap-2">
-                        <span className="font-semibold text-slate-800 truncate">{file.name}</span>
-                        <span
-                          className="text-rose-500 font-bold"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleRemoveFile(file.id);
-                          }}
-                          aria-label="Xóa file"
-                        >
-                          ✕
-                        </span>
-                      </div>
-                      <div className="mt-1 flex items-center justify-between text-sm text-slate-600">
-                        <span>
-                          {state.totalPages
-                            ? `${state.totalPages} trang`
-                            : state.isBatchProcessing
-                              ? 'Đang đọc số trang...'
-                              : 'Chưa đọc số trang'}
-                        </span>
-                        <span
-                          className={`rounded-full px-2 py-1 text-xs font-semibold ${
-                            state.isBatchProcessing
-                              ? 'bg-amber-100 text-amber-700'
-                              : hasResult
-                                ? 'bg-emerald-100 text-emerald-700'
-                                : 'bg-slate-100 text-slate-600'
-                          }`}
-                        >
-                          {sidebarStatus}
-                        </span>
-                      </div>
-                      {state.isBatchProcessing && totalPagesForProgress > 0 && (
-                        <div className="mt-2 h-2 rounded-full bg-slate-100">
-                          <div className="h-2 rounded-full bg-gradient-to-r from-emerald-500 to-lime-400" style={{ width: `${progressValue}%` }} />
-                        </div>
-                      )}
+                      ✕
                     </button>
-                  );
-                }) : (
-                  <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-6 text-center text-sm text-slate-500">
-                    Không tìm thấy file phù hợp.
-                  </div>
-                )}
-              </div>
-            </aside>
+                  )}
+                </div>
+                <div className="flex flex-col gap-2 overflow-auto pr-1 max-h-[70vh]">
+                  {filteredFiles.length ? filteredFiles.map((file) => {
+                    const state = fileStates[file.id] ?? createInitialFileState();
+                    const hasResult = getImageSources(state).length > 0;
+                    const sidebarStatus = state.isBatchProcessing
+                      ? 'Đang xử lý'
+                      : hasResult
+                        ? 'Đã xử lý'
+                        : 'Chưa xử lý';
+                    const totalPagesForProgress = state.batchProgress.total || state.totalPages || 0;
+                    const progressValue = totalPagesForProgress
+                      ? Math.min(
+                          100,
+                          Math.round((state.batchProgress.current / totalPagesForProgress) * 100)
+                        )
+                      : 0;
+
+                    return (
+                      <button
+                        key={file.id}
+                        type="button"
+                        className={`w-full rounded-lg border px-3 py-2 text-left shadow-sm transition hover:shadow ${activeFile?.id === file.id ? 'border-emerald-300 bg-emerald-50' : 'border-slate-200 bg-white'}`}
+                        onClick={() => handleSelectFile(file.id)}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-semibold text-slate-800 truncate">{file.name}</span>
+                          <span
+                            className="text-rose-500 font-bold"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRemoveFile(file.id);
+                            }}
+                            aria-label="Xóa file"
+                          >
+                            ✕
+                          </span>
+                        </div>
+                        <div className="mt-1 flex items-center justify-between text-sm text-slate-600">
+                          <span>
+                            {state.totalPages
+                              ? `${state.totalPages} trang`
+                              : state.isBatchProcessing
+                                ? 'Đang đọc số trang...'
+                                : 'Chưa đọc số trang'}
+                          </span>
+                          <span
+                            className={`rounded-full px-2 py-1 text-xs font-semibold ${
+                              state.isBatchProcessing
+                                ? 'bg-amber-100 text-amber-700'
+                                : hasResult
+                                  ? 'bg-emerald-100 text-emerald-700'
+                                  : 'bg-slate-100 text-slate-600'
+                            }`}
+                          >
+                            {sidebarStatus}
+                          </span>
+                        </div>
+                        {state.isBatchProcessing && totalPagesForProgress > 0 && (
+                          <div className="mt-2 h-2 rounded-full bg-slate-100">
+                            <div className="h-2 rounded-full bg-gradient-to-r from-emerald-500 to-lime-400" style={{ width: `${progressValue}%` }} />
+                          </div>
+                        )}
+                      </button>
+                    );
+                  }) : (
+                    <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-6 text-center text-sm text-slate-500">
+                      Không tìm thấy file phù hợp.
+                    </div>
+                  )}
+                </div>
+              </aside>
+              {activeFile && (
+                <TuningPanel
+                  value={tuningValue}
+                  scope={tuningScope}
+                  source={tuningSource}
+                  pageNumber={activeState.previewPageIndex + 1}
+                  disabled={isGlobalProcessing}
+                  isPreviewing={activeState.isBatchProcessing}
+                  canReset={tuningScope === 'page' ? tuningSource === 'page' : !!activeState.fileTuning}
+                  onScopeChange={setTuningScope}
+                  onChange={handleTuningChange}
+                  onReset={handleTuningReset}
+                />
+              )}
+              {activeFile && (
+                <PresetLibrary
+                  presets={presets}
+                  selectedPresetId={activeState.presetId}
+                  defaultInkProfile={activeState.inkProfileIds[0] ?? 'red'}
+                  disabled={isGlobalProcessing}
+                  onSelect={handleSelectPreset}
+                  onSave={handleSavePreset}
+                  onDelete={handleDeletePreset}
+                  onExport={handleExportPresets}
+                  onImport={handleImportPresets}
+                />
+              )}
+              <PromptSettings
+                templates={PROMPT_TEMPLATES}
+                value={promptVersion}
+                provider={getTuningProvider()}
+                disabled={isGlobalProcessing}
+                onChange={handlePromptVersionChange}
+              />
+              <RemovalSettingsPanel
+                value={removalSettings}
+                disabled={isGlobalProcessing}
+                onChange={handleRemovalSettingsChange}
+              />
+              <RenderSettingsPanel
+                value={renderSettings}
+                disabled={isGlobalProcessing}
+                onChange={handleRenderSettingsChange}
+              />
+              <ExportSettingsPanel
+                value={exportSettings}
+                disabled={isGlobalProcessing || isDownloadingAll}
+                onChange={handleExportSettingsChange}
+              />
+            </div>
           </div>
         )}
+
+        {pageEditor && fileStates[pageEditor.fileId]?.processedPages[pageEditor.pageIndex] && (
+          <MaskEditor
+            processedImage={fileStates[pageEditor.fileId].processedPages[pageEditor.pageIndex]}
+            sourceImage={pageEditor.sourceImage}
+            initialStrokes={fileStates[pageEditor.fileId].pageEdits[pageEditor.pageIndex] ?? []}
+            isSaving={isSavingEdits}
+            onSave={handleSavePageEdits}
+            onCancel={() => setPageEditor(null)}
+          />
+        )}
       </div>
     </div>
   );
 };
 
-const renderPdfPageToImage = async (
-  pdf: pdfjsLib.PDFDocumentProxy,
-  pageNumber: number,
-  scale = 1.5
-): Promise<string> => {
-  const page = await pdf.getPage(pageNumber);
-  const viewport = page.getViewport({ scale });
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('Không thể tạo canvas để render PDF');
-  }
-
-  const dpr = window.devicePixelRatio || 1;
-  canvas.width = Math.floor(viewport.width * dpr);
-  canvas.height = Math.floor(viewport.height * dpr);
-  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-  ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-  await page.render({ canvasContext: ctx, viewport, canvas }).promise;
-  return canvas.toDataURL('image/png');
-};
-
 export default PDFProcessor;
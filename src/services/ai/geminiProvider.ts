@@ -0,0 +1,112 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  SchemaType,
+  type ObjectSchema,
+} from '@google/generative-ai';
+import { validateTuningResponse } from './tuningSchema';
+import { AiProviderError, type TuningProvider } from './types';
+
+const hueRangeSchema = {
+  type: SchemaType.ARRAY,
+  items: { type: SchemaType.NUMBER },
+  minItems: 2,
+  maxItems: 2,
+} as const;
+
+const regionSchema: ObjectSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    kind: { type: SchemaType.STRING, format: 'enum', enum: ['annotation', 'keep'] },
+    points: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER }, minItems: 2, maxItems: 2 },
+      description: 'Đỉnh đa giác [x, y], tọa độ chuẩn hóa 0..1',
+    },
+  },
+  required: ['kind', 'points'],
+};
+
+const THRESHOLD_PROPERTIES: ObjectSchema['properties'] = {
+  sMin: { type: SchemaType.NUMBER, description: 'Độ bão hòa tối thiểu 0..1' },
+  vMin: { type: SchemaType.NUMBER, description: 'Độ sáng tối thiểu 0..1' },
+  hueA: { ...hueRangeSchema, description: 'Khoảng hue thứ nhất [từ, đến] trong 0..360' },
+  hueB: { ...hueRangeSchema, description: 'Khoảng hue thứ hai [từ, đến] trong 0..360' },
+  dilateRadius: { type: SchemaType.INTEGER, description: 'Bán kính nới mask 0..3' },
+  inpaintRadius: { type: SchemaType.INTEGER, description: 'Bán kính inpaint 1..5' },
+};
+
+/**
+ * Schema JSON bắt buộc model trả về (structured output); `regions` chỉ có khi phiên bản prompt hỏi vùng khoanh
+ */
+export const tuningResponseSchema = (withRegions: boolean): ObjectSchema => ({
+  type: SchemaType.OBJECT,
+  properties: withRegions
+    ? {
+        ...THRESHOLD_PROPERTIES,
+        regions: {
+          type: SchemaType.ARRAY,
+          items: regionSchema,
+          description: 'Vùng nét chấm của giáo viên (annotation) và phần in sẵn màu đỏ cần giữ (keep)',
+        },
+      }
+    : THRESHOLD_PROPERTIES,
+  required: ['sMin', 'vMin', 'hueA', 'hueB', 'dilateRadius', 'inpaintRadius', ...(withRegions ? ['regions'] : [])],
+});
+
+export const createGeminiProvider = (apiKey: string, model: string): TuningProvider => {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    id: 'gemini',
+    model,
+    suggestTuning: async ({
+      prompt,
+      imageBase64,
+      mimeType,
+      timeoutMs,
+      model: requestModel,
+      temperature,
+      maxOutputTokens,
+      withRegions,
+    }) => {
+      const generativeModel = genAI.getGenerativeModel({
+        model: requestModel,
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: tuningResponseSchema(withRegions),
+          temperature,
+          maxOutputTokens,
+        },
+      });
+      try {
+        const result = await generativeModel.generateContent(
+          [prompt, { inlineData: { data: imageBase64, mimeType } }],
+          { timeout: timeoutMs }
+        );
+        return validateTuningResponse(result.response.text(), withRegions);
+      } catch (error) {
+        throw toProviderError(error, timeoutMs);
+      }
+    },
+  };
+};
+
+function toProviderError(error: unknown, timeoutMs: number): AiProviderError {
+  if (error instanceof AiProviderError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof GoogleGenerativeAIAbortError) {
+    return new AiProviderError('timeout', `Quá ${timeoutMs / 1000}s không có phản hồi`);
+  }
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    if (error.status === 429) return new AiProviderError('rate-limit', 'Vượt hạn mức gọi API (429)');
+    if (error.status && error.status >= 500) {
+      return new AiProviderError('server', `Lỗi máy chủ Gemini (${error.status})`);
+    }
+    return new AiProviderError('request', message);
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) return new AiProviderError('blocked', message);
+  return new AiProviderError('request', message);
+}
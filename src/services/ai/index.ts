@@ -0,0 +1,48 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiProvider';
+import type { AiProviderId, TuningProvider } from './types';
+
+export { AiProviderError } from './types';
+export type { AiProviderId, TuningProvider, TuningSuggestion, TuningSuggestionRequest } from './types';
+
+const DEFAULT_MODELS: Record<AiProviderId, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'llava',
+  mock: 'mock-tuning',
+};
+
+// Mặc định trỏ tới Ollama chạy trên máy
+const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:11434/v1';
+
+const isProviderId = (value: string): value is AiProviderId => value in DEFAULT_MODELS;
+
+/**
+ * Tạo provider theo cấu hình môi trường:
+ * VITE_AI_PROVIDER (gemini | openai | mock), VITE_AI_MODEL, VITE_AI_ENDPOINT, VITE_AI_API_KEY.
+ * Trả về null khi provider cần key mà chưa cấu hình.
+ */
+const createConfiguredProvider = (): TuningProvider | null => {
+  const env = import.meta.env;
+  const providerId = (env.VITE_AI_PROVIDER || 'gemini').trim().toLowerCase();
+  if (!isProviderId(providerId)) {
+    console.warn(`VITE_AI_PROVIDER "${providerId}" không hợp lệ, bỏ qua bước gợi ý tuning bằng AI`);
+    return null;
+  }
+  const model = env.VITE_AI_MODEL || DEFAULT_MODELS[providerId];
+
+  switch (providerId) {
+    case 'gemini': {
+      const apiKey = env.VITE_AI_API_KEY || env.VITE_GEMINI_API_KEY;
+      return apiKey ? createGeminiProvider(apiKey, model) : null;
+    }
+    case 'openai':
+      return createOpenAiCompatibleProvider(env.VITE_AI_ENDPOINT || DEFAULT_OPENAI_ENDPOINT, model, env.VITE_AI_API_KEY);
+    case 'mock':
+      return createMockProvider(model);
+  }
+};
+
+const configuredProvider = createConfiguredProvider();
+
+export const getTuningProvider = (): TuningProvider | null => configuredProvider;
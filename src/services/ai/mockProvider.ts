@@ -0,0 +1,25 @@
+import type { TuningOverride } from '../../models/appModels';
+import type { TuningProvider } from './types';
+
+// Giá trị cố định để kết quả lặp lại được khi chạy offline/kiểm thử
+export const MOCK_TUNING: TuningOverride = {
+  sMin: 0.22,
+  vMin: 0.18,
+  hueA: [0, 25],
+  hueB: [335, 360],
+  dilateRadius: 2,
+  inpaintRadius: 3,
+};
+
+/**
+ * Provider giả chạy ngay trong trình duyệt, không cần mạng
+ */
+export const createMockProvider = (model: string): TuningProvider => ({
+  id: 'mock',
+  model,
+  suggestTuning: async () => ({
+    tuning: { ...MOCK_TUNING, hueA: [...MOCK_TUNING.hueA], hueB: [...MOCK_TUNING.hueB] },
+    // Không khoanh vùng: xóa theo ngưỡng trên toàn trang
+    regions: [],
+  }),
+});
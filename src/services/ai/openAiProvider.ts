@@ -0,0 +1,81 @@
+import { tuningJsonSchema, validateTuningResponse } from './tuningSchema';
+import { AiProviderError, type TuningProvider } from './types';
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+/**
+ * Endpoint tương thích OpenAI Chat Completions (OpenAI, Ollama, LM Studio, vLLM, mock server...)
+ */
+export const createOpenAiCompatibleProvider = (endpoint: string, model: string, apiKey?: string): TuningProvider => {
+  const url = `${endpoint.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai',
+    model,
+    suggestTuning: async ({
+      prompt,
+      imageBase64,
+      mimeType,
+      timeoutMs,
+      model: requestModel,
+      temperature,
+      maxOutputTokens,
+      withRegions,
+    }) => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: requestModel,
+            temperature,
+            max_tokens: maxOutputTokens,
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'red_detection_tuning', schema: tuningJsonSchema(withRegions), strict: true },
+            },
+            messages: [
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: prompt },
+                  { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+                ],
+              },
+            ],
+          }),
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new AiProviderError('timeout', `Quá ${timeoutMs / 1000}s không có phản hồi`);
+        }
+        throw new AiProviderError('request', error instanceof Error ? error.message : 'Không gọi được endpoint AI');
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (response.status === 429) throw new AiProviderError('rate-limit', 'Vượt hạn mức gọi API (429)');
+      if (response.status >= 500) throw new AiProviderError('server', `Lỗi máy chủ AI (${response.status})`);
+      if (!response.ok) throw new AiProviderError('request', `Endpoint AI trả về ${response.status}`);
+
+      let body: ChatCompletionResponse;
+      try {
+        body = (await response.json()) as ChatCompletionResponse;
+      } catch {
+        throw new AiProviderError('invalid-response', 'Endpoint AI trả về không phải JSON');
+      }
+      const content = body.choices?.[0]?.message?.content;
+      if (!content) throw new AiProviderError('blocked', 'Model không trả về nội dung');
+      return validateTuningResponse(content, withRegions);
+    },
+  };
+};
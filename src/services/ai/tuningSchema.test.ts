@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getPromptTemplate } from '../../const/ai/prompt';
+import { tuningResponseSchema } from './geminiProvider';
+import { tuningJsonSchema, validateTuningResponse } from './tuningSchema';
+
+const THRESHOLDS = { sMin: 0.2, vMin: 0.15, hueA: [0, 30], hueB: [330, 360], dilateRadius: 2, inpaintRadius: 3 };
+const REGION = { kind: 'annotation', points: [[0.1, 0.1], [0.3, 0.1], [0.3, 0.2]] };
+
+describe('schema theo phiên bản prompt', () => {
+  it('cleanup-v1 chỉ hỏi ngưỡng: schema không có regions', () => {
+    const { withRegions } = getPromptTemplate('cleanup-v1');
+    const json = tuningJsonSchema(withRegions);
+    const gemini = tuningResponseSchema(withRegions);
+
+    expect(withRegions).toBe(false);
+    expect(json.required).not.toContain('regions');
+    expect(json.properties).not.toHaveProperty('regions');
+    expect(gemini.required).not.toContain('regions');
+    expect(gemini.properties).not.toHaveProperty('regions');
+  });
+
+  it('cleanup-v2 bắt buộc regions', () => {
+    const { withRegions } = getPromptTemplate('cleanup-v2');
+
+    expect(withRegions).toBe(true);
+    expect(tuningJsonSchema(withRegions).required).toContain('regions');
+    expect(tuningResponseSchema(withRegions).required).toContain('regions');
+  });
+});
+
+describe('validateTuningResponse', () => {
+  it('đọc ngưỡng và vùng khoanh', () => {
+    const result = validateTuningResponse(JSON.stringify({ ...THRESHOLDS, regions: [REGION] }));
+
+    expect(result.tuning).toEqual(THRESHOLDS);
+    expect(result.regions).toEqual([REGION]);
+  });
+
+  it('prompt không hỏi vùng khoanh thì chấp nhận phản hồi chỉ có ngưỡng và bỏ qua regions', () => {
+    expect(validateTuningResponse(JSON.stringify(THRESHOLDS), false).regions).toEqual([]);
+    expect(validateTuningResponse(JSON.stringify({ ...THRESHOLDS, regions: 'bad' }), false).regions).toEqual([]);
+  });
+
+  it('báo lỗi khi ngưỡng nằm ngoài khoảng', () => {
+    expect(() => validateTuningResponse(JSON.stringify({ ...THRESHOLDS, sMin: 2 }))).toThrow('"sMin" = 2 nằm ngoài khoảng 0..1');
+  });
+});
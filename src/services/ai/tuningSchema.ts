@@ -0,0 +1,142 @@
+import type { MarkRegion } from '../../models/appModels';
+import { AiProviderError, type TuningSuggestion } from './types';
+
+const THRESHOLD_FIELDS = ['sMin', 'vMin', 'hueA', 'hueB', 'dilateRadius', 'inpaintRadius'];
+
+// Giới hạn để một phản hồi lỗi không làm rasterize quá nhiều đa giác
+export const MAX_REGIONS = 40;
+export const MAX_REGION_POINTS = 32;
+
+const hueRangeJsonSchema = {
+  type: 'array',
+  items: { type: 'number', minimum: 0, maximum: 360 },
+  minItems: 2,
+  maxItems: 2,
+};
+
+const regionJsonSchema = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: ['annotation', 'keep'] },
+    points: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: 'number', minimum: 0, maximum: 1 },
+        minItems: 2,
+        maxItems: 2,
+      },
+      minItems: 3,
+      maxItems: MAX_REGION_POINTS,
+    },
+  },
+  required: ['kind', 'points'],
+  additionalProperties: false,
+};
+
+const thresholdJsonProperties = {
+  sMin: { type: 'number', minimum: 0, maximum: 1 },
+  vMin: { type: 'number', minimum: 0, maximum: 1 },
+  hueA: hueRangeJsonSchema,
+  hueB: hueRangeJsonSchema,
+  dilateRadius: { type: 'integer', minimum: 0, maximum: 3 },
+  inpaintRadius: { type: 'integer', minimum: 1, maximum: 5 },
+};
+
+/**
+ * JSON Schema dùng cho các endpoint hỗ trợ `response_format: json_schema`.
+ * Chỉ phiên bản prompt có khoanh vùng mới bắt buộc `regions` (strict mode cấm field thừa).
+ */
+export const tuningJsonSchema = (withRegions: boolean) => ({
+  type: 'object',
+  properties: withRegions
+    ? { ...thresholdJsonProperties, regions: { type: 'array', items: regionJsonSchema, maxItems: MAX_REGIONS } }
+    : thresholdJsonProperties,
+  required: withRegions ? [...THRESHOLD_FIELDS, 'regions'] : THRESHOLD_FIELDS,
+  additionalProperties: false,
+});
+
+/**
+ * Kiểm tra JSON model trả về đúng schema và nằm trong khoảng hợp lệ.
+ * Prompt không hỏi vùng khoanh thì bỏ qua `regions` nếu model vẫn trả về.
+ */
+export function validateTuningResponse(text: string, withRegions = true): TuningSuggestion {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new AiProviderError('invalid-response', 'Model trả về không phải JSON');
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new AiProviderError('invalid-response', 'Model trả về không phải object');
+  }
+  const value = parsed as Record<string, unknown>;
+
+  const number = (key: string, min: number, max: number): number => {
+    const n = value[key];
+    if (typeof n !== 'number' || !Number.isFinite(n)) {
+      throw new AiProviderError('invalid-response', `Thiếu hoặc sai kiểu "${key}"`);
+    }
+    if (n < min || n > max) {
+      throw new AiProviderError('invalid-response', `"${key}" = ${n} nằm ngoài khoảng ${min}..${max}`);
+    }
+    return n;
+  };
+  const hueRange = (key: string): [number, number] => {
+    const range = value[key];
+    if (
+      !Array.isArray(range) ||
+      range.length !== 2 ||
+      !range.every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 360)
+    ) {
+      throw new AiProviderError('invalid-response', `"${key}" phải là [0..360, 0..360]`);
+    }
+    return [range[0], range[1]];
+  };
+
+  return {
+    tuning: {
+      sMin: number('sMin', 0, 1),
+      vMin: number('vMin', 0, 1),
+      hueA: hueRange('hueA'),
+      hueB: hueRange('hueB'),
+      dilateRadius: Math.round(number('dilateRadius', 0, 3)),
+      inpaintRadius: Math.round(number('inpaintRadius', 1, 5)),
+    },
+    regions: withRegions ? validateRegions(value.regions) : [],
+  };
+}
+
+/**
+ * Vùng khoanh: thiếu field coi như không có vùng nào (model cũ chỉ trả ngưỡng)
+ */
+function validateRegions(raw: unknown): MarkRegion[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.length > MAX_REGIONS) {
+    throw new AiProviderError('invalid-response', `"regions" phải là mảng tối đa ${MAX_REGIONS} vùng`);
+  }
+  return raw.map((item, index) => {
+    const region = (item ?? {}) as Record<string, unknown>;
+    if (region.kind !== 'annotation' && region.kind !== 'keep') {
+      throw new AiProviderError('invalid-response', `"regions[${index}].kind" phải là annotation hoặc keep`);
+    }
+    const points = region.points;
+    if (
+      !Array.isArray(points) ||
+      points.length < 3 ||
+      points.length > MAX_REGION_POINTS ||
+      !points.every(
+        (point) =>
+          Array.isArray(point) &&
+          point.length === 2 &&
+          point.every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 1)
+      )
+    ) {
+      throw new AiProviderError(
+        'invalid-response',
+        `"regions[${index}].points" phải có 3..${MAX_REGION_POINTS} điểm [0..1, 0..1]`
+      );
+    }
+    return { kind: region.kind, points: points.map(([x, y]) => [x, y] as [number, number]) };
+  });
+}
@@ -0,0 +1,46 @@
+import type { AiProviderId, MarkRegion, TuningFailureKind, TuningOverride } from '../../models/appModels';
+
+export type { AiProviderId };
+
+export type TuningSuggestionRequest = {
+  prompt: string;
+  // Ảnh trang dạng base64 (không có tiền tố data:)
+  imageBase64: string;
+  mimeType: string;
+  timeoutMs: number;
+  // Cấu hình theo phiên bản prompt đang dùng
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  // Schema phản hồi có `regions` hay không (theo phiên bản prompt)
+  withRegions: boolean;
+};
+
+/**
+ * Gợi ý của model: ngưỡng màu chung và các vùng khoanh trên trang
+ */
+export type TuningSuggestion = {
+  tuning: TuningOverride;
+  regions: MarkRegion[];
+};
+
+/**
+ * Nguồn AI gợi ý ngưỡng từ ảnh trang. Lỗi phải được ném dưới dạng `AiProviderError`
+ * để lớp gọi biết có nên retry hay không.
+ */
+export type TuningProvider = {
+  id: AiProviderId;
+  // Model mặc định khi phiên bản prompt không chỉ định
+  model: string;
+  suggestTuning: (request: TuningSuggestionRequest) => Promise<TuningSuggestion>;
+};
+
+export class AiProviderError extends Error {
+  kind: TuningFailureKind;
+
+  constructor(kind: TuningFailureKind, message: string) {
+    super(message);
+    this.name = 'AiProviderError';
+    this.kind = kind;
+  }
+}
@@ -0,0 +1,68 @@
+import type { PageConfidence, PageProcessingMeta, TuningSource } from '../models/appModels';
+
+// Trang có điểm dưới ngưỡng này được đưa vào hàng chờ duyệt
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Xóa quá nhiều diện tích trang thường là đã ăn vào nội dung in
+const COVERAGE_WARN = 0.04;
+const COVERAGE_MAX = 0.15;
+// Phần lớn vết xóa chạm chữ tối: dễ làm mất bài làm của học sinh
+const TEXT_CONTACT_WARN = 0.25;
+const TEXT_CONTACT_MAX = 0.6;
+const RESIDUAL_MAX = 0.1;
+// Mất vùng khoanh nét chấm của AI: đủ để trang rơi xuống dưới ngưỡng duyệt
+const ANNOTATION_REGIONS_LOST_PENALTY = 0.35;
+
+const SOURCE_PENALTY: Record<TuningSource, number> = {
+  model: 0,
+  operator: 0,
+  default: 0.1,
+  fallback: 0.2,
+};
+
+// Phạt tăng tuyến tính từ `warn` đến `max`
+const ramp = (value: number, warn: number, max: number, weight: number) =>
+  value <= warn ? 0 : weight * Math.min(1, (value - warn) / (max - warn));
+
+/**
+ * Điểm tin cậy 0..1 của một trang đã xử lý và lý do bị trừ điểm
+ */
+export const scorePageConfidence = (
+  meta: Pick<PageProcessingMeta, 'tuningOutcome' | 'verification'>,
+  signals: { maskCoverage: number; textContact: number }
+): PageConfidence => {
+  const reasons: string[] = [];
+  let score = 1;
+
+  const residual = meta.verification?.residualRatio ?? 0;
+  const residualPenalty = ramp(residual, 0, RESIDUAL_MAX, 0.4);
+  if (residualPenalty > 0.05) reasons.push(`Còn sót ${(residual * 100).toFixed(1)}% mực`);
+  score -= residualPenalty;
+
+  const coveragePenalty = ramp(signals.maskCoverage, COVERAGE_WARN, COVERAGE_MAX, 0.3);
+  if (coveragePenalty > 0) reasons.push(`Xóa ${(signals.maskCoverage * 100).toFixed(1)}% diện tích trang`);
+  score -= coveragePenalty;
+
+  const contactPenalty = ramp(signals.textContact, TEXT_CONTACT_WARN, TEXT_CONTACT_MAX, 0.3);
+  if (contactPenalty > 0) reasons.push(`${Math.round(signals.textContact * 100)}% vùng xóa sát chữ tối màu`);
+  score -= contactPenalty;
+
+  const sourcePenalty = SOURCE_PENALTY[meta.tuningOutcome.source];
+  if (sourcePenalty > 0) {
+    reasons.push(meta.tuningOutcome.source === 'fallback' ? 'AI lỗi, dùng tuning mặc định' : 'Không có gợi ý AI, dùng tuning mặc định');
+  }
+  score -= sourcePenalty;
+
+  if (meta.tuningOutcome.annotationRegionsLost) {
+    reasons.push('Không dùng được vùng AI khoanh nét chấm, xóa theo màu trên toàn trang');
+    score -= ANNOTATION_REGIONS_LOST_PENALTY;
+  }
+
+  return { score: Math.max(0, Math.min(1, score)), reasons };
+};
+
+/**
+ * Trang cần người vận hành xem: điểm thấp và chưa được quyết định
+ */
+export const needsReview = (meta: PageProcessingMeta | undefined, decided: boolean): boolean =>
+  !!meta?.confidence && !decided && meta.confidence.score < REVIEW_CONFIDENCE_THRESHOLD;
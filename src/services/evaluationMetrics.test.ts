@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK, createImage, fillRect, RED } from '../test/pixels';
+import type { Rgb } from '../test/pixels';
+import { computeEvaluationMetrics, psnr, ssim } from './evaluationMetrics';
+
+const gray = (value: number): Rgb => [value, value, value];
+
+// SSIM của một cửa sổ khi hai ảnh đều là màu đồng nhất (phương sai = 0)
+const flatSsim = (a: number, b: number) => {
+  const c1 = (0.01 * 255) ** 2;
+  return (2 * a * b + c1) / (a * a + b * b + c1);
+};
+
+describe('psnr', () => {
+  it('ảnh giống hệt cho giá trị trần', () => {
+    expect(psnr(createImage(8, 8), createImage(8, 8))).toBe(100);
+  });
+
+  it('lệch đều 10 mức trên mọi kênh: MSE = 100', () => {
+    expect(psnr(createImage(8, 8, gray(100)), createImage(8, 8, gray(110)))).toBeCloseTo(28.1308, 4);
+  });
+
+  it('chỉ một kênh lệch 255: MSE = 255² / 3', () => {
+    expect(psnr(createImage(4, 4, [255, 0, 0]), createImage(4, 4, [0, 0, 0]))).toBeCloseTo(10 * Math.log10(3), 6);
+  });
+});
+
+describe('ssim', () => {
+  it('ảnh giống hệt cho 1', () => {
+    const image = createImage(16, 16);
+    fillRect(image, 3, 3, 6, 2, BLACK);
+    expect(ssim(image, image)).toBeCloseTo(1, 10);
+  });
+
+  it('hai màu xám đồng nhất chỉ khác độ sáng trung bình', () => {
+    expect(ssim(createImage(16, 16, gray(100)), createImage(16, 16, gray(110)))).toBeCloseTo(flatSsim(100, 110), 6);
+  });
+
+  it('trung bình các cửa sổ 8x8, bỏ phần lẻ ở mép', () => {
+    const result = createImage(20, 8, gray(100));
+    fillRect(result, 8, 0, 12, 8, gray(200));
+    const reference = createImage(20, 8, gray(200));
+
+    expect(ssim(result, reference)).toBeCloseTo((flatSsim(100, 200) + 1) / 2, 6);
+  });
+
+  it('ảnh nhỏ hơn một cửa sổ cho 1', () => {
+    expect(ssim(createImage(4, 4, gray(0)), createImage(4, 4, gray(255)))).toBe(1);
+  });
+});
+
+describe('computeEvaluationMetrics', () => {
+  it('tỉ lệ mực giáo viên còn sót và chữ bị xóa nhầm', () => {
+    const original = createImage(16, 16);
+    fillRect(original, 0, 0, 16, 2, RED);
+    fillRect(original, 0, 8, 16, 2, BLACK);
+    const reference = createImage(16, 16);
+    fillRect(reference, 0, 8, 16, 2, BLACK);
+    const result = createImage(16, 16);
+    fillRect(result, 0, 0, 8, 2, RED);
+    fillRect(result, 0, 8, 12, 2, BLACK);
+
+    const metrics = computeEvaluationMetrics(original, result, reference);
+
+    expect(metrics.residualInkRatio).toBe(0.5);
+    expect(metrics.overErasureRatio).toBe(0.25);
+    expect(metrics.psnr).toBe(psnr(result, reference));
+    expect(metrics.ssim).toBe(ssim(result, reference));
+  });
+
+  it('bản gốc đã sạch thì không có mực sót', () => {
+    const image = createImage(8, 8);
+    expect(computeEvaluationMetrics(image, image, image)).toEqual({
+      psnr: 100,
+      ssim: 1,
+      residualInkRatio: 0,
+      overErasureRatio: 0,
+    });
+  });
+});
+
+describe('kiểm tra kích thước', () => {
+  it('báo lỗi rõ ràng khi ảnh khác kích thước', () => {
+    const small = createImage(8, 8);
+    const large = createImage(8, 9);
+
+    expect(() => psnr(small, large)).toThrow('Ảnh so sánh khác kích thước: 8x8 / 8x9');
+    expect(() => ssim(large, small)).toThrow('Ảnh so sánh khác kích thước: 8x9 / 8x8');
+    expect(() => computeEvaluationMetrics(small, small, large)).toThrow(/khác kích thước/);
+  });
+
+  it('báo lỗi khi dữ liệu không khớp kích thước khai báo', () => {
+    const truncated = { width: 8, height: 8, data: new Uint8ClampedArray(8 * 4 * 4) };
+
+    expect(() => psnr(truncated, truncated)).toThrow('Ảnh 8x8 cần 256 byte RGBA, nhận 128');
+  });
+});
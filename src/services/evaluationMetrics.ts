@@ -0,0 +1,126 @@
+import type { EvaluationMetrics } from '../models/appModels';
+import type { PixelBuffer } from './pipeline/types';
+
+const MAX_PSNR = 100;
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+// Chênh lệch kênh màu lớn hơn ngưỡng này coi là hai pixel khác nhau
+const PIXEL_DIFF_THRESHOLD = 40;
+// Pixel chữ tối và mức sáng lên được coi là bị xóa nhầm
+const DARK_LUMA = 100;
+const ERASED_LUMA_GAIN = 60;
+
+const luma = (data: Uint8ClampedArray, i: number) => data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+
+const maxChannelDiff = (a: Uint8ClampedArray, b: Uint8ClampedArray, i: number) =>
+  Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+
+/**
+ * Các ảnh so sánh phải cùng kích thước và đủ dữ liệu RGBA, nếu không chỉ số đọc lệch pixel hoặc ra NaN
+ */
+function assertSameSize(...buffers: PixelBuffer[]) {
+  const [first] = buffers;
+  for (const buffer of buffers) {
+    if (buffer.width !== first.width || buffer.height !== first.height) {
+      throw new Error(`Ảnh so sánh khác kích thước: ${buffers.map((b) => `${b.width}x${b.height}`).join(' / ')}`);
+    }
+    if (buffer.data.length !== buffer.width * buffer.height * 4) {
+      throw new Error(`Ảnh ${buffer.width}x${buffer.height} cần ${buffer.width * buffer.height * 4} byte RGBA, nhận ${buffer.data.length}`);
+    }
+  }
+}
+
+/**
+ * PSNR trên 3 kênh RGB
+ */
+export function psnr(result: PixelBuffer, reference: PixelBuffer): number {
+  assertSameSize(result, reference);
+  let sum = 0;
+  const count = result.width * result.height;
+  for (let i = 0; i < count * 4; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = result.data[i + c] - reference.data[i + c];
+      sum += diff * diff;
+    }
+  }
+  const mse = sum / (count * 3);
+  return mse === 0 ? MAX_PSNR : Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+}
+
+/**
+ * SSIM trên độ sáng, trung bình các cửa sổ 8x8 không chồng nhau
+ */
+export function ssim(result: PixelBuffer, reference: PixelBuffer): number {
+  assertSameSize(result, reference);
+  const { width, height } = result;
+  let total = 0;
+  let windows = 0;
+  for (let wy = 0; wy + SSIM_WINDOW <= height; wy += SSIM_WINDOW) {
+    for (let wx = 0; wx + SSIM_WINDOW <= width; wx += SSIM_WINDOW) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+          const i = (y * width + x) * 4;
+          const a = luma(result.data, i);
+          const b = luma(reference.data, i);
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+        }
+      }
+      const n = SSIM_WINDOW * SSIM_WINDOW;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * cov + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows += 1;
+    }
+  }
+  return windows ? total / windows : 1;
+}
+
+/**
+ * Các chỉ số của ảnh đã xử lý so với bản tham chiếu làm sạch tay.
+ * Ba ảnh phải cùng kích thước, khác thì báo lỗi.
+ */
+export function computeEvaluationMetrics(
+  original: PixelBuffer,
+  result: PixelBuffer,
+  reference: PixelBuffer
+): EvaluationMetrics {
+  assertSameSize(original, result, reference);
+  let teacherInk = 0;
+  let residualInk = 0;
+  let textPixels = 0;
+  let erasedText = 0;
+  for (let i = 0; i < original.width * original.height * 4; i += 4) {
+    // Pixel bản gốc khác bản tham chiếu: mực giáo viên đã được xóa tay
+    if (maxChannelDiff(original.data, reference.data, i) > PIXEL_DIFF_THRESHOLD) {
+      teacherInk += 1;
+      if (maxChannelDiff(result.data, reference.data, i) > PIXEL_DIFF_THRESHOLD) residualInk += 1;
+    }
+    const referenceLuma = luma(reference.data, i);
+    if (referenceLuma < DARK_LUMA && luma(original.data, i) < DARK_LUMA) {
+      textPixels += 1;
+      if (luma(result.data, i) > referenceLuma + ERASED_LUMA_GAIN) erasedText += 1;
+    }
+  }
+
+  return {
+    psnr: psnr(result, reference),
+    ssim: ssim(result, reference),
+    residualInkRatio: teacherInk ? residualInk / teacherInk : 0,
+    overErasureRatio: textPixels ? erasedText / textPixels : 0,
+  };
+}
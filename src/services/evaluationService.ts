@@ -0,0 +1,124 @@
+import type {
+  EvaluationMetrics,
+  EvaluationPageResult,
+  EvaluationReport,
+  InkProfileId,
+  RemovalSettings,
+  TuningOverride,
+} from '../models/appModels';
+import { DEFAULT_INK_PROFILE_IDS } from '../const/inkProfiles';
+import { getPromptTemplate } from '../const/ai/prompt';
+import { computeEvaluationMetrics } from './evaluationMetrics';
+import { removeRedMarkings } from './geminiService';
+import { dataUrlToImageData } from './imageService';
+
+export type EvaluationPair = {
+  name: string;
+  // Ảnh trang gốc và bản làm sạch tay (data URL)
+  original: string;
+  reference: string;
+};
+
+export type EvaluationOptions = {
+  inkProfiles?: InkProfileId[];
+  promptVersion?: string;
+  tuning?: TuningOverride | null;
+  removal?: RemovalSettings;
+};
+
+const METRIC_KEYS: (keyof EvaluationMetrics)[] = ['psnr', 'ssim', 'residualInkRatio', 'overErasureRatio'];
+
+/**
+ * Chạy pipeline hiện tại trên một cặp trang rồi so với bản tham chiếu
+ */
+export async function evaluatePair(pair: EvaluationPair, options: EvaluationOptions = {}): Promise<EvaluationPageResult> {
+  const result = await removeRedMarkings(pair.original, {
+    inkProfiles: options.inkProfiles,
+    promptVersion: options.promptVersion,
+    tuning: options.tuning ?? undefined,
+    removal: options.removal,
+  });
+  if (!result.success || !result.processedImageUrl) {
+    throw new Error(result.error || `Không thể xử lý "${pair.name}"`);
+  }
+
+  const processed = await dataUrlToImageData(result.processedImageUrl);
+  const { width, height } = processed;
+  // Bản gốc/tham chiếu có thể được scan ở độ phân giải khác: đưa về kích thước ảnh kết quả
+  const [original, reference] = await Promise.all([
+    dataUrlToImageData(pair.original, width, height),
+    dataUrlToImageData(pair.reference, width, height),
+  ]);
+
+  const meta = result.meta;
+  return {
+    name: pair.name,
+    ...computeEvaluationMetrics(original, processed, reference),
+    tuningSource: meta?.tuningOutcome.source ?? null,
+    model: meta?.tuningOutcome.model ?? null,
+    escalations: meta?.verification?.escalations ?? 0,
+    confidence: meta?.confidence?.score ?? null,
+  };
+}
+
+/**
+ * Đánh giá tuần tự các cặp trang, báo tiến độ sau mỗi trang
+ */
+export async function runEvaluation(
+  pairs: EvaluationPair[],
+  options: EvaluationOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<EvaluationReport> {
+  const pages: EvaluationPageResult[] = [];
+  for (const pair of pairs) {
+    pages.push(await evaluatePair(pair, options));
+    onProgress?.(pages.length, pairs.length);
+  }
+
+  const aggregate = Object.fromEntries(
+    METRIC_KEYS.map((key) => [key, pages.length ? pages.reduce((sum, page) => sum + page[key], 0) / pages.length : 0])
+  ) as EvaluationMetrics;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    promptVersion: getPromptTemplate(options.promptVersion).id,
+    inkProfiles: options.inkProfiles ?? DEFAULT_INK_PROFILE_IDS,
+    tuning: options.tuning ?? null,
+    pages,
+    aggregate,
+  };
+}
+
+export const evaluationToJson = (report: EvaluationReport): string => JSON.stringify(report, null, 2);
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = typeof value === 'number' ? String(Number(value.toFixed(6))) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV mỗi dòng một trang, dòng cuối là trung bình; cột cấu hình giúp ghép nhiều lần chạy để so sánh
+ */
+export const evaluationToCsv = (report: EvaluationReport): string => {
+  const header = ['name', ...METRIC_KEYS, 'tuningSource', 'model', 'escalations', 'confidence', 'promptVersion'];
+  const rows = report.pages.map((page) => [
+    page.name,
+    ...METRIC_KEYS.map((key) => page[key]),
+    page.tuningSource,
+    page.model,
+    page.escalations,
+    page.confidence,
+    report.promptVersion,
+  ]);
+  rows.push([
+    'TRUNG BÌNH',
+    ...METRIC_KEYS.map((key) => report.aggregate[key]),
+    null,
+    null,
+    null,
+    null,
+    report.promptVersion,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+};
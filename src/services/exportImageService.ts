@@ -0,0 +1,84 @@
+import type { ExportColorMode, ExportImageFormat } from '../models/appModels';
+import { dataUrlToImageData, imageDataToDataUrl, loadImage } from './imageService';
+
+// Pixel có độ sáng dưới ngưỡng này thành đen khi xuất đen trắng
+const BILEVEL_THRESHOLD = 160;
+
+export type PageImageEncoding = {
+  colorMode: ExportColorMode;
+  format: ExportImageFormat;
+  quality: number;
+  // Tỉ lệ thu nhỏ ảnh trang (1 = giữ độ phân giải render)
+  scale: number;
+};
+
+export type EncodedPageImage = {
+  // Kích thước ảnh gốc trước khi thu nhỏ, dùng làm kích thước trang khi không có PDF nguồn
+  sourceWidth: number;
+  sourceHeight: number;
+} & (
+  | { kind: 'png' | 'jpeg'; bytes: Uint8Array }
+  // DeviceGray chưa nén, 1 bit (0 = đen) hoặc 8 bit mỗi pixel, hàng đệm đủ byte
+  | { kind: 'gray'; width: number; height: number; bitsPerComponent: 1 | 8; pixels: Uint8Array }
+);
+
+const dataUrlToBytes = async (dataUrl: string): Promise<Uint8Array> =>
+  new Uint8Array(await (await fetch(dataUrl)).arrayBuffer());
+
+const toLuma = (imageData: ImageData): Uint8Array => {
+  const { data } = imageData;
+  const luma = new Uint8Array(imageData.width * imageData.height);
+  for (let i = 0, o = 0; i < luma.length; i++, o += 4) {
+    luma[i] = Math.round(data[o] * 0.299 + data[o + 1] * 0.587 + data[o + 2] * 0.114);
+  }
+  return luma;
+};
+
+const packBilevel = (luma: Uint8Array, width: number, height: number): Uint8Array => {
+  const rowBytes = Math.ceil(width / 8);
+  // Khởi tạo toàn trắng (bit 1), chỉ xóa bit của pixel tối
+  const packed = new Uint8Array(rowBytes * height).fill(0xff);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luma[y * width + x] < BILEVEL_THRESHOLD) packed[y * rowBytes + (x >> 3)] &= ~(0x80 >> (x & 7));
+    }
+  }
+  return packed;
+};
+
+/**
+ * Mã hóa ảnh trang theo chế độ màu/định dạng xuất. Ảnh màu PNG giữ nguyên độ phân giải được nhúng thẳng.
+ */
+export async function encodePageImage(source: string, encoding: PageImageEncoding): Promise<EncodedPageImage> {
+  const img = await loadImage(source);
+  const sourceSize = { sourceWidth: img.width, sourceHeight: img.height };
+  const width = Math.max(1, Math.round(img.width * encoding.scale));
+  const height = Math.max(1, Math.round(img.height * encoding.scale));
+
+  if (encoding.colorMode === 'color' && encoding.format === 'png' && encoding.scale === 1) {
+    const kind = source.startsWith('data:image/jpeg') ? 'jpeg' : 'png';
+    return { ...sourceSize, kind, bytes: await dataUrlToBytes(source) };
+  }
+
+  const imageData = await dataUrlToImageData(source, width, height);
+  if (encoding.colorMode === 'color') {
+    const type = encoding.format === 'jpeg' ? 'image/jpeg' : 'image/png';
+    const bytes = await dataUrlToBytes(imageDataToDataUrl(imageData, type, encoding.quality));
+    return { ...sourceSize, kind: encoding.format, bytes };
+  }
+
+  const luma = toLuma(imageData);
+  if (encoding.colorMode === 'bilevel') {
+    return { ...sourceSize, kind: 'gray', width, height, bitsPerComponent: 1, pixels: packBilevel(luma, width, height) };
+  }
+  if (encoding.format === 'png') {
+    return { ...sourceSize, kind: 'gray', width, height, bitsPerComponent: 8, pixels: luma };
+  }
+  // Canvas chỉ xuất JPEG 3 kênh; ảnh xám thì kênh màu gần như không tốn dung lượng
+  for (let i = 0, o = 0; i < luma.length; i++, o += 4) {
+    imageData.data[o] = luma[i];
+    imageData.data[o + 1] = luma[i];
+    imageData.data[o + 2] = luma[i];
+  }
+  return { ...sourceSize, kind: 'jpeg', bytes: await dataUrlToBytes(imageDataToDataUrl(imageData, 'image/jpeg', encoding.quality)) };
+}
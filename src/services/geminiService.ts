@@ -1,51 +1,124 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { GEMINI_RED_CLEANUP_PROMPT } from '../const/ai/prompt';
-
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-const genAI = API_KEY ? new GoogleGenerativeAI(API_KEY) : null;
+import { getPromptTemplate } from '../const/ai/prompt';
+import { DEFAULT_INK_PROFILE_IDS, getInkProfiles } from '../const/inkProfiles';
+import type {
+  InkProfile,
+  InkProfileId,
+  LabColor,
+  MarkRegion,
+  PageProcessingMeta,
+  PromptTemplate,
+  RedDetectionTuning,
+  RemovalSettings,
+  TuningOutcome,
+  TuningOverride,
+} from '../models/appModels';
+import { AiProviderError, getTuningProvider } from './ai';
+import type { PipelineOptions } from './pipeline/types';
+import { blobToDataUrl, dataUrlToBlob, perceptualHash } from './imageService';
+import { runEncodedRedRemoval, type EncodedRedRemovalOutput } from './redRemovalPool';
+import { findCachedTuning, storeCachedTuning } from './tuningCacheService';
+import { escalateTuning, isBetterEscalation, pickTuningOverride } from './tuningService';
+import { scorePageConfidence } from './confidenceService';
+
+const AI_TIMEOUT_MS = 20_000;
+const AI_MAX_ATTEMPTS = 3;
+const AI_BACKOFF_BASE_MS = 1_000;
+// Còn quá 2% mực sau khi xóa thì chạy lại với tuning mạnh hơn, tối đa 2 lần
+const RESIDUAL_THRESHOLD = 0.02;
+const MAX_ESCALATIONS = 2;
 
 export interface ProcessPDFResult {
   success: boolean;
   processedImageUrl?: string;
+  meta?: PageProcessingMeta;
   error?: string;
 }
 
-type RedDetectionTuning = {
-  // HSV thresholds for red detection
-  sMin: number;
-  vMin: number;
-  // Hue ranges (0-360). Red is usually around 0 and 360.
-  hueA: [number, number];
-  hueB: [number, number];
-  // mask expand radius (pixels)
-  dilateRadius: number;
-  // inpaint radius (pixels)
-  inpaintRadius: number;
-};
-
-const DEFAULT_TUNING: RedDetectionTuning = {
+export const DEFAULT_TUNING: RedDetectionTuning = {
   sMin: 0.2,
   vMin: 0.15,
   hueA: [0, 30],
   hueB: [330, 360],
   dilateRadius: 2,
   inpaintRadius: 3,
+  inpaintMode: 'average',
+  preserveLayout: false,
+  inkProfiles: DEFAULT_INK_PROFILE_IDS,
+  protectStudentInk: true,
+  detectionMode: 'hsv',
+  referenceInks: [],
+  deltaETolerance: 18,
+};
+
+export type RemoveMarkingsOptions = {
+  // Màu mực cần xóa, mặc định chỉ màu đỏ
+  inkProfiles?: InkProfileId[];
+  // Màu mực học sinh người vận hành đã chọn cho trang này
+  studentInks?: LabColor[];
+  // Ngưỡng người vận hành chỉnh tay; có thì bỏ qua bước hỏi AI
+  tuning?: TuningOverride;
+  // Tuning AI đã có sẵn (vd: lấy mẫu chung cho cả file), dùng thay cho việc hỏi AI theo trang
+  aiTuning?: TuningResult;
+  // Bỏ qua cache, hỏi lại AI và ghi đè gợi ý đã lưu
+  refreshTuning?: boolean;
+  // Phiên bản prompt (xem PROMPT_TEMPLATES), mặc định DEFAULT_PROMPT_VERSION
+  promptVersion?: string;
+  // Chế độ inpaint/giữ bố cục người vận hành chọn, ghi đè lên tuning; không có thì giữ mặc định
+  removal?: RemovalSettings;
+};
+
+export type TuningResult = {
+  tuning: RedDetectionTuning;
+  outcome: TuningOutcome;
+  // Vùng AI khoanh trên trang (annotation/keep)
+  regions?: MarkRegion[];
 };
 
 /**
- * Xử lý ảnh PDF để xóa các đường viết màu đỏ sử dụng Gemini AI
+ * Tuning mặc định khi không có AI: hue/ngưỡng lấy từ band của profile chính
  */
-export async function removeRedMarkings(imageData: string): Promise<ProcessPDFResult> {
+export function defaultTuningForProfiles(profiles: InkProfile[]): RedDetectionTuning {
+  const [primary] = profiles;
+  const tuning: RedDetectionTuning = { ...DEFAULT_TUNING, inkProfiles: profiles.map((profile) => profile.id) };
+  if (!primary.tunable) return tuning;
+
+  const [bandA, bandB = bandA] = primary.bands;
+  return { ...tuning, hueA: bandA.hue, hueB: bandB.hue, sMin: bandA.sMin, vMin: bandA.vMin };
+}
+
+/**
+ * Xử lý ảnh PDF để xóa các đường viết màu (mặc định: đỏ), ngưỡng do AI provider gợi ý
+ */
+export async function removeRedMarkings(
+  imageData: string,
+  options: RemoveMarkingsOptions = {}
+): Promise<ProcessPDFResult> {
   try {
-    const tuning = await getTuningFromGemini(imageData);
-    const processedImage = await processImageRemoveRed(imageData, tuning);
+    const profiles = getInkProfiles(options.inkProfiles ?? DEFAULT_INK_PROFILE_IDS);
+    const template = getPromptTemplate(options.promptVersion);
+    const { tuning: suggested, outcome, regions } = options.tuning
+      ? {
+          tuning: { ...defaultTuningForProfiles(profiles), ...options.tuning },
+          outcome: { source: 'operator', attempts: 0 } satisfies TuningOutcome,
+        }
+      : options.aiTuning ?? (await getCachedTuning(imageData, profiles, template, options.refreshTuning));
+    const tuning: RedDetectionTuning = { ...suggested, ...options.removal };
+    // Ngưỡng chỉnh tay được giữ nguyên, chỉ đo mực còn sót
+    const { dataUrl, meta } = await processImageRemoveRed(
+      imageData,
+      tuning,
+      outcome,
+      { studentInks: options.studentInks, regions },
+      !options.tuning
+    );
 
     return {
       success: true,
-      processedImageUrl: processedImage,
+      processedImageUrl: dataUrl,
+      meta: { ...meta, promptVersion: template.id },
     };
   } catch (error) {
-    console.error('Error processing with Gemini AI:', error);
+    console.error('Error processing with AI tuning:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -53,212 +126,243 @@ export async function removeRedMarkings(imageData: string): Promise<ProcessPDFRe
   }
 }
 
-async function getTuningFromGemini(imageDataUrl: string): Promise<RedDetectionTuning> {
-  // Không có key thì chạy local algorithm luôn
-  if (!genAI) return DEFAULT_TUNING;
-
-  try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
-    const base64Data = imageDataUrl.split(',')[1];
-    if (!base64Data) return DEFAULT_TUNING;
-
-    const result = await model.generateContent([
-      GEMINI_RED_CLEANUP_PROMPT,
-      {
-        inlineData: {
-          data: base64Data,
-          mimeType: 'image/png',
-        },
-      },
-    ]);
-
-    const text = result.response.text();
-    const json = extractJsonObject(text);
-    if (!json) return DEFAULT_TUNING;
+/**
+ * Hỏi AI provider đã cấu hình để lấy ngưỡng cho trang.
+ * Không bao giờ throw: lỗi được ghi vào `outcome` và dùng tuning mặc định.
+ */
+async function getTuningFromAi(
+  imageDataUrl: string,
+  profiles: InkProfile[],
+  template: PromptTemplate
+): Promise<TuningResult> {
+  const defaults = defaultTuningForProfiles(profiles);
+  const provider = getTuningProvider();
+  // Chưa cấu hình provider thì chạy local algorithm luôn
+  if (!provider) {
+    return { tuning: defaults, outcome: { source: 'default', attempts: 0, reason: 'Chưa cấu hình AI provider' } };
+  }
 
-    const parsed = JSON.parse(json) as Partial<RedDetectionTuning>;
+  const model = template.settings.models?.[provider.id] ?? provider.model;
+  const modelLabel = `${provider.id}/${model}`;
+  const [header, base64Data] = imageDataUrl.split(',');
+  if (!base64Data) {
     return {
-      sMin: clamp01(parsed.sMin ?? DEFAULT_TUNING.sMin),
-      vMin: clamp01(parsed.vMin ?? DEFAULT_TUNING.vMin),
-      hueA: normalizeHueRange(parsed.hueA ?? DEFAULT_TUNING.hueA),
-      hueB: normalizeHueRange(parsed.hueB ?? DEFAULT_TUNING.hueB),
-      dilateRadius: clampInt(parsed.dilateRadius ?? DEFAULT_TUNING.dilateRadius, 0, 3),
-      inpaintRadius: clampInt(parsed.inpaintRadius ?? DEFAULT_TUNING.inpaintRadius, 1, 5),
+      tuning: defaults,
+      outcome: { source: 'fallback', attempts: 0, model: modelLabel, failure: 'request', reason: 'Ảnh trang không hợp lệ' },
     };
-  } catch {
-    return DEFAULT_TUNING;
+  }
+  const mimeType = header.match(/data:(.*?);base64/)?.[1] ?? 'image/png';
+
+  let attempts = 0;
+  for (;;) {
+    attempts += 1;
+    try {
+      const { tuning: suggested, regions } = await provider.suggestTuning({
+        prompt: template.build(profiles),
+        imageBase64: base64Data,
+        mimeType,
+        timeoutMs: AI_TIMEOUT_MS,
+        model,
+        temperature: template.settings.temperature,
+        maxOutputTokens: template.settings.maxOutputTokens,
+        withRegions: template.withRegions,
+      });
+      return { tuning: { ...defaults, ...suggested }, outcome: { source: 'model', attempts, model: modelLabel }, regions };
+    } catch (error) {
+      const failure = error instanceof AiProviderError ? error.kind : 'request';
+      const reason = error instanceof Error ? error.message : String(error);
+      if ((failure === 'rate-limit' || failure === 'server') && attempts < AI_MAX_ATTEMPTS) {
+        await sleep(AI_BACKOFF_BASE_MS * 2 ** (attempts - 1) + Math.random() * AI_BACKOFF_BASE_MS * 0.25);
+        continue;
+      }
+      console.warn(`AI tuning (${modelLabel}) failed, using defaults:`, reason);
+      return { tuning: defaults, outcome: { source: 'fallback', attempts, model: modelLabel, failure, reason } };
+    }
   }
 }
 
-function extractJsonObject(text: string): string | null {
-  const start = text.indexOf('{');
-  const end = text.lastIndexOf('}');
-  if (start === -1 || end === -1 || end <= start) return null;
-  return text.slice(start, end + 1);
-}
-
-function clamp01(value: number): number {
-  if (Number.isNaN(value)) return 0;
-  return Math.max(0, Math.min(1, value));
-}
-
-function clampInt(value: number, min: number, max: number): number {
-  const n = Math.round(value);
-  return Math.max(min, Math.min(max, n));
-}
+/**
+ * Tuning cho trang, ưu tiên gợi ý đã lưu của trang có perceptual hash gần giống.
+ * Chỉ lưu gợi ý thật của model, không lưu kết quả mặc định khi AI lỗi.
+ */
+async function getCachedTuning(
+  imageDataUrl: string,
+  profiles: InkProfile[],
+  template: PromptTemplate,
+  refresh = false
+): Promise<TuningResult> {
+  const provider = getTuningProvider();
+  if (!provider) return getTuningFromAi(imageDataUrl, profiles, template);
+
+  // Gợi ý phụ thuộc model, phiên bản prompt và màu mực nên chỉ dùng lại trong cùng scope
+  const model = template.settings.models?.[provider.id] ?? provider.model;
+  const scope = `${provider.id}/${model}|${template.id}|${profiles.map((profile) => profile.id).join(',')}`;
+  const fingerprint = await perceptualHash(imageDataUrl).catch(() => null);
+  if (!fingerprint) return getTuningFromAi(imageDataUrl, profiles, template);
+
+  if (!refresh) {
+    const cached = await findCachedTuning(scope, fingerprint);
+    if (cached) {
+      const annotationRegions = cached.fingerprint === fingerprint ? cached.annotationRegions : undefined;
+      // Trang chỉ gần giống, hoặc cache cũ chưa lưu vùng nét chấm: không khoanh được nét chấm của trang này
+      const annotationRegionsLost = !annotationRegions && cached.annotationRegions?.length !== 0;
+      return {
+        tuning: { ...defaultTuningForProfiles(profiles), ...cached.tuning },
+        outcome: {
+          source: 'model',
+          attempts: 0,
+          model: cached.model,
+          cache: 'hit',
+          fingerprint,
+          annotationRegionsLost,
+        },
+        regions: [...(cached.keepRegions ?? []), ...(annotationRegions ?? [])],
+      };
+    }
+  }
 
-function normalizeHueRange(range: [number, number]): [number, number] {
-  const a = ((range[0] % 360) + 360) % 360;
-  const b = ((range[1] % 360) + 360) % 360;
-  return [a, b];
+  const result = await getTuningFromAi(imageDataUrl, profiles, template);
+  if (result.outcome.source === 'model') {
+    const regions = result.regions ?? [];
+    await storeCachedTuning(scope, fingerprint, {
+      tuning: pickTuningOverride(result.tuning),
+      keepRegions: regions.filter((region) => region.kind === 'keep'),
+      annotationRegions: regions.filter((region) => region.kind === 'annotation'),
+      model: result.outcome.model ?? '',
+    }).catch((error) => console.warn('Không thể lưu cache tuning', error));
+  }
+  return { ...result, outcome: { ...result.outcome, cache: refresh ? 'refreshed' : 'miss', fingerprint } };
 }
 
 /**
- * Xử lý ảnh để loại bỏ màu đỏ (RGB processing)
+ * Một tuning chung cho cả file: hỏi AI (qua cache) trên vài trang mẫu rồi lấy trung vị từng ngưỡng
  */
-async function processImageRemoveRed(imageDataUrl: string, tuning: RedDetectionTuning): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-
-      const width = canvas.width;
-      const height = canvas.height;
-
-      // 1) Tạo mask pixel đỏ
-      const mask = new Uint8Array(width * height);
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          const idx = (y * width + x) * 4;
-          const r = data[idx] / 255;
-          const g = data[idx + 1] / 255;
-          const b = data[idx + 2] / 255;
-          const a = data[idx + 3];
-          if (a < 10) continue;
-
-          const { h, s, v } = rgbToHsv(r, g, b);
-          if (s < tuning.sMin || v < tuning.vMin) continue;
-
-          const isRed =
-            inHueRange(h, tuning.hueA[0], tuning.hueA[1]) || inHueRange(h, tuning.hueB[0], tuning.hueB[1]);
-          if (isRed) {
-            mask[y * width + x] = 1;
-          }
-        }
-      }
-
-      // 2) Dilation nhẹ để bao phủ nét đỏ
-      const dilated = dilateMask(mask, width, height, tuning.dilateRadius);
-
-      // 3) Inpaint đơn giản: thay pixel đỏ bằng trung bình lân cận không-màu-đỏ
-      const out = new Uint8ClampedArray(data);
-      const radius = tuning.inpaintRadius;
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          if (!dilated[y * width + x]) continue;
-
-          let sumR = 0;
-          let sumG = 0;
-          let sumB = 0;
-          let count = 0;
-
-          for (let dy = -radius; dy <= radius; dy++) {
-            for (let dx = -radius; dx <= radius; dx++) {
-              const nx = x + dx;
-              const ny = y + dy;
-              if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
-              if (dilated[ny * width + nx]) continue;
-
-              const nIdx = (ny * width + nx) * 4;
-              sumR += out[nIdx];
-              sumG += out[nIdx + 1];
-              sumB += out[nIdx + 2];
-              count++;
-            }
-          }
-
-          const oIdx = (y * width + x) * 4;
-          if (count > 0) {
-            out[oIdx] = Math.round(sumR / count);
-            out[oIdx + 1] = Math.round(sumG / count);
-            out[oIdx + 2] = Math.round(sumB / count);
-          } else {
-            // fallback: trắng
-            out[oIdx] = 255;
-            out[oIdx + 1] = 255;
-            out[oIdx + 2] = 255;
-          }
-        }
-      }
-
-      imageData.data.set(out);
+export async function suggestFileTuning(
+  sampleImages: string[],
+  options: Pick<RemoveMarkingsOptions, 'inkProfiles' | 'promptVersion' | 'refreshTuning'> = {}
+): Promise<TuningResult> {
+  const profiles = getInkProfiles(options.inkProfiles ?? DEFAULT_INK_PROFILE_IDS);
+  const template = getPromptTemplate(options.promptVersion);
+  const refresh = options.refreshTuning ?? false;
+  const results: TuningResult[] = [];
+  for (const image of sampleImages) {
+    results.push(await getCachedTuning(image, profiles, template, refresh));
+  }
 
-      ctx.putImageData(imageData, 0, 0);
-      resolve(canvas.toDataURL('image/png'));
+  const suggested = results.filter((result) => result.outcome.source === 'model');
+  if (!suggested.length) {
+    const [first] = results;
+    const outcome: TuningOutcome = first?.outcome ?? { source: 'default', attempts: 0 };
+    return {
+      tuning: first?.tuning ?? defaultTuningForProfiles(profiles),
+      outcome: { ...outcome, sampledPages: sampleImages.length },
     };
-
-    img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = imageDataUrl;
-  });
-}
-
-function rgbToHsv(r: number, g: number, b: number): { h: number; s: number; v: number } {
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const delta = max - min;
-
-  let h = 0;
-  if (delta !== 0) {
-    if (max === r) h = ((g - b) / delta) % 6;
-    else if (max === g) h = (b - r) / delta + 2;
-    else h = (r - g) / delta + 4;
-    h *= 60;
-    if (h < 0) h += 360;
   }
 
-  const s = max === 0 ? 0 : delta / max;
-  const v = max;
-  return { h, s, v };
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  };
+  const pick = (read: (tuning: RedDetectionTuning) => number) => median(suggested.map((result) => read(result.tuning)));
+  const tuning: RedDetectionTuning = {
+    ...suggested[0].tuning,
+    sMin: pick((t) => t.sMin),
+    vMin: pick((t) => t.vMin),
+    hueA: [pick((t) => t.hueA[0]), pick((t) => t.hueA[1])],
+    hueB: [pick((t) => t.hueB[0]), pick((t) => t.hueB[1])],
+    dilateRadius: Math.round(pick((t) => t.dilateRadius)),
+    inpaintRadius: Math.round(pick((t) => t.inpaintRadius)),
+  };
+
+  const allCached = suggested.every((result) => result.outcome.cache === 'hit');
+  // Vùng nét chấm khoanh trên trang mẫu không áp được cho trang khác
+  const annotationRegionsLost = suggested.some(
+    (result) =>
+      result.outcome.annotationRegionsLost || (result.regions ?? []).some((region) => region.kind === 'annotation')
+  );
+  return {
+    tuning,
+    outcome: {
+      source: 'model',
+      attempts: results.reduce((sum, result) => sum + result.outcome.attempts, 0),
+      model: suggested[0].outcome.model,
+      cache: allCached ? 'hit' : refresh ? 'refreshed' : 'miss',
+      sampledPages: sampleImages.length,
+      annotationRegionsLost,
+    },
+  };
 }
 
-function inHueRange(h: number, a: number, b: number): boolean {
-  // if a <= b normal range; else wraps around 360
-  if (a <= b) return h >= a && h <= b;
-  return h >= a || h <= b;
-}
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
-function dilateMask(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
-  if (radius <= 0) return mask;
-  const out = new Uint8Array(mask);
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      if (!mask[y * width + x]) continue;
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          const nx = x + dx;
-          const ny = y + dy;
-          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
-          out[ny * width + nx] = 1;
-        }
-      }
+const residualRatio = (output: EncodedRedRemovalOutput) => output.diagnostics.residual?.ratio ?? 0;
+
+/**
+ * Xử lý ảnh để loại bỏ màu đỏ (RGB processing chạy trên worker pool).
+ * Sau mỗi lần chạy kiểm tra mực còn sót; nếu vượt ngưỡng và được phép thì chạy lại
+ * với tuning mạnh hơn (có giới hạn) và giữ kết quả sót ít nhất mà không xóa lan quá lần chạy đầu.
+ */
+async function processImageRemoveRed(
+  imageDataUrl: string,
+  initialTuning: RedDetectionTuning,
+  tuningOutcome: TuningOutcome,
+  options: PipelineOptions,
+  escalate = true
+): Promise<{ dataUrl: string; meta: PageProcessingMeta }> {
+  // Ảnh giữ dạng nén; giải mã/mã hóa điểm ảnh chạy trong worker. Bitmap bị transfer nên mỗi lần chạy tạo bitmap riêng
+  const source = await dataUrlToBlob(imageDataUrl);
+  const run = async (tuning: RedDetectionTuning) => runEncodedRedRemoval(await createImageBitmap(source), tuning, options);
+
+  const first = { tuning: initialTuning, output: await run(initialTuning) };
+  let best = first;
+  let current = initialTuning;
+  let escalations = 0;
+  while (escalate && escalations < MAX_ESCALATIONS && residualRatio(best.output) > RESIDUAL_THRESHOLD) {
+    const next = escalateTuning(current);
+    if (!next) break;
+    escalations += 1;
+    current = next;
+    const output = await run(next);
+    if (isBetterEscalation(output.diagnostics, best.output.diagnostics, first.output.diagnostics)) {
+      best = { tuning: next, output };
     }
   }
-  return out;
+
+  const { tuning, output } = best;
+  const { width, height, diagnostics } = output;
+
+  const components = diagnostics.components ?? [];
+  const verification = {
+    residualPixels: diagnostics.residual?.pixels ?? 0,
+    residualRatio: residualRatio(output),
+    escalations,
+    passed: residualRatio(output) <= RESIDUAL_THRESHOLD,
+  };
+  return {
+    dataUrl: await blobToDataUrl(output.image),
+    meta: {
+      width,
+      height,
+      tuning,
+      maskUrl: await blobToDataUrl(output.mask),
+      tuningOutcome,
+      keptComponents: components.filter((component) => component.kept),
+      removedComponents: components.filter((component) => !component.kept).length,
+      inkClusters: diagnostics.inkClusters ?? [],
+      studentInkSource: diagnostics.studentInkSource ?? 'auto',
+      regions: options.regions ?? [],
+      verification,
+      confidence: scorePageConfidence(
+        { tuningOutcome, verification },
+        { maskCoverage: diagnostics.maskCoverage ?? 0, textContact: diagnostics.textContact ?? 0 }
+      ),
+      maskCoverage: diagnostics.maskCoverage ?? 0,
+    },
+  };
 }
 
 export default {
   removeRedMarkings,
+  suggestFileTuning,
 };
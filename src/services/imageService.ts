@@ -0,0 +1,122 @@
+/**
+ * Tiện ích chuyển đổi data URL <-> ImageData trên canvas của trình duyệt
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Giải mã ảnh thành ImageData; truyền width/height để co giãn về đúng kích thước đó
+ */
+export const dataUrlToImageData = async (src: string, width?: number, height?: number): Promise<ImageData> => {
+  const img = await loadImage(src);
+  const { ctx } = createCanvas(width ?? img.width, height ?? img.height);
+  ctx.drawImage(img, 0, 0, width ?? img.width, height ?? img.height);
+  return ctx.getImageData(0, 0, width ?? img.width, height ?? img.height);
+};
+
+export const imageDataToDataUrl = (imageData: ImageData, type = 'image/png', quality?: number): string => {
+  const { canvas, ctx } = createCanvas(imageData.width, imageData.height);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL(type, quality);
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('Không thể đọc ảnh'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Tô mask (0..255) thành ảnh trong suốt, độ đậm theo giá trị mask (dùng được cả trong worker)
+ */
+export const tintMask = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  color: [number, number, number] = [244, 63, 94]
+): ImageData => {
+  const imageData = new ImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const o = i * 4;
+    imageData.data[o] = color[0];
+    imageData.data[o + 1] = color[1];
+    imageData.data[o + 2] = color[2];
+    imageData.data[o + 3] = mask[i];
+  }
+  return imageData;
+};
+
+/**
+ * Bản đồ nhiệt chênh lệch giữa hai ảnh (ảnh sau được co về kích thước ảnh trước).
+ * Chênh lệch nhỏ trong suốt, lớn dần từ vàng sang đỏ.
+ */
+export const buildDifferenceHeatmap = async (beforeUrl: string, afterUrl: string): Promise<string> => {
+  const before = await dataUrlToImageData(beforeUrl);
+  const after = await dataUrlToImageData(afterUrl, before.width, before.height);
+  const heatmap = new ImageData(before.width, before.height);
+  for (let o = 0; o < before.data.length; o += 4) {
+    const diff = Math.max(
+      Math.abs(before.data[o] - after.data[o]),
+      Math.abs(before.data[o + 1] - after.data[o + 1]),
+      Math.abs(before.data[o + 2] - after.data[o + 2])
+    );
+    // Bỏ qua nhiễu nén/khử răng cưa
+    if (diff < 12) continue;
+    const t = diff / 255;
+    heatmap.data[o] = 255;
+    heatmap.data[o + 1] = Math.round(220 * (1 - t));
+    heatmap.data[o + 2] = 0;
+    heatmap.data[o + 3] = Math.round(90 + 165 * t);
+  }
+  return imageDataToDataUrl(heatmap);
+};
+
+/**
+ * dHash 64 bit (hex) của ảnh: các trang gần giống nhau cho hash chênh ít bit
+ */
+export const perceptualHash = async (src: string): Promise<string> => {
+  const img = await loadImage(src);
+  const { ctx } = createCanvas(9, 8);
+  ctx.drawImage(img, 0, 0, 9, 8);
+  const { data } = ctx.getImageData(0, 0, 9, 8);
+  const luminance = (x: number, y: number) => {
+    const o = (y * 9 + x) * 4;
+    return data[o] * 0.299 + data[o + 1] * 0.587 + data[o + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0;
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (luminance(x, y) < luminance(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+};
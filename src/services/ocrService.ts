@@ -0,0 +1,68 @@
+import { createWorker, OEM, type Block, type Worker } from 'tesseract.js';
+// Worker, lõi WASM và dữ liệu ngôn ngữ đóng gói cùng ứng dụng để OCR chạy không cần mạng
+import ocrWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import ocrCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import vieDataUrl from '@tesseract.js-data/vie/4.0.0_best_int/vie.traineddata.gz?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { OcrPageResult, OcrWord } from '../models/appModels';
+import { loadImage } from './imageService';
+
+const OCR_LANGUAGES = [
+  { code: 'vie', url: vieDataUrl },
+  { code: 'eng', url: engDataUrl },
+];
+
+// Từ nhận dạng kém tin cậy hơn ngưỡng này thường là nhiễu (vết tẩy, đường kẻ), bỏ khỏi lớp chữ
+const MIN_WORD_CONFIDENCE = 30;
+
+let workerPromise: Promise<Worker> | null = null;
+
+const loadLanguageData = async (url: string): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Không tải được dữ liệu OCR (${response.status})`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+const createOcrWorker = async (): Promise<Worker> => {
+  const langs = await Promise.all(
+    OCR_LANGUAGES.map(async ({ code, url }) => ({ code, data: await loadLanguageData(url) }))
+  );
+  return createWorker(langs, OEM.LSTM_ONLY, {
+    workerPath: ocrWorkerUrl,
+    corePath: ocrCoreUrl,
+    workerBlobURL: false,
+    // Dữ liệu đã nằm trong bundle, không cần ghi thêm vào IndexedDB
+    cacheMethod: 'none',
+  });
+};
+
+/**
+ * Worker OCR dùng chung cho cả phiên; lỗi khởi tạo thì lần gọi sau thử lại
+ */
+const getOcrWorker = (): Promise<Worker> => {
+  workerPromise ??= createOcrWorker().catch((error) => {
+    workerPromise = null;
+    throw error;
+  });
+  return workerPromise;
+};
+
+const collectWords = (blocks: Block[]): OcrWord[] =>
+  blocks.flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) =>
+      paragraph.lines.flatMap((line) =>
+        line.words
+          .filter((word) => word.text.trim() && word.confidence >= MIN_WORD_CONFIDENCE)
+          .map(({ text, bbox }) => ({ text: text.trim(), x0: bbox.x0, y0: bbox.y0, x1: bbox.x1, y1: bbox.y1 }))
+      )
+    )
+  );
+
+/**
+ * Nhận dạng chữ (tiếng Việt + tiếng Anh) trên ảnh trang, trả về từng từ kèm khung bao theo pixel ảnh
+ */
+export async function recognizePageText(imageSource: string): Promise<OcrPageResult> {
+  const [worker, image] = await Promise.all([getOcrWorker(), loadImage(imageSource)]);
+  const { data } = await worker.recognize(imageSource, {}, { text: false, blocks: true });
+  return { width: image.width, height: image.height, words: collectWords(data.blocks ?? []) };
+}
@@ -0,0 +1,94 @@
+import type { PageEditStroke, RedDetectionTuning } from '../models/appModels';
+import { MASK_ON } from './pipeline/mask';
+import { createCanvas, dataUrlToImageData, imageDataToDataUrl } from './imageService';
+import { runRedRemoval } from './redRemovalPool';
+
+type EditMasks = {
+  clean: Uint8Array;
+  restore: Uint8Array;
+  hasClean: boolean;
+  hasRestore: boolean;
+};
+
+const STROKE_COLORS = {
+  clean: '#ff0000',
+  restore: '#00ff00',
+} as const;
+
+/**
+ * Vẽ các nét cọ lên canvas theo thứ tự (nét sau đè nét trước) rồi tách thành mask xóa / khôi phục
+ */
+export const rasterizeStrokes = (strokes: PageEditStroke[], width: number, height: number): EditMasks => {
+  const { ctx } = createCanvas(width, height);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (const stroke of strokes) {
+    if (!stroke.points.length) continue;
+    ctx.strokeStyle = STROKE_COLORS[stroke.mode];
+    ctx.fillStyle = STROKE_COLORS[stroke.mode];
+    ctx.lineWidth = stroke.size;
+    const [[x0, y0], ...rest] = stroke.points;
+    if (!rest.length) {
+      ctx.beginPath();
+      ctx.arc(x0, y0, stroke.size / 2, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    ctx.beginPath();
+    ctx.moveTo(x0, y0);
+    for (const [x, y] of rest) ctx.lineTo(x, y);
+    ctx.stroke();
+  }
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const clean = new Uint8Array(width * height);
+  const restore = new Uint8Array(width * height);
+  let hasClean = false;
+  let hasRestore = false;
+  for (let i = 0; i < clean.length; i++) {
+    const o = i * 4;
+    // Bỏ qua viền khử răng cưa quá mờ
+    if (data[o + 3] < 128) continue;
+    if (data[o] >= data[o + 1]) {
+      clean[i] = MASK_ON;
+      hasClean = true;
+    } else {
+      restore[i] = MASK_ON;
+      hasRestore = true;
+    }
+  }
+  return { clean, restore, hasClean, hasRestore };
+};
+
+/**
+ * Áp dụng nét chỉnh tay lên ảnh đã xử lý:
+ * vùng "khôi phục" lấy lại pixel gốc, vùng "xóa" được inpaint bằng cùng thuật toán của trang
+ */
+export const applyPageEdits = async (
+  processedUrl: string,
+  sourceUrl: string,
+  strokes: PageEditStroke[],
+  tuning: RedDetectionTuning
+): Promise<string> => {
+  const processed = await dataUrlToImageData(processedUrl);
+  const { width, height } = processed;
+  const masks = rasterizeStrokes(strokes, width, height);
+
+  if (masks.hasRestore) {
+    const source = await dataUrlToImageData(sourceUrl, width, height);
+    for (let i = 0; i < masks.restore.length; i++) {
+      if (!masks.restore[i]) continue;
+      const o = i * 4;
+      processed.data[o] = source.data[o];
+      processed.data[o + 1] = source.data[o + 1];
+      processed.data[o + 2] = source.data[o + 2];
+      processed.data[o + 3] = source.data[o + 3];
+    }
+  }
+
+  if (!masks.hasClean) return imageDataToDataUrl(processed);
+
+  const { imageData } = await runRedRemoval(processed, tuning, { manualMask: masks.clean });
+  return imageDataToDataUrl(imageData);
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { isUnmarkedPage } from './pageRangeService';
+
+describe('isUnmarkedPage', () => {
+  it('trang vector chỉ được giữ nguyên khi không gỡ chú thích hay path nào', () => {
+    expect(isUnmarkedPage({ kind: 'vector', removedAnnotations: 0, removedPaths: 0 })).toBe(true);
+    expect(isUnmarkedPage({ kind: 'vector', removedAnnotations: 0, removedPaths: 3 })).toBe(false);
+    expect(isUnmarkedPage({ kind: 'vector', removedAnnotations: 1, removedPaths: 0 })).toBe(false);
+  });
+
+  it('trang quét có path bị gỡ không được giữ nguyên dù raster gần như không xóa gì', () => {
+    expect(isUnmarkedPage({ kind: 'scanned', removedAnnotations: 0, removedPaths: 2 }, 0)).toBe(false);
+    expect(isUnmarkedPage({ kind: 'scanned', removedAnnotations: 1, removedPaths: 0 }, 0)).toBe(false);
+    expect(isUnmarkedPage({ kind: 'scanned', removedAnnotations: 0, removedPaths: 0 }, 0)).toBe(true);
+  });
+
+  it('trang quét xét theo tỉ lệ vùng bị xóa, thiếu số liệu thì không coi là sạch', () => {
+    expect(isUnmarkedPage(undefined, 0.00001)).toBe(true);
+    expect(isUnmarkedPage(undefined, 0.01)).toBe(false);
+    expect(isUnmarkedPage(undefined)).toBe(false);
+  });
+});
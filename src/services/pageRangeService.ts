@@ -0,0 +1,55 @@
+import { NO_INK_MASK_COVERAGE } from '../const/appConstants';
+import type { VectorPageResult } from '../models/appModels';
+
+// Một trang "8", một khoảng "2-5" hoặc khoảng mở tới cuối file "5-"
+const RANGE_PART_PATTERN = /^(\d+)(?:\s*-\s*(\d*))?$/;
+
+const splitParts = (text: string): string[] =>
+  text
+    .split(/[,;]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+/**
+ * Lỗi cú pháp của chuỗi khoảng trang, null nếu hợp lệ (chuỗi rỗng = mọi trang)
+ */
+export const pageRangeError = (text: string): string | null => {
+  for (const part of splitParts(text)) {
+    const match = part.match(RANGE_PART_PATTERN);
+    if (!match) return `Không hiểu khoảng trang "${part}", ví dụ hợp lệ: 2-5, 8`;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : Infinity;
+    if (start < 1) return 'Số trang bắt đầu từ 1';
+    if (end < start) return `Khoảng trang "${part}" bị ngược`;
+  }
+  return null;
+};
+
+/**
+ * Đọc chuỗi dạng "2-5, 8" (số trang từ 1) thành tập chỉ số trang (từ 0) có trong file.
+ * Chuỗi rỗng chọn mọi trang; trang vượt quá số trang của file bị bỏ qua.
+ */
+export const parsePageRange = (text: string, totalPages: number): Set<number> => {
+  const error = pageRangeError(text);
+  if (error) throw new Error(error);
+  const parts = splitParts(text);
+  if (!parts.length) return new Set(Array.from({ length: totalPages }, (_, index) => index));
+
+  const selected = new Set<number>();
+  for (const part of parts) {
+    const [, startText, endText] = part.match(RANGE_PART_PATTERN) ?? [];
+    const start = Number(startText);
+    const end = endText === undefined ? start : endText ? Number(endText) : totalPages;
+    for (let page = start; page <= Math.min(end, totalPages); page++) selected.add(page - 1);
+  }
+  return selected;
+};
+
+/**
+ * Trang không có nét chấm để giữ nguyên khi xuất: không gỡ được chú thích hay path nào và, với trang quét,
+ * vùng bị xóa gần như bằng không. Thiếu `maskCoverage` thì trang quét không được coi là sạch.
+ */
+export const isUnmarkedPage = (vectorPage: VectorPageResult | undefined, maskCoverage?: number): boolean => {
+  if (vectorPage && vectorPage.removedAnnotations + vectorPage.removedPaths > 0) return false;
+  return vectorPage?.kind === 'vector' || (maskCoverage ?? 1) < NO_INK_MASK_COVERAGE;
+};
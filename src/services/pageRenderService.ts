@@ -0,0 +1,186 @@
+import { AnnotationMode, ImageKind, OPS, type PDFDocumentProxy, type PDFPageProxy } from 'pdfjs-dist';
+import { MIN_SCAN_COVERAGE } from '../const/appConstants';
+import type { NativeScanPlacement } from '../models/appModels';
+
+// Trần số pixel một trang đưa vào pipeline (~A4 350 DPI): worker tốn ~40 byte mỗi pixel (bản sao RGBA,
+// mask từng stage, nhãn thành phần Int32...) nên ~500 MB một trang; vượt mức này thì render giảm DPI
+// và bỏ qua ảnh nhúng gốc. Số trang chạy song song do redRemovalPool giới hạn theo tổng pixel.
+export const MAX_PAGE_PIXELS = 12_000_000;
+
+const PDF_POINTS_PER_INCH = 72;
+
+type Matrix = [number, number, number, number, number, number];
+
+// Ảnh đã giải mã mà pdf.js gửi từ worker: ImageBitmap hoặc pixel thô theo ImageKind
+type DecodedPdfImage = {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+  bitmap?: ImageBitmap;
+};
+
+export type NativeScanImage = {
+  dataUrl: string;
+  placement: NativeScanPlacement;
+};
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+/**
+ * Tỉ lệ render theo DPI, giảm xuống khi trang vượt trần số pixel
+ */
+export const renderScaleFor = (page: PDFPageProxy, dpi: number): number => {
+  const base = page.getViewport({ scale: 1 });
+  const scale = dpi / PDF_POINTS_PER_INCH;
+  const pixels = base.width * base.height * scale * scale;
+  return pixels > MAX_PAGE_PIXELS ? scale * Math.sqrt(MAX_PAGE_PIXELS / pixels) : scale;
+};
+
+const canvasToDataUrl = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/png');
+
+/**
+ * Render một trang PDF thành PNG theo DPI (không nhân devicePixelRatio để kích thước ảnh cố định theo DPI)
+ */
+export async function renderPdfPageToImage(pdf: PDFDocumentProxy, pageNumber: number, dpi: number): Promise<string> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: renderScaleFor(page, dpi) });
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Không thể tạo canvas để render PDF');
+  }
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvasContext: ctx, viewport, canvas }).promise;
+  return canvasToDataUrl(canvas);
+}
+
+const decodedToRgba = (image: DecodedPdfImage): Uint8ClampedArray<ArrayBuffer> => {
+  const { width, height, data } = image;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  if (!data) return rgba;
+  if (image.kind === ImageKind.RGBA_32BPP) {
+    rgba.set(data.subarray(0, rgba.length));
+  } else if (image.kind === ImageKind.RGB_24BPP) {
+    for (let i = 0, o = 0; o < rgba.length; i += 3, o += 4) {
+      rgba[o] = data[i];
+      rgba[o + 1] = data[i + 1];
+      rgba[o + 2] = data[i + 2];
+      rgba[o + 3] = 255;
+    }
+  } else {
+    // GRAYSCALE_1BPP: bit 1 = trắng, mỗi hàng đệm đủ byte
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7)) ? 255 : 0;
+        const o = (y * width + x) * 4;
+        rgba[o] = value;
+        rgba[o + 1] = value;
+        rgba[o + 2] = value;
+        rgba[o + 3] = 255;
+      }
+    }
+  }
+  return rgba;
+};
+
+const decodedToDataUrl = (image: DecodedPdfImage): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Không thể tạo canvas để đọc ảnh nhúng');
+  // Nền trắng cho ảnh có kênh alpha (SMask) giống khi render trên trang
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, image.width, image.height);
+  if (image.bitmap) {
+    ctx.drawImage(image.bitmap, 0, 0);
+  } else {
+    const layer = document.createElement('canvas');
+    layer.width = image.width;
+    layer.height = image.height;
+    layer.getContext('2d')?.putImageData(new ImageData(decodedToRgba(image), image.width, image.height), 0, 0);
+    ctx.drawImage(layer, 0, 0);
+  }
+  return canvasToDataUrl(canvas);
+};
+
+const getDecodedImage = (page: PDFPageProxy, objId: string): Promise<DecodedPdfImage> =>
+  new Promise((resolve) => {
+    // Ảnh dùng chung giữa các trang nằm trong commonObjs (id bắt đầu bằng g_)
+    const objs = objId.startsWith('g_') ? page.commonObjs : page.objs;
+    objs.get(objId, resolve);
+  });
+
+/**
+ * Ảnh quét nhúng ở độ phân giải gốc nếu trang (không xoay) chỉ vẽ đúng một ảnh XObject đặt thẳng,
+ * phủ gần hết trang; ngược lại (nhiều ảnh, ảnh mask, xoay/lật, quá trần pixel) trả về null để render
+ */
+export async function extractNativeScanImage(page: PDFPageProxy): Promise<NativeScanImage | null> {
+  if (page.rotate % 360 !== 0) return null;
+  const { fnArray, argsArray } = await page.getOperatorList({ annotationMode: AnnotationMode.DISABLE });
+
+  const otherImageOps = new Set([
+    OPS.paintInlineImageXObject,
+    OPS.paintInlineImageXObjectGroup,
+    OPS.paintImageXObjectRepeat,
+    OPS.paintImageMaskXObject,
+    OPS.paintImageMaskXObjectGroup,
+    OPS.paintImageMaskXObjectRepeat,
+    OPS.paintSolidColorImageMask,
+  ]);
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  let found: { objId: string; ctm: Matrix } | null = null;
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const fn = fnArray[i];
+    const args = argsArray[i] as unknown[] | null;
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = multiply(ctm, args as Matrix);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      const matrix = args?.[0] as Matrix | null;
+      if (matrix) ctm = multiply(ctm, matrix);
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.paintImageXObject) {
+      if (found) return null;
+      found = { objId: args?.[0] as string, ctm };
+    } else if (otherImageOps.has(fn)) {
+      return null;
+    }
+  }
+  if (!found) return null;
+
+  const [a, b, c, d, e, f] = found.ctm;
+  if (a <= 0 || d <= 0 || Math.abs(b) > a * 1e-3 || Math.abs(c) > d * 1e-3) return null;
+  const [viewX0, viewY0, viewX1, viewY1] = page.view;
+  const overlapX = Math.max(0, Math.min(e + a, viewX1) - Math.max(e, viewX0));
+  const overlapY = Math.max(0, Math.min(f + d, viewY1) - Math.max(f, viewY0));
+  if (overlapX * overlapY < MIN_SCAN_COVERAGE * (viewX1 - viewX0) * (viewY1 - viewY0)) return null;
+
+  const image = await getDecodedImage(page, found.objId);
+  if (!image?.width || !image.height || image.width * image.height > MAX_PAGE_PIXELS) return null;
+  return {
+    dataUrl: decodedToDataUrl(image),
+    placement: { x: e, y: f, width: a, height: d, pixelWidth: image.width, pixelHeight: image.height },
+  };
+}
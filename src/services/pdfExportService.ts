@@ -0,0 +1,531 @@
+import {
+  beginText,
+  concatTransformationMatrix,
+  degrees,
+  drawImage,
+  endText,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObjectCopier,
+  PDFRef,
+  PDFString,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  TextRenderingMode,
+  type PDFObject,
+  type PDFPage,
+} from 'pdf-lib';
+import type { ExportColorMode, ExportSettings, NativeScanPlacement, OcrPageResult } from '../models/appModels';
+import { encodePageImage, type PageImageEncoding } from './exportImageService';
+import { findPageScanImage, setPageXObject } from './vectorPdfService';
+
+// Trang xuất: ảnh (kết quả raster, chỉnh tay hoặc bản gốc), trang cùng vị trí trong PDF đã gỡ nét chấm
+// vector, hoặc trang chép nguyên từ PDF gốc. `ocr` có thì nhúng thêm lớp chữ ẩn khớp vị trí trên ảnh;
+// `native` là ảnh quét nhúng xử lý ở độ phân giải gốc, được thay thẳng vào XObject ảnh của trang.
+export type OutputPage =
+  | { kind: 'image'; source: string; ocr?: OcrPageResult; native?: NativeScanPlacement }
+  | { kind: 'vector' }
+  | { kind: 'original' };
+
+// PDF gốc và bản đã gỡ nét chấm vector (null nếu file không có trang vector)
+export type OutputPdfSources = {
+  original: ArrayBuffer | Uint8Array | null;
+  cleaned: ArrayBuffer | Uint8Array | null;
+};
+
+// Giới hạn độ sâu khi duyệt outline/name tree để file lỗi (vòng lặp) không treo trình duyệt
+const MAX_TREE_DEPTH = 32;
+
+export type ExportResult = {
+  bytes: Uint8Array;
+  encoding: PageImageEncoding;
+  // false khi đã thử mọi mức nén mà vẫn vượt dung lượng mục tiêu
+  withinTarget: boolean;
+};
+
+const DEFAULT_ENCODING: PageImageEncoding = { colorMode: 'color', format: 'png', quality: 0.92, scale: 1 };
+
+// Các mức nén khi có dung lượng mục tiêu, từ chất lượng cao nhất tới file nhỏ nhất
+const TARGET_SIZE_LADDER: PageImageEncoding[] = [
+  { colorMode: 'color', format: 'png', quality: 1, scale: 1 },
+  { colorMode: 'color', format: 'jpeg', quality: 0.9, scale: 1 },
+  { colorMode: 'color', format: 'jpeg', quality: 0.75, scale: 1 },
+  { colorMode: 'color', format: 'jpeg', quality: 0.6, scale: 1 },
+  { colorMode: 'grayscale', format: 'jpeg', quality: 0.75, scale: 1 },
+  { colorMode: 'grayscale', format: 'jpeg', quality: 0.6, scale: 1 },
+  { colorMode: 'bilevel', format: 'png', quality: 1, scale: 1 },
+  { colorMode: 'grayscale', format: 'jpeg', quality: 0.6, scale: 0.7 },
+  { colorMode: 'bilevel', format: 'png', quality: 1, scale: 0.7 },
+  { colorMode: 'bilevel', format: 'png', quality: 1, scale: 0.5 },
+];
+
+const COLOR_MODE_RANK: Record<ExportColorMode, number> = { color: 0, grayscale: 1, bilevel: 2 };
+
+type EmbeddedPageImage = { ref: PDFRef; sourceWidth: number; sourceHeight: number };
+
+const embedImage = async (pdfDoc: PDFDocument, source: string, encoding: PageImageEncoding): Promise<EmbeddedPageImage> => {
+  const encoded = await encodePageImage(source, encoding);
+  const { sourceWidth, sourceHeight } = encoded;
+  if (encoded.kind === 'gray') {
+    const stream = pdfDoc.context.flateStream(encoded.pixels, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: encoded.width,
+      Height: encoded.height,
+      ColorSpace: 'DeviceGray',
+      BitsPerComponent: encoded.bitsPerComponent,
+    });
+    return { ref: pdfDoc.context.register(stream), sourceWidth, sourceHeight };
+  }
+  const image = encoded.kind === 'png' ? await pdfDoc.embedPng(encoded.bytes) : await pdfDoc.embedJpg(encoded.bytes);
+  // Ghi stream ngay: ảnh thay vào PDF nguồn phải có sẵn trước khi copyPages
+  await image.embed();
+  return { ref: image.ref, sourceWidth, sourceHeight };
+};
+
+type ImagePlacement = { x: number; y: number; width: number; height: number; rotation: number };
+
+// Font lớp chữ OCR: mỗi ký tự là một CID bằng mã UTF-16 của nó, rộng 1/2 em
+const TEXT_LAYER_CHAR_WIDTH = 0.5;
+
+const textLayerCMap = (): string => {
+  // bfrange không được vượt qua byte cao nên chia 256 dải, mỗi khối tối đa 100 dải
+  const ranges = Array.from({ length: 256 }, (_, high) => {
+    const hex = high.toString(16).padStart(2, '0').toUpperCase();
+    return `<${hex}00> <${hex}FF> <${hex}00>`;
+  });
+  const blocks: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const chunk = ranges.slice(i, i + 100);
+    blocks.push(`${chunk.length} beginbfrange\n${chunk.join('\n')}\nendbfrange`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+/**
+ * Font Type0 không có glyph cho lớp chữ ẩn (giống cách Tesseract dựng PDF): chữ vẽ ở chế độ 3 nên không
+ * cần hình chữ, ToUnicode ánh xạ thẳng CID sang Unicode để tìm kiếm/chép được cả tiếng Việt có dấu
+ */
+const embedTextLayerFont = (pdfDoc: PDFDocument): PDFRef => {
+  const { context } = pdfDoc;
+  const descriptor = context.register(
+    context.obj({
+      Type: 'FontDescriptor',
+      FontName: 'GlyphLessFont',
+      Flags: 5,
+      FontBBox: [0, 0, TEXT_LAYER_CHAR_WIDTH * 1000, 1000],
+      ItalicAngle: 0,
+      Ascent: 1000,
+      Descent: 0,
+      CapHeight: 1000,
+      StemV: 80,
+    })
+  );
+  const cidFont = context.register(
+    context.obj({
+      Type: 'Font',
+      Subtype: 'CIDFontType2',
+      BaseFont: 'GlyphLessFont',
+      CIDSystemInfo: { Registry: PDFString.of('Adobe'), Ordering: PDFString.of('Identity'), Supplement: 0 },
+      FontDescriptor: descriptor,
+      DW: TEXT_LAYER_CHAR_WIDTH * 1000,
+      CIDToGIDMap: 'Identity',
+    })
+  );
+  return context.register(
+    context.obj({
+      Type: 'Font',
+      Subtype: 'Type0',
+      BaseFont: 'GlyphLessFont',
+      Encoding: 'Identity-H',
+      DescendantFonts: [cidFont],
+      ToUnicode: context.register(context.flateStream(textLayerCMap())),
+    })
+  );
+};
+
+const encodeTextLayerText = (text: string): PDFHexString =>
+  PDFHexString.of(
+    Array.from(text)
+      // Ký tự ngoài BMP không có CID 2 byte tương ứng
+      .filter((char) => (char.codePointAt(0) ?? 0) <= 0xffff)
+      .map((char) => char.charCodeAt(0).toString(16).padStart(4, '0'))
+      .join('')
+  );
+
+/**
+ * Vẽ lớp chữ OCR ẩn theo cùng phép biến đổi với ảnh trang: mỗi từ co giãn ngang cho khớp khung bao
+ */
+const drawTextLayer = (page: PDFPage, fontRef: PDFRef, ocr: OcrPageResult, placement: ImagePlacement) => {
+  if (!ocr.words.length || !ocr.width || !ocr.height) return;
+  const fontName = page.node.newFontDictionary('OcrText', fontRef);
+  const angle = (placement.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const operators = [
+    pushGraphicsState(),
+    concatTransformationMatrix(cos, sin, -sin, cos, placement.x, placement.y),
+    // Về hệ toạ độ pixel ảnh, gốc ở góc dưới trái
+    concatTransformationMatrix(placement.width / ocr.width, 0, 0, placement.height / ocr.height, 0, 0),
+    beginText(),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+  ];
+  for (const word of ocr.words) {
+    // Dấu cách cuối từ để trình đọc PDF tách từ khi chép chữ
+    const text = `${word.text} `;
+    const size = word.y1 - word.y0;
+    const width = word.x1 - word.x0;
+    const chars = Array.from(text).length;
+    if (size <= 0 || width <= 0) continue;
+    operators.push(
+      setFontAndSize(fontName, size),
+      setCharacterSqueeze((100 * width) / (chars * TEXT_LAYER_CHAR_WIDTH * size)),
+      setTextMatrix(1, 0, 0, 1, word.x0, ocr.height - word.y1),
+      showText(encodeTextLayerText(text))
+    );
+  }
+  operators.push(endText(), popGraphicsState());
+  page.pushOperators(...operators);
+};
+
+const placeImage = (page: PDFPage, image: EmbeddedPageImage, placement: ImagePlacement) => {
+  const name = page.node.newXObject('Image', image.ref);
+  page.pushOperators(
+    ...drawImage(name, {
+      x: placement.x,
+      y: placement.y,
+      width: placement.width,
+      height: placement.height,
+      rotate: degrees(placement.rotation),
+      xSkew: degrees(0),
+      ySkew: degrees(0),
+    })
+  );
+};
+
+/**
+ * Vị trí ảnh trang (đã render theo hướng hiển thị) vừa khít CropBox của trang, bù lại /Rotate
+ * để trang giữ nguyên hướng xoay gốc mà vẫn hiển thị đúng chiều
+ */
+const pageImagePlacement = (page: PDFPage): ImagePlacement => {
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const rotated = rotation === 90 || rotation === 270;
+  const width = rotated ? box.height : box.width;
+  const height = rotated ? box.width : box.height;
+  // Ảnh xoay ngược chiều kim đồng hồ quanh góc (x, y), góc này nằm ở góc tương ứng của CropBox
+  const origin: Record<number, { x: number; y: number }> = {
+    90: { x: box.x + box.width, y: box.y },
+    180: { x: box.x + box.width, y: box.y + box.height },
+    270: { x: box.x, y: box.y + box.height },
+  };
+  return { ...(origin[rotation] ?? { x: box.x, y: box.y }), width, height, rotation };
+};
+
+const decodeTextObject = (value: PDFObject | undefined): string | undefined =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+
+/**
+ * Tìm giá trị theo khóa trong name tree (Names/Kids), dùng cho named destination
+ */
+const lookupNameTree = (source: PDFDocument, node: PDFDict | undefined, key: string, depth = 0): PDFObject | undefined => {
+  if (!node || depth > MAX_TREE_DEPTH) return undefined;
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  for (let i = 0; names && i + 1 < names.size(); i += 2) {
+    if (decodeTextObject(names.lookup(i)) === key) return names.get(i + 1);
+  }
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  for (let i = 0; kids && i < kids.size(); i++) {
+    const found = lookupNameTree(source, kids.lookupMaybe(i, PDFDict), key, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+/**
+ * Destination của mục outline dạng mảng tường minh [trang ...] trong PDF nguồn
+ */
+const resolveDestination = (source: PDFDocument, item: PDFDict): PDFArray | undefined => {
+  let dest = item.get(PDFName.of('Dest'));
+  const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+  if (!dest && action?.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText() === 'GoTo') {
+    dest = action.get(PDFName.of('D'));
+  }
+  let resolved = dest ? source.context.lookup(dest) : undefined;
+  if (resolved instanceof PDFName) {
+    resolved = source.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)?.get(resolved);
+  } else if (resolved instanceof PDFString || resolved instanceof PDFHexString) {
+    const names = source.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    resolved = lookupNameTree(source, names?.lookupMaybe(PDFName.of('Dests'), PDFDict), resolved.decodeText());
+  }
+  resolved = resolved ? source.context.lookup(resolved) : undefined;
+  if (resolved instanceof PDFDict) resolved = resolved.lookup(PDFName.of('D'));
+  return resolved instanceof PDFArray ? resolved : undefined;
+};
+
+/**
+ * Chép cây outline (bookmark) sang PDF mới, trỏ destination sang trang tương ứng.
+ * Mục trỏ tới trang không còn trong file vẫn giữ tiêu đề nhưng không có đích.
+ */
+const copyOutline = (source: PDFDocument, target: PDFDocument, pageRefs: Map<PDFRef, PDFRef>) => {
+  const outlines = source.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  if (!outlines) return;
+  const { context } = target;
+  const visited = new Set<PDFDict>();
+
+  const copyLevel = (first: PDFObject | undefined, parentRef: PDFRef, depth: number): PDFRef[] => {
+    const refs: PDFRef[] = [];
+    const dicts: PDFDict[] = [];
+    let item = first ? source.context.lookupMaybe(first, PDFDict) : undefined;
+    while (item && !visited.has(item) && depth <= MAX_TREE_DEPTH) {
+      visited.add(item);
+      const ref = context.nextRef();
+      const dict = context.obj({ Parent: parentRef });
+      dict.set(PDFName.of('Title'), PDFHexString.fromText(decodeTextObject(item.lookup(PDFName.of('Title'))) ?? ''));
+
+      const dest = resolveDestination(source, item);
+      const pageRef = dest?.get(0);
+      const targetPage = pageRef instanceof PDFRef ? pageRefs.get(pageRef) : undefined;
+      if (dest && targetPage) {
+        dict.set(PDFName.of('Dest'), context.obj([targetPage, ...dest.asArray().slice(1).map((value) => value.clone())]));
+      } else {
+        const uri = item.lookupMaybe(PDFName.of('A'), PDFDict)?.get(PDFName.of('URI'));
+        if (uri instanceof PDFString || uri instanceof PDFHexString) {
+          dict.set(PDFName.of('A'), context.obj({ S: 'URI', URI: uri.clone() }));
+        }
+      }
+      for (const key of ['C', 'F', 'Count']) {
+        const value = item.lookup(PDFName.of(key));
+        if (value instanceof PDFArray || value instanceof PDFNumber) dict.set(PDFName.of(key), value.clone(context));
+      }
+
+      const children = copyLevel(item.get(PDFName.of('First')), ref, depth + 1);
+      if (children.length) {
+        dict.set(PDFName.of('First'), children[0]);
+        dict.set(PDFName.of('Last'), children[children.length - 1]);
+      } else {
+        dict.delete(PDFName.of('Count'));
+      }
+      refs.push(ref);
+      dicts.push(dict);
+      item = source.context.lookupMaybe(item.get(PDFName.of('Next')), PDFDict);
+    }
+
+    dicts.forEach((dict, index) => {
+      if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1]);
+      if (index < refs.length - 1) dict.set(PDFName.of('Next'), refs[index + 1]);
+      context.assign(refs[index], dict);
+    });
+    return refs;
+  };
+
+  const rootRef = context.nextRef();
+  const items = copyLevel(outlines.get(PDFName.of('First')), rootRef, 0);
+  if (!items.length) return;
+  context.assign(rootRef, context.obj({ Type: 'Outlines', First: items[0], Last: items[items.length - 1], Count: items.length }));
+  target.catalog.set(PDFName.of('Outlines'), rootRef);
+};
+
+/**
+ * Chép thông tin tài liệu (tiêu đề, tác giả...), ngôn ngữ, nhãn trang và chế độ hiển thị
+ */
+const copyDocumentInfo = (source: PDFDocument, target: PDFDocument) => {
+  const title = source.getTitle();
+  const author = source.getAuthor();
+  const subject = source.getSubject();
+  const keywords = source.getKeywords();
+  const creator = source.getCreator();
+  const creationDate = source.getCreationDate();
+  if (title) target.setTitle(title);
+  if (author) target.setAuthor(author);
+  if (subject) target.setSubject(subject);
+  if (keywords) target.setKeywords([keywords]);
+  if (creator) target.setCreator(creator);
+  if (creationDate) target.setCreationDate(creationDate);
+
+  // Nhãn trang (i, ii, 1, 2...) chỉ dùng chỉ số trang nên chép nguyên được
+  const copier = PDFObjectCopier.for(source.context, target.context);
+  for (const key of ['Lang', 'PageLabels', 'PageMode', 'PageLayout']) {
+    const value = source.catalog.get(PDFName.of(key));
+    if (value) target.catalog.set(PDFName.of(key), copier.copy(value));
+  }
+};
+
+const loadSourcePdf = async (data: ArrayBuffer | Uint8Array | null): Promise<PDFDocument | null> => {
+  if (!data) return null;
+  try {
+    return await PDFDocument.load(data, { updateMetadata: false });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Dựng PDF kết quả. Khi đọc được PDF nguồn (cùng số trang), mỗi trang giữ MediaBox/CropBox, /Rotate
+ * của trang gốc với ảnh đã làm sạch co vừa trang; outline, nhãn trang và thông tin tài liệu được chép sang.
+ * Trang `vector` lấy từ PDF đã gỡ nét chấm, trang `original` chép nguyên (nội dung, tài nguyên, chú thích)
+ * từ PDF gốc. Không có nguồn thì mỗi trang ảnh có kích thước bằng ảnh như trước.
+ * Trang ảnh có kết quả OCR được phủ thêm lớp chữ ẩn.
+ */
+export async function buildOutputPdf(
+  pages: OutputPage[],
+  sources: OutputPdfSources,
+  encoding: PageImageEncoding = DEFAULT_ENCODING
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const withPageCount = (doc: PDFDocument | null) => (doc?.getPageCount() === pages.length ? doc : null);
+  const original = withPageCount(await loadSourcePdf(sources.original));
+  const cleaned = withPageCount(await loadSourcePdf(sources.cleaned));
+  // Trang ảnh chỉ cần khung trang nên lấy từ bất kỳ bản nào đọc được; trang thay ảnh nhúng giữ lại nội dung
+  // nên ưu tiên bản đã gỡ chú thích
+  const sourceFor = (page: OutputPage): PDFDocument | null => {
+    if (page.kind === 'vector') return cleaned;
+    if (page.kind === 'original') return original;
+    return page.native ? cleaned ?? original : original ?? cleaned;
+  };
+  let textLayerFont: PDFRef | null = null;
+  const drawImagePage = async (outputPage: OutputPage & { kind: 'image' }, target: PDFPage | null) => {
+    const embedded = await embedImage(pdfDoc, outputPage.source, encoding);
+    const { sourceWidth: width, sourceHeight: height } = embedded;
+    // Không có trang nguồn thì trang mới có kích thước bằng ảnh
+    const page = target ?? pdfDoc.addPage([width, height]);
+    const placement = target ? pageImagePlacement(target) : { x: 0, y: 0, width, height, rotation: 0 };
+    placeImage(page, embedded, placement);
+    drawOcrLayer(page, outputPage, placement);
+  };
+  const drawOcrLayer = (page: PDFPage, outputPage: OutputPage & { kind: 'image' }, placement: ImagePlacement) => {
+    if (!outputPage.ocr) return;
+    textLayerFont ??= embedTextLayerFont(pdfDoc);
+    drawTextLayer(page, textLayerFont, outputPage.ocr, placement);
+  };
+
+  const base = original ?? cleaned;
+  if (!base || pages.some((page) => !sourceFor(page))) {
+    if (pages.some((page) => page.kind !== 'image')) {
+      throw new Error('Không đọc được PDF nguồn để xuất các trang vector/trang giữ nguyên');
+    }
+    for (const outputPage of pages) {
+      if (outputPage.kind === 'image') await drawImagePage(outputPage, null);
+    }
+  } else {
+    // Ảnh quét gốc: thay ảnh đã làm sạch vào XObject của trang nguồn, giữ nguyên content stream
+    const replacedInPlace = new Set<number>();
+    for (const [index, outputPage] of pages.entries()) {
+      if (outputPage.kind !== 'image' || !outputPage.native) continue;
+      const source = sourceFor(outputPage) as PDFDocument;
+      const page = source.getPage(index);
+      const scanName = findPageScanImage(page);
+      if (!scanName) continue;
+      setPageXObject(page, scanName, (await embedImage(source, outputPage.source, encoding)).ref);
+      replacedInPlace.add(index);
+    }
+
+    // Trang thay bằng ảnh: bỏ nội dung, tài nguyên và chú thích cũ để copyPages không kéo theo ảnh quét gốc
+    pages.forEach((outputPage, index) => {
+      if (outputPage.kind !== 'image' || replacedInPlace.has(index)) return;
+      const source = sourceFor(outputPage) as PDFDocument;
+      const { node } = source.getPage(index);
+      node.delete(PDFName.of('Contents'));
+      node.delete(PDFName.of('Annots'));
+      node.set(PDFName.of('Resources'), source.context.obj({}));
+    });
+
+    // Chép theo từng PDF nguồn rồi thêm lại đúng thứ tự trang
+    const copied = new Array<PDFPage>(pages.length);
+    for (const source of new Set(pages.map((page) => sourceFor(page) as PDFDocument))) {
+      const indices = pages.flatMap((page, index) => (sourceFor(page) === source ? [index] : []));
+      const copies = await pdfDoc.copyPages(source, indices);
+      indices.forEach((pageIndex, position) => {
+        copied[pageIndex] = copies[position];
+      });
+    }
+    const basePages = base.getPages();
+    const pageRefs = new Map<PDFRef, PDFRef>();
+    for (let index = 0; index < pages.length; index++) {
+      const outputPage = pages[index];
+      const page = pdfDoc.addPage(copied[index]);
+      pageRefs.set(basePages[index].ref, page.ref);
+      if (outputPage.kind !== 'image') continue;
+      if (replacedInPlace.has(index) && outputPage.native) {
+        if (outputPage.ocr) {
+          // Content gốc có thể để lại phép biến đổi chưa đóng, bọc lại trong q/Q trước khi vẽ lớp chữ
+          const { context } = pdfDoc;
+          page.node.wrapContentStreams(
+            context.register(context.contentStream([pushGraphicsState()])),
+            context.register(context.contentStream([popGraphicsState()]))
+          );
+        }
+        drawOcrLayer(page, outputPage, { ...outputPage.native, rotation: 0 });
+      } else {
+        await drawImagePage(outputPage, page);
+      }
+    }
+
+    copyDocumentInfo(base, pdfDoc);
+    copyOutline(base, pdfDoc, pageRefs);
+  }
+
+  const pdfBytes = await pdfDoc.save();
+  const pdfBytesCopy = new Uint8Array(pdfBytes.byteLength);
+  pdfBytesCopy.set(pdfBytes);
+  return pdfBytesCopy;
+}
+
+/**
+ * Xuất PDF theo cài đặt nén. Có dung lượng mục tiêu thì thử lần lượt các mức nén (không vượt chế độ màu
+ * đã chọn) và lấy mức đầu tiên vừa dung lượng; không mức nào vừa thì trả về file nhỏ nhất.
+ */
+export async function exportPdf(
+  pages: OutputPage[],
+  sources: OutputPdfSources,
+  settings: ExportSettings
+): Promise<ExportResult> {
+  const targetBytes = settings.targetSizeMb === null ? Infinity : settings.targetSizeMb * 1024 * 1024;
+  // Không có trang ảnh thì nén ảnh không đổi được dung lượng
+  if (settings.targetSizeMb === null || !pages.some((page) => page.kind === 'image')) {
+    const encoding: PageImageEncoding = {
+      colorMode: settings.colorMode,
+      format: settings.format,
+      quality: settings.jpegQuality,
+      scale: 1,
+    };
+    const bytes = await buildOutputPdf(pages, sources, encoding);
+    return { bytes, encoding, withinTarget: bytes.length <= targetBytes };
+  }
+
+  const ladder = TARGET_SIZE_LADDER.filter(
+    (encoding) => COLOR_MODE_RANK[encoding.colorMode] >= COLOR_MODE_RANK[settings.colorMode]
+  );
+  let smallest: ExportResult | null = null;
+  for (const encoding of ladder) {
+    const bytes = await buildOutputPdf(pages, sources, encoding);
+    if (bytes.length <= targetBytes) return { bytes, encoding, withinTarget: true };
+    if (!smallest || bytes.length < smallest.bytes.length) smallest = { bytes, encoding, withinTarget: false };
+  }
+  // Ladder luôn có ít nhất các mức đen trắng nên smallest đã có giá trị
+  return smallest as ExportResult;
+}
@@ -0,0 +1,94 @@
+import type { LabColor } from '../../models/appModels';
+
+export function rgbToHsv(r: number, g: number, b: number): { h: number; s: number; v: number } {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  let h = 0;
+  if (delta !== 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h *= 60;
+    if (h < 0) h += 360;
+  }
+
+  const s = max === 0 ? 0 : delta / max;
+  const v = max;
+  return { h, s, v };
+}
+
+export function inHueRange(h: number, a: number, b: number): boolean {
+  // if a <= b normal range; else wraps around 360
+  if (a <= b) return h >= a && h <= b;
+  return h >= a || h <= b;
+}
+
+/**
+ * sRGB (0..255) sang CIELAB, điểm trắng D65
+ */
+export function rgbToLab(r: number, g: number, b: number): LabColor {
+  const lr = srgbToLinear(r / 255);
+  const lg = srgbToLinear(g / 255);
+  const lb = srgbToLinear(b / 255);
+
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / 1.08883;
+
+  const fx = labPivot(x);
+  const fy = labPivot(y);
+  const fz = labPivot(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labToRgb([l, a, bValue]: LabColor): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - bValue / 200;
+  const x = labPivotInverse(fx) * 0.95047;
+  const y = labPivotInverse(fy);
+  const z = labPivotInverse(fz) * 1.08883;
+
+  const lr = x * 3.2404542 - y * 1.5371385 - z * 0.4985314;
+  const lg = -x * 0.969266 + y * 1.8760108 + z * 0.041556;
+  const lb = x * 0.0556434 - y * 0.2040259 + z * 1.0572252;
+  return [linearToSrgbByte(lr), linearToSrgbByte(lg), linearToSrgbByte(lb)];
+}
+
+/**
+ * Khoảng cách màu ΔE (CIE76)
+ */
+export function deltaE(a: LabColor, b: LabColor): number {
+  const dl = a[0] - b[0];
+  const da = a[1] - b[1];
+  const db = a[2] - b[2];
+  return Math.sqrt(dl * dl + da * da + db * db);
+}
+
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgbByte(c: number): number {
+  const clamped = Math.max(0, Math.min(1, c));
+  const s = clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055;
+  return Math.round(s * 255);
+}
+
+function labPivot(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (t * 24389) / 27 / 116 + 16 / 116;
+}
+
+function labPivotInverse(t: number): number {
+  const cube = t * t * t;
+  return cube > 216 / 24389 ? cube : ((t - 16 / 116) * 116 * 27) / 24389;
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.replace(/./g, (c) => c + c) : value.padEnd(6, '0');
+  const n = parseInt(full.slice(0, 6), 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { rectMask } from '../../test/pixels';
+import { classifyComponents, labelComponents } from './components';
+import type { Mask } from './types';
+
+const SIZE = 100;
+
+// Nét chéo viết tay: dày mỏng không đều
+const strokeMask = (): Mask => {
+  const mask = new Uint8Array(SIZE * SIZE);
+  for (let i = 0; i < 30; i++) {
+    const thickness = 1 + (i % 7 < 3 ? 3 : 0);
+    for (let t = 0; t < thickness; t++) mask[(40 + i) * SIZE + 10 + i + t] = 255;
+  }
+  return mask;
+};
+
+const kindAt = (mask: Mask, x: number, y: number) =>
+  classifyComponents(mask, SIZE, SIZE).find((c) => c.pixels.includes(y * SIZE + x))?.kind;
+
+describe('labelComponents', () => {
+  it('nối pixel chéo nhau (8 hướng) và tách các cụm rời', () => {
+    const mask = new Uint8Array(5 * 5);
+    mask[0] = 255;
+    mask[6] = 255;
+    mask[12] = 255;
+    mask[4] = 255;
+
+    const components = labelComponents(mask, 5, 5);
+
+    expect(components).toHaveLength(2);
+    expect(components[0].area).toBe(3);
+    expect(components[0].bbox).toEqual({ x: 0, y: 0, width: 3, height: 3 });
+    expect(components[1].area).toBe(1);
+  });
+});
+
+describe('classifyComponents', () => {
+  it('đường kẻ ngang dài là rule-line', () => {
+    expect(kindAt(rectMask(SIZE, SIZE, [[5, 20, 90, 2]]), 50, 20)).toBe('rule-line');
+  });
+
+  it('đường kẻ quá ngắn không được giữ', () => {
+    expect(kindAt(rectMask(SIZE, SIZE, [[5, 20, 10, 2]]), 8, 20)).toBe('annotation');
+  });
+
+  it('viền chữ nhật lớn là frame', () => {
+    const mask = rectMask(SIZE, SIZE, [
+      [20, 20, 60, 2],
+      [20, 78, 60, 2],
+      [20, 20, 2, 60],
+      [78, 20, 2, 60],
+    ]);
+    expect(kindAt(mask, 20, 50)).toBe('frame');
+  });
+
+  it('nét viết tay là annotation', () => {
+    expect(kindAt(strokeMask(), 10, 40)).toBe('annotation');
+  });
+
+  it('hàng ký tự cùng chiều cao và đường chân chữ là printed-text', () => {
+    const glyphs: [number, number, number, number][] = Array.from({ length: 6 }, (_, i) => [10 + i * 6, 85, 3, 5]);
+    const mask = rectMask(SIZE, SIZE, glyphs);
+    const kinds = classifyComponents(mask, SIZE, SIZE).map((c) => c.kind);
+
+    expect(kinds).toEqual(Array(6).fill('printed-text'));
+  });
+
+  it('ít ký tự hơn một hàng chữ in thì vẫn là annotation', () => {
+    const mask = rectMask(SIZE, SIZE, [
+      [10, 85, 3, 5],
+      [16, 85, 3, 5],
+    ]);
+    expect(classifyComponents(mask, SIZE, SIZE).every((c) => c.kind === 'annotation')).toBe(true);
+  });
+});
@@ -0,0 +1,324 @@
+import type { BoundingBox, LayoutComponentDecision, LayoutComponentKind } from '../../models/appModels';
+import type { Mask } from './types';
+
+export type MaskComponent = {
+  id: number;
+  area: number;
+  bbox: BoundingBox;
+  // Chỉ số pixel (y * width + x) thuộc thành phần
+  pixels: Int32Array;
+};
+
+export type ComponentFeatures = {
+  // 0..1, 1 = thẳng tuyệt đối (tỉ lệ trị riêng PCA)
+  linearity: number;
+  // Góc trục chính so với trục ngang (độ, 0..90)
+  angle: number;
+  // Độ rộng nét trung vị (pixel)
+  strokeWidth: number;
+  // Hệ số biến thiên độ rộng nét (MAD/median), càng nhỏ càng đều
+  strokeWidthCv: number;
+  // Tỉ lệ pixel nằm sát cạnh bbox (khung chữ nhật ~1)
+  borderRatio: number;
+};
+
+export type ClassifiedComponent = MaskComponent & {
+  features: ComponentFeatures;
+  kind: LayoutComponentKind;
+  reason: string;
+};
+
+// Ngưỡng phân loại, tính theo tỉ lệ kích thước trang
+const LINE_MIN_LENGTH_RATIO = 0.2;
+const LINE_MIN_LINEARITY = 0.985;
+const LINE_MAX_ANGLE = 2;
+const FRAME_MIN_SPAN_RATIO = 0.2;
+const FRAME_MIN_BORDER_RATIO = 0.85;
+const UNIFORM_STROKE_MAX_CV = 0.35;
+const TEXT_ROW_MIN_MEMBERS = 5;
+const TEXT_MAX_HEIGHT_RATIO = 0.06;
+const TEXT_ROW_MAX_HEIGHT_CV = 0.25;
+const TEXT_ROW_MAX_STROKE_CV = 0.3;
+const MIN_COMPONENT_AREA = 4;
+
+/**
+ * Gán nhãn thành phần liên thông (8 hướng) trên mask
+ */
+export function labelComponents(mask: Mask, width: number, height: number): MaskComponent[] {
+  const labels = new Int32Array(width * height);
+  const stack = new Int32Array(width * height);
+  const components: MaskComponent[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const id = components.length + 1;
+    const pixels: number[] = [];
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = id;
+
+    while (top > 0) {
+      const idx = stack[--top];
+      pixels.push(idx);
+      const x = idx % width;
+      const y = (idx - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+          const nIdx = ny * width + nx;
+          if (!mask[nIdx] || labels[nIdx]) continue;
+          labels[nIdx] = id;
+          stack[top++] = nIdx;
+        }
+      }
+    }
+
+    components.push({
+      id,
+      area: pixels.length,
+      bbox: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+      pixels: Int32Array.from(pixels),
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Phân loại thành phần của mask đỏ: bố cục in sẵn (đường kẻ, khung, chữ in) được giữ,
+ * nét viết tay của giáo viên bị xóa
+ */
+export function classifyComponents(mask: Mask, width: number, height: number): ClassifiedComponent[] {
+  const components = labelComponents(mask, width, height).filter((c) => c.area >= MIN_COMPONENT_AREA);
+  const strokeMap = computeStrokeWidthMap(mask, width, height);
+
+  const classified: ClassifiedComponent[] = components.map((component) => {
+    const features = computeFeatures(component, width, strokeMap);
+    return { ...component, features, ...classifySingle(component, features, width, height) };
+  });
+
+  markPrintedTextRows(classified, height);
+  return classified;
+}
+
+export function toDecision(component: ClassifiedComponent): LayoutComponentDecision {
+  return {
+    bbox: component.bbox,
+    area: component.area,
+    kind: component.kind,
+    kept: component.kind !== 'annotation',
+    reason: component.reason,
+  };
+}
+
+function classifySingle(
+  component: MaskComponent,
+  features: ComponentFeatures,
+  width: number,
+  height: number
+): { kind: LayoutComponentKind; reason: string } {
+  const { bbox } = component;
+  const uniform = features.strokeWidthCv <= UNIFORM_STROKE_MAX_CV;
+  const axisAligned = features.angle <= LINE_MAX_ANGLE || features.angle >= 90 - LINE_MAX_ANGLE;
+  const length = Math.max(bbox.width, bbox.height);
+  const pageSpan = bbox.width >= bbox.height ? width : height;
+
+  if (
+    features.linearity >= LINE_MIN_LINEARITY &&
+    axisAligned &&
+    uniform &&
+    length >= pageSpan * LINE_MIN_LENGTH_RATIO
+  ) {
+    return {
+      kind: 'rule-line',
+      reason: `Đường kẻ thẳng song song mép trang (dài ${Math.round((length / pageSpan) * 100)}% trang, lệch ${features.angle.toFixed(1)}°)`,
+    };
+  }
+
+  if (
+    bbox.width >= width * FRAME_MIN_SPAN_RATIO &&
+    bbox.height >= height * FRAME_MIN_SPAN_RATIO &&
+    features.borderRatio >= FRAME_MIN_BORDER_RATIO &&
+    uniform
+  ) {
+    return {
+      kind: 'frame',
+      reason: `Khung chữ nhật in sẵn (${Math.round(features.borderRatio * 100)}% pixel nằm trên viền)`,
+    };
+  }
+
+  return {
+    kind: 'annotation',
+    reason: !uniform
+      ? 'Độ rộng nét không đều (viết tay)'
+      : features.linearity < LINE_MIN_LINEARITY
+        ? 'Nét cong/không thẳng'
+        : 'Không khớp mẫu bố cục in sẵn',
+  };
+}
+
+/**
+ * Chữ in (tiêu đề đỏ) gồm nhiều ký tự cùng chiều cao, cùng đường chân chữ và nét đều.
+ * Nét chấm tay hiếm khi xếp thành hàng như vậy.
+ */
+function markPrintedTextRows(components: ClassifiedComponent[], height: number) {
+  const candidates = components
+    .filter((c) => c.kind === 'annotation' && c.bbox.height <= height * TEXT_MAX_HEIGHT_RATIO)
+    .sort((a, b) => a.bbox.y + a.bbox.height - (b.bbox.y + b.bbox.height));
+
+  const used = new Set<number>();
+  for (const seed of candidates) {
+    if (used.has(seed.id)) continue;
+    const baseline = seed.bbox.y + seed.bbox.height;
+    const tolerance = Math.max(2, seed.bbox.height * 0.25);
+    const row = candidates.filter(
+      (c) =>
+        !used.has(c.id) &&
+        Math.abs(c.bbox.y + c.bbox.height - baseline) <= tolerance &&
+        c.bbox.height <= seed.bbox.height * 1.6 &&
+        c.bbox.height >= seed.bbox.height / 1.6
+    );
+    if (row.length < TEXT_ROW_MIN_MEMBERS) continue;
+
+    const heightCv = coefficientOfVariation(row.map((c) => c.bbox.height));
+    const strokeCv = coefficientOfVariation(row.map((c) => c.features.strokeWidth));
+    if (heightCv > TEXT_ROW_MAX_HEIGHT_CV || strokeCv > TEXT_ROW_MAX_STROKE_CV) continue;
+
+    for (const member of row) {
+      used.add(member.id);
+      member.kind = 'printed-text';
+      member.reason = `Chữ in cùng hàng (${row.length} ký tự, chiều cao lệch ${Math.round(heightCv * 100)}%, nét lệch ${Math.round(strokeCv * 100)}%)`;
+    }
+  }
+}
+
+function computeFeatures(component: MaskComponent, width: number, strokeMap: Uint16Array): ComponentFeatures {
+  const { pixels, bbox } = component;
+  const n = pixels.length;
+
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = 0; i < n; i++) {
+    const x = pixels[i] % width;
+    sumX += x;
+    sumY += (pixels[i] - x) / width;
+  }
+  const meanX = sumX / n;
+  const meanY = sumY / n;
+
+  let cxx = 0;
+  let cyy = 0;
+  let cxy = 0;
+  const strokes = new Uint16Array(n);
+  for (let i = 0; i < n; i++) {
+    const x = pixels[i] % width;
+    const y = (pixels[i] - x) / width;
+    const dx = x - meanX;
+    const dy = y - meanY;
+    cxx += dx * dx;
+    cyy += dy * dy;
+    cxy += dx * dy;
+    strokes[i] = strokeMap[pixels[i]];
+  }
+  cxx /= n;
+  cyy /= n;
+  cxy /= n;
+
+  // Trị riêng ma trận hiệp phương sai 2x2
+  const trace = cxx + cyy;
+  const det = cxx * cyy - cxy * cxy;
+  const disc = Math.sqrt(Math.max(0, (trace * trace) / 4 - det));
+  const lambda1 = trace / 2 + disc;
+  const lambda2 = trace / 2 - disc;
+  const linearity = lambda1 > 0 ? 1 - lambda2 / lambda1 : 0;
+  const angle = Math.abs((Math.atan2(2 * cxy, cxx - cyy) / 2) * (180 / Math.PI));
+
+  // Dùng median/MAD để góc khung và chỗ giao nét không làm lệch độ đo
+  strokes.sort();
+  const strokeWidth = strokes[n >> 1];
+  const deviations = Uint16Array.from(strokes, (stroke) => Math.abs(stroke - strokeWidth)).sort();
+  const strokeWidthCv = strokeWidth > 0 ? (deviations[n >> 1] * 1.4826) / strokeWidth : 0;
+
+  const band = Math.max(3, Math.ceil(strokeWidth * 2));
+  let onBorder = 0;
+  for (let i = 0; i < n; i++) {
+    const x = pixels[i] % width;
+    const y = (pixels[i] - x) / width;
+    if (
+      x - bbox.x < band ||
+      bbox.x + bbox.width - 1 - x < band ||
+      y - bbox.y < band ||
+      bbox.y + bbox.height - 1 - y < band
+    ) {
+      onBorder++;
+    }
+  }
+
+  return {
+    linearity,
+    angle: Math.min(angle, 90),
+    strokeWidth,
+    strokeWidthCv,
+    borderRatio: onBorder / n,
+  };
+}
+
+/**
+ * Độ rộng nét xấp xỉ tại mỗi pixel = min(độ dài run ngang, độ dài run dọc)
+ */
+function computeStrokeWidthMap(mask: Mask, width: number, height: number): Uint16Array {
+  const horizontal = new Uint16Array(width * height);
+  for (let y = 0; y < height; y++) {
+    let x = 0;
+    while (x < width) {
+      if (!mask[y * width + x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < width && mask[y * width + x]) x++;
+      const run = Math.min(x - start, 65535);
+      for (let i = start; i < x; i++) horizontal[y * width + i] = run;
+    }
+  }
+
+  const out = new Uint16Array(width * height);
+  for (let x = 0; x < width; x++) {
+    let y = 0;
+    while (y < height) {
+      if (!mask[y * width + x]) {
+        y++;
+        continue;
+      }
+      const start = y;
+      while (y < height && mask[y * width + x]) y++;
+      const run = Math.min(y - start, 65535);
+      for (let i = start; i < y; i++) {
+        const idx = i * width + x;
+        out[idx] = Math.min(run, horizontal[idx]);
+      }
+    }
+  }
+  return out;
+}
+
+function coefficientOfVariation(values: number[]): number {
+  if (!values.length) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
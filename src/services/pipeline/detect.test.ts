@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK, BLUE, createImage, fillRect, maskAt, PINK, RED, stageState, testTuning } from '../../test/pixels';
+import { hsvDetectStage, isRemovableColor, labDetectStage } from './detect';
+import { MASK_ON } from './mask';
+
+describe('hsvDetectStage', () => {
+  it('đánh dấu nét đỏ, bỏ qua chữ đen và giấy trắng', () => {
+    const image = createImage(12, 8);
+    fillRect(image, 1, 1, 4, 2, RED);
+    fillRect(image, 6, 4, 4, 2, BLACK);
+
+    const { mask } = hsvDetectStage.run(stageState(image));
+
+    expect(maskAt(mask!, 12, 2, 1)).toBe(MASK_ON);
+    expect(maskAt(mask!, 12, 7, 4)).toBe(0);
+    expect(maskAt(mask!, 12, 0, 0)).toBe(0);
+  });
+
+  it('chỉ xóa màu của profile được chọn', () => {
+    const image = createImage(8, 4);
+    fillRect(image, 0, 0, 4, 4, BLUE);
+    fillRect(image, 4, 0, 4, 4, RED);
+
+    const redOnly = hsvDetectStage.run(stageState(image)).mask!;
+    const withBlue = hsvDetectStage.run(stageState(image, { tuning: testTuning({ inkProfiles: ['red', 'blue'] }) })).mask!;
+
+    expect(maskAt(redOnly, 8, 1, 1)).toBe(0);
+    expect(maskAt(redOnly, 8, 5, 1)).toBe(MASK_ON);
+    expect(maskAt(withBlue, 8, 1, 1)).toBe(MASK_ON);
+    expect(maskAt(withBlue, 8, 5, 1)).toBe(MASK_ON);
+  });
+});
+
+describe('labDetectStage', () => {
+  it('cho mask mềm: mực mẫu phủ hết, quầng hồng phủ một phần, chữ đen không bị phủ', () => {
+    const image = createImage(12, 4);
+    fillRect(image, 0, 0, 4, 4, RED);
+    fillRect(image, 4, 0, 4, 4, PINK);
+    fillRect(image, 8, 0, 2, 4, BLACK);
+    const tuning = testTuning({ detectionMode: 'lab', referenceInks: ['#d7263d'] });
+
+    const { mask } = labDetectStage.run(stageState(image, { tuning }));
+
+    expect(maskAt(mask!, 12, 1, 1)).toBe(MASK_ON);
+    expect(maskAt(mask!, 12, 5, 1)).toBeGreaterThan(0);
+    expect(maskAt(mask!, 12, 5, 1)).toBeLessThan(MASK_ON);
+    expect(maskAt(mask!, 12, 8, 1)).toBe(0);
+    expect(maskAt(mask!, 12, 11, 1)).toBe(0);
+  });
+});
+
+describe('isRemovableColor', () => {
+  it('theo chế độ phát hiện hiện tại', () => {
+    expect(isRemovableColor(RED, testTuning())).toBe(true);
+    expect(isRemovableColor(BLACK, testTuning())).toBe(false);
+    expect(isRemovableColor(RED, testTuning({ detectionMode: 'lab', referenceInks: ['#d7263d'] }))).toBe(true);
+    expect(isRemovableColor(BLUE, testTuning({ detectionMode: 'lab', referenceInks: ['#d7263d'] }))).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { getInkProfiles } from '../../const/inkProfiles';
+import type { HsvBand, LabColor, RedDetectionTuning } from '../../models/appModels';
+import { deltaE, hexToRgb, inHueRange, rgbToHsv, rgbToLab } from './color';
+import { createMask, MASK_ON } from './mask';
+import type { PipelineStage, PixelBuffer } from './types';
+
+/**
+ * Gộp band HSV của mọi profile mực được chọn. Profile chính (đầu tiên, tunable)
+ * dùng hueA/hueB/sMin/vMin của tuning thay cho band mặc định.
+ */
+export function resolveInkBands(tuning: RedDetectionTuning): HsvBand[] {
+  const profiles = getInkProfiles(tuning.inkProfiles);
+  const bands: HsvBand[] = [];
+
+  profiles.forEach((profile, index) => {
+    if (index > 0 || !profile.tunable) {
+      bands.push(...profile.bands);
+      return;
+    }
+    const base = profile.bands[0];
+    bands.push(
+      { ...base, hue: tuning.hueA, sMin: tuning.sMin, vMin: tuning.vMin },
+      { ...(profile.bands[1] ?? base), hue: tuning.hueB, sMin: tuning.sMin, vMin: tuning.vMin }
+    );
+  });
+
+  return bands;
+}
+
+export function matchesBand(h: number, s: number, v: number, band: HsvBand): boolean {
+  if (s < band.sMin || s > band.sMax || v < band.vMin || v > band.vMax) return false;
+  return inHueRange(h, band.hue[0], band.hue[1]);
+}
+
+/**
+ * Phát hiện pixel mực theo các band HSV của profile được chọn (mặc định: đỏ)
+ */
+export const hsvDetectStage: PipelineStage = {
+  name: 'hsv-detect',
+  run: ({ image, tuning }) => {
+    const { width, height, data } = image;
+    const bands = resolveInkBands(tuning);
+    const mask = createMask(width, height);
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * 4;
+      if (data[idx + 3] < 10) continue;
+
+      const { h, s, v } = rgbToHsv(data[idx] / 255, data[idx + 1] / 255, data[idx + 2] / 255);
+      for (const band of bands) {
+        if (matchesBand(h, s, v, band)) {
+          mask[i] = MASK_ON;
+          break;
+        }
+      }
+    }
+    return { mask };
+  },
+};
+
+// Mask giảm tuyến tính từ ΔE = tolerance đến ΔE = tolerance * SOFT_FALLOFF
+const SOFT_FALLOFF = 1.75;
+// Pha trộn giấy/mực: bỏ qua khi tỉ lệ mực quá nhỏ, phủ hết từ FULL_MIX_FRACTION
+const MIN_MIX_FRACTION = 0.15;
+const FULL_MIX_FRACTION = 0.7;
+const MIX_LINE_TOLERANCE = 0.5;
+const LAB_CACHE_LIMIT = 1 << 16;
+
+/**
+ * Màu mực mẫu (Lab) cho chế độ ΔE: lấy từ tuning, không có thì từ các ink profile
+ */
+export function resolveReferenceInks(tuning: RedDetectionTuning): LabColor[] {
+  const hexes = tuning.referenceInks.length
+    ? tuning.referenceInks
+    : getInkProfiles(tuning.inkProfiles).flatMap((profile) => profile.referenceInks);
+  return hexes.map((hex) => rgbToLab(...hexToRgb(hex)));
+}
+
+/**
+ * Độ phủ mask (0..255) của một màu Lab: gần màu mực mẫu thì phủ hết, xa dần thì giảm.
+ * Khi biết màu giấy, pixel nằm trên đoạn pha trộn giấy → mực (viền anti-alias, quầng hồng)
+ * nhận độ phủ theo tỉ lệ mực trong pha trộn.
+ */
+export function softCoverage(lab: LabColor, references: LabColor[], tolerance: number, paper?: LabColor): number {
+  let coverage = 0;
+  for (const reference of references) {
+    const distance = deltaE(lab, reference);
+    if (distance <= tolerance) return MASK_ON;
+    const limit = tolerance * SOFT_FALLOFF;
+    if (distance < limit) {
+      coverage = Math.max(coverage, (limit - distance) / (limit - tolerance));
+    }
+    if (paper) coverage = Math.max(coverage, mixCoverage(lab, reference, paper, tolerance));
+  }
+  return Math.round(coverage * MASK_ON);
+}
+
+function mixCoverage(lab: LabColor, ink: LabColor, paper: LabColor, tolerance: number): number {
+  const v = [paper[0] - ink[0], paper[1] - ink[1], paper[2] - ink[2]];
+  const lengthSq = v[0] * v[0] + v[1] * v[1] + v[2] * v[2];
+  if (lengthSq === 0) return 0;
+  const t = ((paper[0] - lab[0]) * v[0] + (paper[1] - lab[1]) * v[1] + (paper[2] - lab[2]) * v[2]) / lengthSq;
+  if (t < MIN_MIX_FRACTION || t > 1) return 0;
+  const closest: LabColor = [paper[0] - t * v[0], paper[1] - t * v[1], paper[2] - t * v[2]];
+  if (deltaE(lab, closest) > tolerance * MIX_LINE_TOLERANCE) return 0;
+  return Math.min(1, t / FULL_MIX_FRACTION);
+}
+
+/**
+ * Màu giấy: trung bình nhóm pixel sáng nhất (giấy scan ngả vàng vẫn đúng)
+ */
+export function estimatePaperColor(image: Readonly<PixelBuffer>): LabColor {
+  const { width, height, data } = image;
+  const stride = Math.max(1, Math.floor((width * height) / 20000));
+  const samples: { luma: number; idx: number }[] = [];
+  for (let i = 0; i < width * height; i += stride) {
+    const idx = i * 4;
+    samples.push({ luma: data[idx] * 0.299 + data[idx + 1] * 0.587 + data[idx + 2] * 0.114, idx });
+  }
+  samples.sort((a, b) => b.luma - a.luma);
+  const top = samples.slice(0, Math.max(1, Math.floor(samples.length * 0.1)));
+  const sum = [0, 0, 0];
+  for (const { idx } of top) {
+    sum[0] += data[idx];
+    sum[1] += data[idx + 1];
+    sum[2] += data[idx + 2];
+  }
+  return rgbToLab(sum[0] / top.length, sum[1] / top.length, sum[2] / top.length);
+}
+
+/**
+ * Màu (0..255) có nằm trong vùng đang xóa theo chế độ phát hiện hiện tại không
+ */
+export function isRemovableColor(rgb: [number, number, number], tuning: RedDetectionTuning): boolean {
+  if (tuning.detectionMode === 'lab') {
+    return softCoverage(rgbToLab(...rgb), resolveReferenceInks(tuning), tuning.deltaETolerance) > 0;
+  }
+  const { h, s, v } = rgbToHsv(rgb[0] / 255, rgb[1] / 255, rgb[2] / 255);
+  return resolveInkBands(tuning).some((band) => matchesBand(h, s, v, band));
+}
+
+/**
+ * Phát hiện theo ΔE (CIELAB) tới màu mực mẫu, cho mask mềm: ít nhạy với giấy ố vàng,
+ * nhiễu màu JPEG và nét hồng nhạt hơn ngưỡng HSV
+ */
+export const labDetectStage: PipelineStage = {
+  name: 'lab-detect',
+  run: ({ image, tuning }) => {
+    const { width, height, data } = image;
+    const references = resolveReferenceInks(tuning);
+    const mask = createMask(width, height);
+    if (!references.length) return { mask };
+    const paper = estimatePaperColor(image);
+
+    // Ảnh scan có ít màu khác nhau (nền giấy), cache theo RGB để tránh tính Lab lặp lại
+    const cache = new Map<number, number>();
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * 4;
+      if (data[idx + 3] < 10) continue;
+
+      const key = (data[idx] << 16) | (data[idx + 1] << 8) | data[idx + 2];
+      let coverage = cache.get(key);
+      if (coverage === undefined) {
+        coverage = softCoverage(rgbToLab(data[idx], data[idx + 1], data[idx + 2]), references, tuning.deltaETolerance, paper);
+        if (cache.size >= LAB_CACHE_LIMIT) cache.clear();
+        cache.set(key, coverage);
+      }
+      mask[i] = coverage;
+    }
+    return { mask };
+  },
+};
+
+/**
+ * Dùng mask người vận hành tô tay (`options.manualMask`) thay cho phát hiện màu
+ */
+export const manualMaskStage: PipelineStage = {
+  name: 'manual-mask',
+  run: ({ image, options }) => ({ mask: options.manualMask ?? createMask(image.width, image.height) }),
+};
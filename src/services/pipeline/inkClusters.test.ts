@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK, BLUE, createImage, fillRect, maskAt, PINK, RED, rectMask, stageState, testTuning } from '../../test/pixels';
+import { deltaE, rgbToLab } from './color';
+import { analyzeInkClusters, protectStudentInkStage } from './inkClusters';
+
+const SIZE = 60;
+
+// Trang bài làm: mực chiếm nhiều nhất là `main`, thêm nét đỏ và quầng hồng của giáo viên
+const page = (main: [number, number, number]) => {
+  const image = createImage(SIZE, SIZE);
+  fillRect(image, 0, 0, SIZE, 20, main);
+  fillRect(image, 0, 30, SIZE, 6, RED);
+  fillRect(image, 0, 40, SIZE, 4, PINK);
+  return image;
+};
+
+// Học sinh viết bút đỏ trên đề in đen (chữ in vẫn nhiều mực nhất), giáo viên chấm bằng nét hồng
+const redAnswerPage = () => {
+  const image = createImage(SIZE, SIZE);
+  fillRect(image, 0, 0, SIZE, 24, BLACK);
+  fillRect(image, 0, 30, SIZE, 14, RED);
+  fillRect(image, 0, 50, SIZE, 4, PINK);
+  return image;
+};
+
+const roleOf = (clusters: ReturnType<typeof analyzeInkClusters>, rgb: [number, number, number]) => {
+  const lab = rgbToLab(...rgb);
+  return clusters.reduce((best, c) => (deltaE(c.lab, lab) < deltaE(best.lab, lab) ? c : best)).role;
+};
+
+describe('analyzeInkClusters', () => {
+  it('không tự nhận mực học sinh khi tắt protectStudentInk', () => {
+    const clusters = analyzeInkClusters(page(BLUE), testTuning({ inkProfiles: ['red', 'blue'], protectStudentInk: false }));
+
+    expect(clusters.some((c) => c.role === 'student')).toBe(false);
+    expect(roleOf(clusters, RED)).toBe('teacher');
+  });
+
+  it('chữ in đen chiếm nhiều nhất thì nét đỏ và quầng hồng đều là mực giáo viên', () => {
+    const clusters = analyzeInkClusters(page(BLACK), testTuning({ protectStudentInk: true }));
+
+    expect(clusters[0].removable).toBe(false);
+    expect(roleOf(clusters, RED)).toBe('teacher');
+    expect(roleOf(clusters, PINK)).toBe('teacher');
+  });
+
+  it('mực xóa được chiếm nhiều nhất trang là mực học sinh khi bật protectStudentInk', () => {
+    const clusters = analyzeInkClusters(page(BLUE), testTuning({ inkProfiles: ['red', 'blue'], protectStudentInk: true }));
+
+    expect(roleOf(clusters, BLUE)).toBe('student');
+    expect(roleOf(clusters, RED)).toBe('teacher');
+  });
+
+  it('nhận mực đỏ là mực học sinh khi đó là mực viết chiếm nhiều nhất, bỏ qua chữ in đen', () => {
+    const clusters = analyzeInkClusters(redAnswerPage(), testTuning({ protectStudentInk: true }));
+
+    expect(roleOf(clusters, RED)).toBe('student');
+    expect(roleOf(clusters, PINK)).toBe('teacher');
+    expect(roleOf(clusters, BLACK)).toBe('other');
+  });
+
+  it('không đoán khi hai màu mực viết nhiều ngang nhau', () => {
+    const image = createImage(SIZE, SIZE);
+    fillRect(image, 0, 0, SIZE, 12, BLUE);
+    fillRect(image, 0, 20, SIZE, 10, RED);
+
+    const clusters = analyzeInkClusters(image, testTuning({ inkProfiles: ['red', 'blue'], protectStudentInk: true }));
+
+    expect(clusters.some((c) => c.role === 'student')).toBe(false);
+  });
+
+  it('cụm người vận hành chọn luôn là mực học sinh', () => {
+    const clusters = analyzeInkClusters(page(BLACK), testTuning(), [rgbToLab(...RED)]);
+
+    expect(roleOf(clusters, RED)).toBe('student');
+    expect(roleOf(clusters, BLACK)).toBe('other');
+  });
+});
+
+describe('protectStudentInkStage', () => {
+  const mask = () => rectMask(SIZE, SIZE, [[0, 0, SIZE, 20], [0, 30, SIZE, 6]]);
+
+  it('bảo vệ pixel mực học sinh trong mask, không bảo vệ nét giáo viên', () => {
+    const tuning = testTuning({ inkProfiles: ['red', 'blue'], protectStudentInk: true });
+
+    const { protect, diagnostics } = protectStudentInkStage.run(stageState(page(BLUE), { mask: mask(), tuning }));
+
+    expect(diagnostics!.studentInkSource).toBe('auto');
+    expect(maskAt(protect!, SIZE, 10, 10)).toBe(255);
+    expect(maskAt(protect!, SIZE, 10, 32)).toBe(0);
+  });
+
+  it('giữ bài làm viết bút đỏ, vẫn xóa nét chấm hồng', () => {
+    const mask = rectMask(SIZE, SIZE, [
+      [0, 30, SIZE, 14],
+      [0, 50, SIZE, 4],
+    ]);
+
+    const { protect } = protectStudentInkStage.run(
+      stageState(redAnswerPage(), { mask, tuning: testTuning({ protectStudentInk: true }) })
+    );
+
+    expect(maskAt(protect!, SIZE, 10, 35)).toBe(255);
+    expect(maskAt(protect!, SIZE, 10, 51)).toBe(0);
+  });
+
+  it('chỉ trả về cụm mực khi không có mực học sinh xóa được', () => {
+    const result = protectStudentInkStage.run(
+      stageState(page(BLACK), { mask: mask(), tuning: testTuning({ protectStudentInk: true }) })
+    );
+
+    expect(result.protect).toBeUndefined();
+    expect(result.diagnostics!.inkClusters!.length).toBeGreaterThan(0);
+  });
+
+  it('dùng màu người vận hành chọn', () => {
+    const { protect, diagnostics } = protectStudentInkStage.run(
+      stageState(page(BLACK), { mask: mask(), options: { studentInks: [rgbToLab(...RED)] } })
+    );
+
+    expect(diagnostics!.studentInkSource).toBe('operator');
+    expect(maskAt(protect!, SIZE, 10, 32)).toBe(255);
+  });
+});
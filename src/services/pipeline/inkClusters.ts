@@ -0,0 +1,208 @@
+import type { InkCluster, LabColor, RedDetectionTuning } from '../../models/appModels';
+import { deltaE, labToRgb, rgbToLab } from './color';
+import { isRemovableColor } from './detect';
+import { MASK_ON } from './mask';
+import type { PipelineStage, PixelBuffer } from './types';
+
+const CLUSTER_COUNT = 4;
+const KMEANS_ITERATIONS = 10;
+const MAX_SAMPLES = 40000;
+const MERGE_DELTA_E = 12;
+const MIN_CLUSTER_SHARE = 0.005;
+// Pixel trong mask chỉ được bảo vệ khi đủ gần tâm cụm mực học sinh
+const STUDENT_MATCH_DELTA_E = 15;
+const OVERRIDE_MATCH_DELTA_E = 3;
+// Cụm gần như không màu (chữ in đen, nét xám) không phải mực viết để nhận làm mực học sinh
+const NEUTRAL_MAX_CHROMA = 12;
+// Mực viết của học sinh chiếm ít nhất chừng này mực trên trang và gấp đôi cụm có màu kế tiếp
+const WRITING_MIN_SHARE = 0.25;
+const WRITING_DOMINANCE_RATIO = 2;
+
+/**
+ * Phân cụm màu nét mực trên trang trong không gian Lab (k-means, khởi tạo xa nhất
+ * nên kết quả ổn định giữa các lần chạy) và gán vai trò học sinh / giáo viên.
+ * `studentInks` (người vận hành chọn) thay cho phán đoán tự động khi được truyền vào;
+ * không có thì chỉ tự nhận mực học sinh khi bật `tuning.protectStudentInk`.
+ */
+export function analyzeInkClusters(
+  image: Readonly<PixelBuffer>,
+  tuning: RedDetectionTuning,
+  studentInks?: LabColor[]
+): InkCluster[] {
+  const samples = sampleInkPixels(image);
+  if (samples.length < CLUSTER_COUNT) return [];
+
+  const centroids = kMeans(samples, CLUSTER_COUNT);
+  const clusters: InkCluster[] = centroids
+    .filter((centroid) => centroid.share >= MIN_CLUSTER_SHARE)
+    .map(({ lab, share }) => {
+      const rgb = labToRgb(lab);
+      return {
+        lab,
+        rgb,
+        share,
+        removable: isRemovableColor(rgb, tuning),
+        role: 'other' as const,
+      };
+    })
+    .sort((a, b) => b.share - a.share);
+
+  const student = studentInks
+    ? clusters.filter((cluster) => studentInks.some((ink) => deltaE(ink, cluster.lab) <= OVERRIDE_MATCH_DELTA_E))
+    : tuning.protectStudentInk
+      ? [pickStudentCluster(clusters)].filter((cluster): cluster is InkCluster => !!cluster)
+      : [];
+
+  for (const cluster of clusters) {
+    cluster.role = student.includes(cluster) ? 'student' : cluster.removable ? 'teacher' : 'other';
+  }
+  return clusters;
+}
+
+/**
+ * Mực học sinh = cụm có màu chiếm nhiều nhất trang, bỏ qua chữ in đen/xám. Chỉ nhận khi cụm này
+ * chiếm phần lớn mực và vượt hẳn cụm có màu kế tiếp: nét chấm đỏ của giáo viên trên bài viết
+ * bút đen thường ít mực hơn nhiều nên không bị nhận nhầm.
+ */
+function pickStudentCluster(clusters: InkCluster[]): InkCluster | undefined {
+  const [first, second] = clusters.filter((cluster) => Math.hypot(cluster.lab[1], cluster.lab[2]) > NEUTRAL_MAX_CHROMA);
+  if (!first || first.share < WRITING_MIN_SHARE) return undefined;
+  if (second && first.share < second.share * WRITING_DOMINANCE_RATIO) return undefined;
+  return first;
+}
+
+/**
+ * Bỏ khỏi mask các pixel gần cụm mực học sinh hơn mọi cụm khác. Luôn phân cụm để người vận hành
+ * chọn được cụm trên giao diện; chỉ bảo vệ khi có cụm học sinh (chọn tay hoặc tự nhận khi bật).
+ */
+export const protectStudentInkStage: PipelineStage = {
+  name: 'protect-student-ink',
+  run: ({ source, mask, protect, tuning, options }) => {
+    const clusters = analyzeInkClusters(source, tuning, options.studentInks);
+    const studentInks = options.studentInks ?? clusters.filter((c) => c.role === 'student').map((c) => c.lab);
+    const diagnostics = {
+      inkClusters: clusters,
+      studentInkSource: options.studentInks ? ('operator' as const) : ('auto' as const),
+    };
+
+    const studentRemovable = clusters.some((c) => c.role === 'student' && c.removable);
+    if (!studentInks.length || (!options.studentInks && !studentRemovable)) {
+      return { diagnostics };
+    }
+
+    const references: { lab: LabColor; student: boolean }[] = [
+      ...clusters.filter((c) => c.role !== 'student').map((c) => ({ lab: c.lab, student: false })),
+      ...studentInks.map((lab) => ({ lab, student: true })),
+    ];
+    const nextProtect = new Uint8Array(protect);
+    const { data } = source;
+
+    for (let i = 0; i < mask.length; i++) {
+      if (!mask[i]) continue;
+      const lab = rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+      let best = references[0];
+      let bestDistance = Infinity;
+      for (const reference of references) {
+        const distance = deltaE(lab, reference.lab);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = reference;
+        }
+      }
+      if (best.student && bestDistance <= STUDENT_MATCH_DELTA_E) nextProtect[i] = MASK_ON;
+    }
+
+    return { protect: nextProtect, diagnostics };
+  },
+};
+
+/**
+ * Lấy mẫu pixel mực (không phải nền giấy) theo bước nhảy đều
+ */
+function sampleInkPixels(image: Readonly<PixelBuffer>): LabColor[] {
+  const { width, height, data } = image;
+  const total = width * height;
+  const stride = Math.max(1, Math.floor(total / (MAX_SAMPLES * 4)));
+  const labs: LabColor[] = [];
+  const lightness: number[] = [];
+
+  for (let i = 0; i < total; i += stride) {
+    const idx = i * 4;
+    if (data[idx + 3] < 10) continue;
+    const lab = rgbToLab(data[idx], data[idx + 1], data[idx + 2]);
+    labs.push(lab);
+    lightness.push(lab[0]);
+  }
+  if (!labs.length) return [];
+
+  // Nền giấy ~ phân vị 90 của độ sáng (giấy scan ngả vàng vẫn đúng)
+  lightness.sort((a, b) => a - b);
+  const paperL = lightness[Math.floor(lightness.length * 0.9)];
+
+  const ink = labs.filter((lab) => lab[0] < paperL - 20 || Math.hypot(lab[1], lab[2]) > 18);
+  if (ink.length <= MAX_SAMPLES) return ink;
+  const step = ink.length / MAX_SAMPLES;
+  return Array.from({ length: MAX_SAMPLES }, (_, i) => ink[Math.floor(i * step)]);
+}
+
+function kMeans(samples: LabColor[], k: number): { lab: LabColor; share: number }[] {
+  // Khởi tạo: pixel tối nhất, sau đó lần lượt lấy mẫu xa các tâm đã chọn nhất
+  const centroids: LabColor[] = [samples.reduce((darkest, lab) => (lab[0] < darkest[0] ? lab : darkest))];
+  const nearest = samples.map((lab) => deltaE(lab, centroids[0]));
+  while (centroids.length < k) {
+    let farthest = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if (nearest[i] > nearest[farthest]) farthest = i;
+    }
+    if (nearest[farthest] === 0) break;
+    const next = samples[farthest];
+    centroids.push([...next] as LabColor);
+    for (let i = 0; i < samples.length; i++) nearest[i] = Math.min(nearest[i], deltaE(samples[i], next));
+  }
+
+  const assignment = new Int32Array(samples.length);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    for (let i = 0; i < samples.length; i++) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let c = 0; c < centroids.length; c++) {
+        const distance = deltaE(samples[i], centroids[c]);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      }
+      assignment[i] = best;
+      const sum = sums[best];
+      sum[0] += samples[i][0];
+      sum[1] += samples[i][1];
+      sum[2] += samples[i][2];
+      sum[3]++;
+    }
+    sums.forEach((sum, c) => {
+      if (sum[3]) centroids[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+
+  const counts = centroids.map(() => 0);
+  for (let i = 0; i < samples.length; i++) counts[assignment[i]]++;
+  return mergeClose(
+    centroids.map((lab, c) => ({ lab, share: counts[c] / samples.length })).filter((c) => c.share > 0)
+  );
+}
+
+function mergeClose(clusters: { lab: LabColor; share: number }[]) {
+  const merged: { lab: LabColor; share: number }[] = [];
+  for (const cluster of [...clusters].sort((a, b) => b.share - a.share)) {
+    const target = merged.find((m) => deltaE(m.lab, cluster.lab) < MERGE_DELTA_E);
+    if (!target) {
+      merged.push({ lab: [...cluster.lab] as LabColor, share: cluster.share });
+      continue;
+    }
+    const total = target.share + cluster.share;
+    target.lab = target.lab.map((v, i) => (v * target.share + cluster.lab[i] * cluster.share) / total) as LabColor;
+    target.share = total;
+  }
+  return merged;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK, createImage, fillRect, pixelAt, RED, rectMask, stageState, testTuning } from '../../test/pixels';
+import { averageInpaintStage, compositeSoftMask, teleaInpaintStage } from './inpaint';
+
+// Nét chữ đen dọc bị một vệt đỏ ngang cắt qua
+const crossedStroke = () => {
+  const image = createImage(40, 40);
+  fillRect(image, 18, 0, 3, 40, BLACK);
+  fillRect(image, 0, 17, 40, 5, RED);
+  return { image, mask: rectMask(40, 40, [[0, 17, 40, 5]]) };
+};
+
+describe('averageInpaintStage', () => {
+  it('lấp vết đỏ trên nền giấy bằng màu giấy', () => {
+    const image = createImage(20, 20);
+    fillRect(image, 8, 8, 3, 3, RED);
+    const mask = rectMask(20, 20, [[8, 8, 3, 3]]);
+
+    const result = averageInpaintStage.run(stageState(image, { mask })).image!;
+
+    expect(pixelAt(result, 9, 9)).toEqual([255, 255, 255]);
+    expect(pixelAt(image, 9, 9)).toEqual(RED);
+  });
+
+  it('tô trắng khi không có lân cận ngoài mask', () => {
+    const image = createImage(5, 5, RED);
+    const mask = rectMask(5, 5, [[0, 0, 5, 5]]);
+
+    const result = averageInpaintStage.run(stageState(image, { mask, tuning: testTuning({ inpaintRadius: 1 }) })).image!;
+
+    expect(pixelAt(result, 2, 2)).toEqual([255, 255, 255]);
+  });
+});
+
+describe('compositeSoftMask', () => {
+  it('trộn theo độ phủ, giữ nguyên pixel phủ hết và pixel ngoài mask', () => {
+    const original = new Uint8ClampedArray([100, 100, 100, 255, 100, 100, 100, 255, 100, 100, 100, 255]);
+    const inpainted = new Uint8ClampedArray([200, 200, 200, 255, 200, 200, 200, 255, 200, 200, 200, 255]);
+
+    compositeSoftMask(original, inpainted, new Uint8Array([0, 51, 255]));
+
+    expect(Array.from(inpainted)).toEqual([200, 200, 200, 255, 120, 120, 120, 255, 200, 200, 200, 255]);
+  });
+});
+
+describe('teleaInpaintStage', () => {
+  it('nối tiếp nét chữ đen qua vùng xóa, nền giấy vẫn trắng', () => {
+    const { image, mask } = crossedStroke();
+
+    const result = teleaInpaintStage.run(stageState(image, { mask, tuning: testTuning({ inpaintMode: 'telea' }) })).image!;
+
+    expect(pixelAt(result, 19, 19)[0]).toBeLessThan(128);
+    expect(pixelAt(result, 5, 19)).toEqual([255, 255, 255]);
+    expect(pixelAt(result, 35, 19)).toEqual([255, 255, 255]);
+  });
+
+  it('nét bị cắt đậm hơn so với inpaint trung bình', () => {
+    const { image, mask } = crossedStroke();
+    const tuning = testTuning({ inpaintRadius: 3 });
+
+    const telea = teleaInpaintStage.run(stageState(image, { mask, tuning })).image!;
+    const average = averageInpaintStage.run(stageState(image, { mask, tuning })).image!;
+
+    expect(pixelAt(telea, 19, 19)[0]).toBeLessThan(pixelAt(average, 19, 19)[0]);
+  });
+
+  it('không có mask thì không đổi ảnh', () => {
+    const image = createImage(10, 10);
+    expect(teleaInpaintStage.run(stageState(image))).toEqual({});
+  });
+});
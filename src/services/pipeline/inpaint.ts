@@ -0,0 +1,440 @@
+import { MASK_ON } from './mask';
+import type { Mask, PipelineStage } from './types';
+
+/**
+ * Trộn kết quả inpaint với ảnh gốc theo độ phủ của mask mềm (anti-alias):
+ * pixel phủ hoàn toàn lấy giá trị inpaint, viền mờ (quầng hồng) được trộn theo tỉ lệ
+ */
+export function compositeSoftMask(original: Uint8ClampedArray, inpainted: Uint8ClampedArray, mask: Mask): void {
+  for (let i = 0; i < mask.length; i++) {
+    const coverage = mask[i];
+    if (!coverage || coverage >= MASK_ON) continue;
+    const t = coverage / MASK_ON;
+    const idx = i * 4;
+    for (let c = 0; c < 3; c++) {
+      inpainted[idx + c] = original[idx + c] + (inpainted[idx + c] - original[idx + c]) * t;
+    }
+  }
+}
+
+/**
+ * Inpaint đơn giản: thay pixel trong mask bằng trung bình lân cận ngoài mask,
+ * không có lân cận hợp lệ thì tô trắng
+ */
+export const averageInpaintStage: PipelineStage = {
+  name: 'average-inpaint',
+  run: ({ image, mask, tuning }) => {
+    const { width, height, data } = image;
+    const out = new Uint8ClampedArray(data);
+    const radius = tuning.inpaintRadius;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!mask[y * width + x]) continue;
+
+        let sumR = 0;
+        let sumG = 0;
+        let sumB = 0;
+        let count = 0;
+
+        for (let dy = -radius; dy <= radius; dy++) {
+          for (let dx = -radius; dx <= radius; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            if (mask[ny * width + nx]) continue;
+
+            const nIdx = (ny * width + nx) * 4;
+            sumR += out[nIdx];
+            sumG += out[nIdx + 1];
+            sumB += out[nIdx + 2];
+            count++;
+          }
+        }
+
+        const oIdx = (y * width + x) * 4;
+        if (count > 0) {
+          out[oIdx] = Math.round(sumR / count);
+          out[oIdx + 1] = Math.round(sumG / count);
+          out[oIdx + 2] = Math.round(sumB / count);
+        } else {
+          out[oIdx] = 255;
+          out[oIdx + 1] = 255;
+          out[oIdx + 2] = 255;
+        }
+      }
+    }
+
+    compositeSoftMask(data, out, mask);
+    return { image: { width, height, data: out } };
+  },
+};
+
+const KNOWN = 0;
+const BAND = 1;
+const INSIDE = 2;
+const FAR = 1e6;
+
+// Lân cận 4 hướng của fast marching
+const NEIGHBOR_DX = [-1, 1, 0, 0];
+const NEIGHBOR_DY = [0, 0, -1, 1];
+
+// Trạng thái và khoảng cách T của từng pixel trong vùng bao quanh mask
+type Field = { flags: Uint8Array; dist: Float32Array; w: number; h: number };
+
+type Region = { x0: number; y0: number; w: number; h: number };
+
+// Bộ đệm tạm dùng lại cho mọi pixel để vòng lặp không cấp phát
+type InpaintScratch = { gradT: Float64Array; gradI: Float64Array; sums: Float64Array };
+
+/**
+ * Inpaint fast marching (Telea 2004): lấp vùng mask từ biên vào trong,
+ * mỗi pixel lấy trung bình có trọng số theo hướng đường đồng mức nên nét chữ
+ * đen bị nét đỏ cắt ngang được nối tiếp thay vì thành vệt xám.
+ * Bán kính lân cận dùng `tuning.inpaintRadius` giống chế độ average.
+ */
+export const teleaInpaintStage: PipelineStage = {
+  name: 'telea-inpaint',
+  run: ({ image, mask, tuning }) => {
+    const { width, height } = image;
+    const radius = Math.max(1, tuning.inpaintRadius);
+    const bounds = maskBounds(mask, width, height, radius * 2 + 2);
+    if (!bounds) return {};
+
+    const out = new Uint8ClampedArray(image.data);
+    const region: Region = {
+      x0: bounds.x0,
+      y0: bounds.y0,
+      w: bounds.x1 - bounds.x0 + 1,
+      h: bounds.y1 - bounds.y0 + 1,
+    };
+    const size = region.w * region.h;
+    const field: Field = { flags: new Uint8Array(size), dist: new Float32Array(size), w: region.w, h: region.h };
+    const { flags, dist } = field;
+
+    for (let ly = 0; ly < region.h; ly++) {
+      for (let lx = 0; lx < region.w; lx++) {
+        const li = ly * region.w + lx;
+        if (mask[(ly + region.y0) * width + lx + region.x0]) {
+          flags[li] = INSIDE;
+          dist[li] = FAR;
+        }
+      }
+    }
+
+    // Dải biên: pixel đã biết kề với vùng cần lấp
+    const band = new Int32Array(size);
+    let bandSize = 0;
+    for (let li = 0; li < size; li++) {
+      if (flags[li] !== KNOWN) continue;
+      const lx = li % region.w;
+      const ly = (li - lx) / region.w;
+      if (
+        (lx > 0 && flags[li - 1] === INSIDE) ||
+        (lx < region.w - 1 && flags[li + 1] === INSIDE) ||
+        (ly > 0 && flags[li - region.w] === INSIDE) ||
+        (ly < region.h - 1 && flags[li + region.w] === INSIDE)
+      ) {
+        flags[li] = BAND;
+        band[bandSize++] = li;
+      }
+    }
+    const boundary = band.subarray(0, bandSize);
+
+    computeOutsideDistances(field, boundary, radius * 2);
+
+    const heap = createMinHeap(size);
+    for (const li of boundary) heap.push(li, 0);
+    const scratch: InpaintScratch = {
+      gradT: new Float64Array(2),
+      gradI: new Float64Array(2),
+      sums: new Float64Array(3),
+    };
+    fastMarch(field, heap, FAR, (lx, ly) => inpaintPixel(out, width, region, field, lx, ly, radius, scratch));
+
+    compositeSoftMask(image.data, out, mask);
+    return { image: { width, height, data: out } };
+  },
+};
+
+function maskBounds(mask: Uint8Array, width: number, height: number, padding: number) {
+  let x0 = width;
+  let y0 = height;
+  let x1 = -1;
+  let y1 = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      if (x < x0) x0 = x;
+      if (x > x1) x1 = x;
+      if (y < y0) y0 = y;
+      if (y > y1) y1 = y;
+    }
+  }
+  if (x1 < 0) return null;
+  return {
+    x0: Math.max(0, x0 - padding),
+    y0: Math.max(0, y0 - padding),
+    x1: Math.min(width - 1, x1 + padding),
+    y1: Math.min(height - 1, y1 + padding),
+  };
+}
+
+/**
+ * Lan T từ dải biên vào trong theo thứ tự tăng dần. Pixel đã trong dải vẫn được giảm T khi
+ * có đường ngắn hơn (đẩy lại vào heap, bản ghi cũ bỏ qua khi lấy ra) để giữ đúng thứ tự fast marching.
+ * `onEnterBand` chạy một lần khi pixel trong mask lần đầu vào dải (lúc Telea lấp màu cho pixel).
+ */
+function fastMarch(
+  field: Field,
+  heap: MinHeap,
+  maxDist: number,
+  onEnterBand?: (x: number, y: number) => void
+) {
+  const { flags, dist, w, h } = field;
+  while (heap.size() > 0) {
+    const li = heap.pop();
+    if (flags[li] === KNOWN) continue;
+    if (dist[li] > maxDist) break;
+    flags[li] = KNOWN;
+    const lx = li % w;
+    const ly = (li - lx) / w;
+
+    for (let k = 0; k < 4; k++) {
+      const nx = lx + NEIGHBOR_DX[k];
+      const ny = ly + NEIGHBOR_DY[k];
+      if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+      const ni = ny * w + nx;
+      if (flags[ni] === KNOWN) continue;
+
+      const t = Math.min(
+        solveEikonal(field, nx - 1, ny, nx, ny - 1),
+        solveEikonal(field, nx + 1, ny, nx, ny - 1),
+        solveEikonal(field, nx - 1, ny, nx, ny + 1),
+        solveEikonal(field, nx + 1, ny, nx, ny + 1)
+      );
+      if (t >= dist[ni]) continue;
+      const entering = flags[ni] === INSIDE;
+      dist[ni] = t;
+      if (entering) onEnterBand?.(nx, ny);
+      flags[ni] = BAND;
+      heap.push(ni, t);
+    }
+  }
+}
+
+function solveEikonal(field: Field, x1: number, y1: number, x2: number, y2: number): number {
+  const { flags, dist, w, h } = field;
+  if (x1 < 0 || y1 < 0 || x1 >= w || y1 >= h || x2 < 0 || y2 < 0 || x2 >= w || y2 >= h) return FAR;
+  const i1 = y1 * w + x1;
+  const i2 = y2 * w + x2;
+  const known1 = flags[i1] === KNOWN;
+  const known2 = flags[i2] === KNOWN;
+
+  if (known1 && known2) {
+    const d1 = dist[i1];
+    const d2 = dist[i2];
+    const d = 2 - (d1 - d2) * (d1 - d2);
+    if (d > 0) {
+      const r = Math.sqrt(d);
+      let s = (d1 + d2 - r) / 2;
+      if (s >= d1 && s >= d2) return s;
+      s += r;
+      if (s >= d1 && s >= d2) return s;
+    }
+    return FAR;
+  }
+  if (known1) return 1 + dist[i1];
+  if (known2) return 1 + dist[i2];
+  return FAR;
+}
+
+/**
+ * Khoảng cách (âm) từ vùng đã biết tới biên mask, cần cho gradient của T ở phía ngoài
+ */
+function computeOutsideDistances(field: Field, band: Int32Array, maxDist: number) {
+  const { flags, dist, w, h } = field;
+  const outside: Field = { flags: new Uint8Array(flags.length), dist: new Float32Array(flags.length), w, h };
+  for (let i = 0; i < flags.length; i++) {
+    if (flags[i] === KNOWN) {
+      outside.flags[i] = INSIDE;
+      outside.dist[i] = FAR;
+    } else {
+      outside.flags[i] = flags[i] === INSIDE ? KNOWN : BAND;
+    }
+  }
+
+  const heap = createMinHeap(band.length);
+  for (const li of band) heap.push(li, 0);
+  fastMarch(outside, heap, maxDist);
+
+  for (let i = 0; i < flags.length; i++) {
+    if (flags[i] === KNOWN && outside.dist[i] < FAR) dist[i] = -outside.dist[i];
+  }
+}
+
+function inpaintPixel(
+  out: Uint8ClampedArray,
+  width: number,
+  region: Region,
+  field: Field,
+  lx: number,
+  ly: number,
+  radius: number,
+  scratch: InpaintScratch
+) {
+  const { flags, dist } = field;
+  const { gradT, gradI, sums } = scratch;
+  const li = ly * region.w + lx;
+  gradient(field, lx, ly, gradT);
+  sums.fill(0);
+  let weightSum = 0;
+
+  for (let ny = ly - radius; ny <= ly + radius; ny++) {
+    if (ny < 0 || ny >= region.h) continue;
+    for (let nx = lx - radius; nx <= lx + radius; nx++) {
+      if (nx < 0 || nx >= region.w) continue;
+      const ni = ny * region.w + nx;
+      if (flags[ni] === INSIDE) continue;
+
+      const ry = ly - ny;
+      const rx = lx - nx;
+      const lengthSq = rx * rx + ry * ry;
+      if (lengthSq === 0 || lengthSq > radius * radius) continue;
+      const length = Math.sqrt(lengthSq);
+
+      const dirFactor = Math.abs(rx * gradT[0] + ry * gradT[1]) / length || 1e-6;
+      const levelFactor = 1 / (1 + Math.abs(dist[ni] - dist[li]));
+      const distFactor = 1 / lengthSq;
+      const weight = dirFactor * levelFactor * distFactor;
+
+      const pIdx = ((ny + region.y0) * width + nx + region.x0) * 4;
+      for (let c = 0; c < 3; c++) {
+        imageGradient(out, width, region, flags, nx, ny, c, gradI);
+        sums[c] += weight * (out[pIdx + c] + gradI[0] * rx + gradI[1] * ry);
+      }
+      weightSum += weight;
+    }
+  }
+
+  const oIdx = ((ly + region.y0) * width + lx + region.x0) * 4;
+  for (let c = 0; c < 3; c++) {
+    out[oIdx + c] = weightSum > 0 ? Math.round(sums[c] / weightSum) : 255;
+  }
+}
+
+function usableDistance(field: Field, x: number, y: number): boolean {
+  const { flags, dist, w, h } = field;
+  return x >= 0 && y >= 0 && x < w && y < h && flags[y * w + x] !== INSIDE && dist[y * w + x] < FAR;
+}
+
+/**
+ * Gradient của T tại (x, y), ghi vào `target`
+ */
+function gradient(field: Field, x: number, y: number, target: Float64Array) {
+  const { dist, w } = field;
+  const i = y * w + x;
+  const value = dist[i];
+
+  let gx = 0;
+  if (usableDistance(field, x + 1, y) && usableDistance(field, x - 1, y)) gx = (dist[i + 1] - dist[i - 1]) / 2;
+  else if (usableDistance(field, x + 1, y)) gx = dist[i + 1] - value;
+  else if (usableDistance(field, x - 1, y)) gx = value - dist[i - 1];
+
+  let gy = 0;
+  if (usableDistance(field, x, y + 1) && usableDistance(field, x, y - 1)) gy = (dist[i + w] - dist[i - w]) / 2;
+  else if (usableDistance(field, x, y + 1)) gy = dist[i + w] - value;
+  else if (usableDistance(field, x, y - 1)) gy = value - dist[i - w];
+
+  target[0] = gx;
+  target[1] = gy;
+}
+
+/**
+ * Gradient ảnh (sai phân trung tâm, chỉ dùng pixel đã biết) của một kênh màu, ghi vào `target`
+ */
+function imageGradient(
+  out: Uint8ClampedArray,
+  width: number,
+  region: Region,
+  flags: Uint8Array,
+  lx: number,
+  ly: number,
+  channel: number,
+  target: Float64Array
+) {
+  const { w, h } = region;
+  const idx = ((ly + region.y0) * width + lx + region.x0) * 4 + channel;
+  const li = ly * w + lx;
+  const horizontal = lx > 0 && lx < w - 1 && flags[li - 1] !== INSIDE && flags[li + 1] !== INSIDE;
+  const vertical = ly > 0 && ly < h - 1 && flags[li - w] !== INSIDE && flags[li + w] !== INSIDE;
+  target[0] = horizontal ? (out[idx + 4] - out[idx - 4]) / 2 : 0;
+  target[1] = vertical ? (out[idx + width * 4] - out[idx - width * 4]) / 2 : 0;
+}
+
+type MinHeap = {
+  size: () => number;
+  push: (item: number, key: number) => void;
+  pop: () => number;
+};
+
+/**
+ * Min-heap trên mảng typed, tự nới gấp đôi khi đầy (pixel có thể được đẩy lại khi giảm T)
+ */
+function createMinHeap(initialCapacity: number): MinHeap {
+  let items = new Int32Array(Math.max(16, initialCapacity));
+  let keys = new Float32Array(items.length);
+  let length = 0;
+
+  const swap = (a: number, b: number) => {
+    const item = items[a];
+    items[a] = items[b];
+    items[b] = item;
+    const key = keys[a];
+    keys[a] = keys[b];
+    keys[b] = key;
+  };
+
+  return {
+    size: () => length,
+    push(item: number, key: number) {
+      if (length === items.length) {
+        const grownItems = new Int32Array(items.length * 2);
+        grownItems.set(items);
+        items = grownItems;
+        const grownKeys = new Float32Array(keys.length * 2);
+        grownKeys.set(keys);
+        keys = grownKeys;
+      }
+      items[length] = item;
+      keys[length] = key;
+      let i = length++;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (keys[parent] <= keys[i]) break;
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    pop(): number {
+      const top = items[0];
+      length--;
+      if (length > 0) {
+        items[0] = items[length];
+        keys[0] = keys[length];
+        let i = 0;
+        for (;;) {
+          const left = i * 2 + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < length && keys[left] < keys[smallest]) smallest = left;
+          if (right < length && keys[right] < keys[smallest]) smallest = right;
+          if (smallest === i) break;
+          swap(i, smallest);
+          i = smallest;
+        }
+      }
+      return top;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import type { Mask } from './types';
+
+export const MASK_ON = 255;
+// Ngưỡng coi pixel của mask mềm là lõi nét (dùng cho phân tích hình học)
+export const MASK_CORE = 128;
+
+export function createMask(width: number, height: number): Mask {
+  return new Uint8Array(width * height);
+}
+
+export function binarizeMask(mask: Mask, threshold = MASK_CORE): Mask {
+  const out = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] >= threshold) out[i] = MASK_ON;
+  }
+  return out;
+}
+
+/**
+ * Dilation xám (max filter): mask nhị phân hay mềm đều dùng được
+ */
+export function dilateMask(mask: Mask, width: number, height: number, radius: number): Mask {
+  if (radius <= 0) return mask;
+  const out = new Uint8Array(mask);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = mask[y * width + x];
+      if (!value) continue;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const nIdx = ny * width + nx;
+          if (out[nIdx] < value) out[nIdx] = value;
+        }
+      }
+    }
+  }
+  return out;
+}
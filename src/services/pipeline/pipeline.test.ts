@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK, createImage, fillRect, PINK, pixelAt, RED, rectMask, testTuning } from '../../test/pixels';
+import { runPipeline } from './pipeline';
+
+describe('runPipeline', () => {
+  it('xóa nét đỏ, giữ chữ đen và không sửa ảnh đầu vào', () => {
+    const input = createImage(40, 40);
+    fillRect(input, 5, 5, 10, 3, RED);
+    fillRect(input, 5, 20, 30, 6, BLACK);
+
+    const result = runPipeline(input, testTuning({ dilateRadius: 1 }));
+
+    expect(pixelAt(result.image, 8, 6)).toEqual([255, 255, 255]);
+    expect(pixelAt(result.image, 8, 21)).toEqual(BLACK);
+    expect(pixelAt(input, 8, 6)).toEqual(RED);
+    expect(result.diagnostics.residual!.pixels).toBe(0);
+    expect(result.trace.map((t) => t.name)).toEqual([
+      'hsv-detect',
+      'protect-student-ink',
+      'dilate',
+      'ai-regions',
+      'average-inpaint',
+      'verify',
+    ]);
+  });
+
+  it('tuning mặc định giữ bài làm viết bút đỏ, chỉ xóa nét chấm màu khác', () => {
+    const input = createImage(60, 60);
+    fillRect(input, 0, 0, 60, 24, BLACK);
+    fillRect(input, 0, 30, 60, 14, RED);
+    fillRect(input, 0, 50, 60, 4, PINK);
+
+    const result = runPipeline(input, testTuning());
+
+    expect(result.diagnostics.studentInkSource).toBe('auto');
+    expect(pixelAt(result.image, 20, 36)).toEqual(RED);
+    expect(pixelAt(result.image, 20, 51)).toEqual([255, 255, 255]);
+  });
+
+  it('pixel được bảo vệ bị loại khỏi mask sau mỗi stage', () => {
+    const input = createImage(100, 100);
+    fillRect(input, 5, 10, 90, 2, RED);
+    fillRect(input, 40, 50, 3, 3, RED);
+
+    const result = runPipeline(input, testTuning({ preserveLayout: true, protectStudentInk: false }));
+
+    expect(pixelAt(result.image, 50, 10)).toEqual(RED);
+    expect(pixelAt(result.image, 41, 51)).toEqual([255, 255, 255]);
+  });
+
+  it('mask tô tay chỉ chạy inpaint trên vùng được tô', () => {
+    const input = createImage(20, 20);
+    fillRect(input, 2, 2, 4, 4, RED);
+    fillRect(input, 12, 12, 4, 4, RED);
+
+    const result = runPipeline(input, testTuning(), { manualMask: rectMask(20, 20, [[2, 2, 4, 4]]) });
+
+    expect(pixelAt(result.image, 3, 3)).toEqual([255, 255, 255]);
+    expect(pixelAt(result.image, 13, 13)).toEqual(RED);
+  });
+});
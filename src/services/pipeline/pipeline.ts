@@ -0,0 +1,128 @@
+import type { DetectionMode, InpaintMode, RedDetectionTuning } from '../../models/appModels';
+import { hsvDetectStage, labDetectStage, manualMaskStage } from './detect';
+import { averageInpaintStage, teleaInpaintStage } from './inpaint';
+import { createMask } from './mask';
+import { protectStudentInkStage } from './inkClusters';
+import { dilateStage, preserveLayoutStage } from './refine';
+import { regionsStage } from './regions';
+import { verifyStage } from './verify';
+import type {
+  Mask,
+  PipelineDefinition,
+  PipelineOptions,
+  PipelineResult,
+  PipelineStage,
+  PipelineStageKind,
+  PipelineState,
+  PixelBuffer,
+  StageTrace,
+} from './types';
+
+export const STAGE_ORDER: PipelineStageKind[] = ['detect', 'refine', 'inpaint', 'postprocess'];
+
+export const DEFAULT_PIPELINE: PipelineDefinition = {
+  detect: [hsvDetectStage],
+  refine: [dilateStage],
+  inpaint: [averageInpaintStage],
+  postprocess: [],
+};
+
+const DETECT_STAGES: Record<DetectionMode, PipelineStage> = {
+  hsv: hsvDetectStage,
+  lab: labDetectStage,
+};
+
+const INPAINT_STAGES: Record<InpaintMode, PipelineStage> = {
+  average: averageInpaintStage,
+  telea: teleaInpaintStage,
+};
+
+/**
+ * Pipeline mặc định với bước phát hiện theo `tuning.detectionMode` và inpaint theo `tuning.inpaintMode`
+ */
+export function pipelineForTuning(tuning: RedDetectionTuning): PipelineDefinition {
+  const refine = [
+    protectStudentInkStage,
+    ...(tuning.preserveLayout ? [preserveLayoutStage] : []),
+    dilateStage,
+    // Chạy sau dilation để vùng AI khoanh là giới hạn cuối cùng
+    regionsStage,
+  ];
+  return withStages(DEFAULT_PIPELINE, {
+    detect: [DETECT_STAGES[tuning.detectionMode] ?? hsvDetectStage],
+    refine,
+    inpaint: [INPAINT_STAGES[tuning.inpaintMode] ?? averageInpaintStage],
+    postprocess: [verifyStage],
+  });
+}
+
+/**
+ * Pipeline cho vùng tô tay: mask lấy từ `options.manualMask`, chỉ inpaint
+ */
+export function pipelineForManualMask(tuning: RedDetectionTuning): PipelineDefinition {
+  return {
+    ...DEFAULT_PIPELINE,
+    detect: [manualMaskStage],
+    refine: [],
+    inpaint: [INPAINT_STAGES[tuning.inpaintMode] ?? averageInpaintStage],
+  };
+}
+
+/**
+ * Chạy pipeline xóa nét màu trên buffer RGBA thuần (không cần DOM).
+ * Ảnh đầu vào không bị sửa; mask sau mỗi stage được giữ lại trong `trace`.
+ */
+export function runPipeline(
+  input: PixelBuffer,
+  tuning: RedDetectionTuning,
+  options: PipelineOptions = {},
+  pipeline: PipelineDefinition = options.manualMask ? pipelineForManualMask(tuning) : pipelineForTuning(tuning)
+): PipelineResult {
+  const state: PipelineState = {
+    source: input,
+    image: { width: input.width, height: input.height, data: new Uint8ClampedArray(input.data) },
+    mask: createMask(input.width, input.height),
+    protect: createMask(input.width, input.height),
+    tuning,
+    options,
+    diagnostics: {},
+  };
+  const trace: StageTrace[] = [];
+
+  for (const kind of STAGE_ORDER) {
+    for (const stage of pipeline[kind]) {
+      const startedAt = now();
+      const output = stage.run(state);
+      if (output.image) state.image = output.image;
+      if (output.protect) state.protect = output.protect;
+      if (output.mask || output.protect) {
+        state.mask = applyProtection(output.mask ?? new Uint8Array(state.mask), state.protect);
+      }
+      if (output.diagnostics) state.diagnostics = { ...state.diagnostics, ...output.diagnostics };
+      trace.push({ name: stage.name, kind, mask: state.mask, durationMs: now() - startedAt });
+    }
+  }
+
+  return { image: state.image, mask: state.mask, trace, diagnostics: state.diagnostics };
+}
+
+/**
+ * Thay toàn bộ stage của một bước, ví dụ đổi thuật toán inpaint
+ */
+export function withStages(
+  pipeline: PipelineDefinition,
+  overrides: Partial<PipelineDefinition>
+): PipelineDefinition {
+  return { ...pipeline, ...overrides };
+}
+
+function applyProtection(mask: Mask, protect: Mask): Mask {
+  for (let i = 0; i < mask.length; i++) {
+    if (protect[i]) mask[i] = 0;
+  }
+  return mask;
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { countMask, createImage, maskAt, rectMask, stageState, testTuning } from '../../test/pixels';
+import { dilateStage, preserveLayoutStage } from './refine';
+
+describe('dilateStage', () => {
+  it('nới mask theo dilateRadius', () => {
+    const image = createImage(9, 9);
+    const mask = rectMask(9, 9, [[4, 4, 1, 1]]);
+
+    const grown = dilateStage.run(stageState(image, { mask, tuning: testTuning({ dilateRadius: 1 }) })).mask!;
+    const unchanged = dilateStage.run(stageState(image, { mask, tuning: testTuning({ dilateRadius: 0 }) })).mask!;
+
+    expect(countMask(grown)).toBeGreaterThan(1);
+    expect(maskAt(grown, 9, 3, 4)).toBeGreaterThan(0);
+    expect(maskAt(grown, 9, 1, 4)).toBe(0);
+    expect(countMask(unchanged)).toBe(1);
+  });
+});
+
+describe('preserveLayoutStage', () => {
+  it('bảo vệ đường kẻ và khung in sẵn, để nét viết tay trong mask', () => {
+    const size = 100;
+    const image = createImage(size, size);
+    const mask = rectMask(size, size, [
+      // Đường kẻ ngang
+      [5, 10, 90, 2],
+      // Khung
+      [20, 30, 60, 2],
+      [20, 88, 60, 2],
+      [20, 30, 2, 60],
+      [78, 30, 2, 60],
+    ]);
+    // Nét chéo viết tay trong khung
+    for (let i = 0; i < 20; i++) {
+      const thickness = i % 5 < 2 ? 4 : 1;
+      for (let t = 0; t < thickness; t++) mask[(45 + i) * size + 35 + i + t] = 255;
+    }
+
+    const { protect, diagnostics } = preserveLayoutStage.run(stageState(image, { mask }));
+
+    expect(maskAt(protect!, size, 50, 10)).toBe(255);
+    expect(maskAt(protect!, size, 20, 60)).toBe(255);
+    expect(maskAt(protect!, size, 40, 50)).toBe(0);
+    expect(diagnostics!.components!.map((c) => c.kind).sort()).toEqual(['annotation', 'frame', 'rule-line']);
+  });
+});
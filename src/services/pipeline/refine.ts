@@ -0,0 +1,43 @@
+import { classifyComponents, toDecision } from './components';
+import { binarizeMask, dilateMask, MASK_ON } from './mask';
+import type { PipelineStage } from './types';
+
+/**
+ * Dilation nhẹ để bao phủ viền nét đỏ
+ */
+export const dilateStage: PipelineStage = {
+  name: 'dilate',
+  run: ({ image, mask, tuning }) => ({
+    mask: dilateMask(mask, image.width, image.height, tuning.dilateRadius),
+  }),
+};
+
+/**
+ * Bảo vệ bố cục in sẵn màu đỏ (đường kẻ, khung, tiêu đề): các thành phần này
+ * được đưa vào vùng protect, chỉ nét viết tay còn lại trong mask
+ */
+export const preserveLayoutStage: PipelineStage = {
+  name: 'preserve-layout',
+  run: ({ image, mask, protect, tuning }) => {
+    const { width, height } = image;
+    // Mask mềm: chỉ phân tích lõi nét để viền mờ không nối các thành phần với nhau
+    const components = classifyComponents(binarizeMask(mask), width, height);
+    const kept = new Uint8Array(mask.length);
+    for (const component of components) {
+      if (component.kind === 'annotation') continue;
+      for (const idx of component.pixels) kept[idx] = MASK_ON;
+    }
+
+    // Nới vùng giữ theo dilateRadius để bước dilation không ăn vào viền khung
+    const grown = dilateMask(kept, width, height, tuning.dilateRadius);
+    const nextProtect = new Uint8Array(protect);
+    for (let i = 0; i < grown.length; i++) {
+      if (grown[i]) nextProtect[i] = MASK_ON;
+    }
+
+    return {
+      protect: nextProtect,
+      diagnostics: { components: components.map(toDecision) },
+    };
+  },
+};
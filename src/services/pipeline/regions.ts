@@ -0,0 +1,104 @@
+import type { MarkRegion } from '../../models/appModels';
+import { createMask, MASK_ON } from './mask';
+import type { Mask, PipelineStage } from './types';
+
+// Nới vùng AI khoanh (tỉ lệ theo cạnh dài) vì hộp của model thường sát hoặc hụt nét
+const REGION_PADDING_RATIO = 0.01;
+
+/**
+ * Tô các đa giác (tọa độ chuẩn hóa) thành mask theo quy tắc chẵn-lẻ
+ */
+export function rasterizeRegions(regions: MarkRegion[], width: number, height: number, padding = 0): Mask {
+  const mask = createMask(width, height);
+  for (const region of regions) {
+    const points = region.points.map(([x, y]) => [x * width, y * height] as const);
+    if (points.length < 3) continue;
+    for (let y = 0; y < height; y++) {
+      const cy = y + 0.5;
+      const crossings: number[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const [x0, y0] = points[i];
+        const [x1, y1] = points[(i + 1) % points.length];
+        if ((y0 <= cy && y1 > cy) || (y1 <= cy && y0 > cy)) {
+          crossings.push(x0 + ((cy - y0) / (y1 - y0)) * (x1 - x0));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const from = Math.max(0, Math.round(crossings[i]));
+        const to = Math.min(width, Math.round(crossings[i + 1]));
+        mask.fill(MASK_ON, y * width + from, y * width + to);
+      }
+    }
+  }
+  return padding > 0 ? boxDilate(mask, width, height, padding) : mask;
+}
+
+/**
+ * Giới hạn mask vào vùng annotation AI khoanh và đưa vùng keep vào protect.
+ * Không có vùng nào thì giữ nguyên kết quả phát hiện màu trên toàn trang.
+ */
+export const regionsStage: PipelineStage = {
+  name: 'ai-regions',
+  run: ({ image, mask, protect, options }) => {
+    const regions = options.regions ?? [];
+    if (!regions.length) return {};
+    const { width, height } = image;
+    const padding = Math.round(Math.max(width, height) * REGION_PADDING_RATIO);
+
+    const annotations = regions.filter((region) => region.kind === 'annotation');
+    const keeps = regions.filter((region) => region.kind === 'keep');
+
+    let nextMask: Mask | undefined;
+    if (annotations.length) {
+      const allowed = rasterizeRegions(annotations, width, height, padding);
+      nextMask = new Uint8Array(mask);
+      for (let i = 0; i < nextMask.length; i++) {
+        if (!allowed[i]) nextMask[i] = 0;
+      }
+    }
+
+    let nextProtect: Mask | undefined;
+    if (keeps.length) {
+      // Vùng keep không nới để không lấn sang nét chấm sát bên
+      const keep = rasterizeRegions(keeps, width, height);
+      nextProtect = new Uint8Array(protect);
+      for (let i = 0; i < keep.length; i++) {
+        if (keep[i]) nextProtect[i] = MASK_ON;
+      }
+    }
+
+    return { mask: nextMask, protect: nextProtect };
+  },
+};
+
+// Nới mask nhị phân theo hình vuông, tách theo hàng/cột để chạy nhanh với bán kính lớn
+function boxDilate(mask: Mask, width: number, height: number, radius: number): Mask {
+  const rows = createMask(width, height);
+  for (let y = 0; y < height; y++) {
+    let last = -Infinity;
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) last = x;
+      if (x - last <= radius) rows[y * width + x] = MASK_ON;
+    }
+    last = Infinity;
+    for (let x = width - 1; x >= 0; x--) {
+      if (mask[y * width + x]) last = x;
+      if (last - x <= radius) rows[y * width + x] = MASK_ON;
+    }
+  }
+  const out = createMask(width, height);
+  for (let x = 0; x < width; x++) {
+    let last = -Infinity;
+    for (let y = 0; y < height; y++) {
+      if (rows[y * width + x]) last = y;
+      if (y - last <= radius) out[y * width + x] = MASK_ON;
+    }
+    last = Infinity;
+    for (let y = height - 1; y >= 0; y--) {
+      if (rows[y * width + x]) last = y;
+      if (last - y <= radius) out[y * width + x] = MASK_ON;
+    }
+  }
+  return out;
+}
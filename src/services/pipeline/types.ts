@@ -0,0 +1,90 @@
+import type {
+  InkCluster,
+  LabColor,
+  LayoutComponentDecision,
+  MarkRegion,
+  PageProcessingMeta,
+  RedDetectionTuning,
+} from '../../models/appModels';
+
+/**
+ * Ảnh RGBA không phụ thuộc DOM (tương thích cấu trúc với ImageData)
+ */
+export type PixelBuffer = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+};
+
+/**
+ * Mask 1 byte/pixel: 0 = giữ nguyên, MASK_ON = cần xóa
+ */
+export type Mask = Uint8Array;
+
+export type PipelineStageKind = 'detect' | 'refine' | 'inpaint' | 'postprocess';
+
+export type PipelineState = {
+  // Ảnh gốc, không bị sửa trong suốt pipeline
+  source: Readonly<PixelBuffer>;
+  // Ảnh đang xử lý
+  image: PixelBuffer;
+  mask: Mask;
+  // Pixel được bảo vệ: luôn bị loại khỏi mask sau mỗi stage
+  protect: Mask;
+  tuning: RedDetectionTuning;
+  options: PipelineOptions;
+  diagnostics: PipelineDiagnostics;
+};
+
+/**
+ * Dữ liệu theo từng trang, không thuộc tuning
+ */
+export type PipelineOptions = {
+  // Màu mực học sinh do người vận hành chọn; không truyền = tự phân cụm
+  studentInks?: LabColor[];
+  // Vùng người vận hành tô để xóa: chỉ chạy inpaint trên mask này, bỏ qua phát hiện màu
+  manualMask?: Mask;
+  // Vùng AI khoanh: chỉ xóa trong vùng annotation (nếu có), luôn giữ vùng keep
+  regions?: MarkRegion[];
+};
+
+// Mực còn sót sau inpaint, đo bằng band mặc định (nới lỏng) của các profile được chọn
+export type ResidualMeasure = {
+  pixels: number;
+  ratio: number;
+};
+
+export type PipelineDiagnostics = {
+  residual?: ResidualMeasure;
+  // Tỉ lệ pixel đã xóa nằm sát chữ/nét tối màu: cao nghĩa là dễ ăn vào bài làm
+  textContact?: number;
+  // Tỉ lệ diện tích trang bị xóa
+  maskCoverage?: number;
+  components?: LayoutComponentDecision[];
+  inkClusters?: InkCluster[];
+  studentInkSource?: PageProcessingMeta['studentInkSource'];
+};
+
+export type StageOutput = Partial<Pick<PipelineState, 'image' | 'mask' | 'protect' | 'diagnostics'>>;
+
+export type PipelineStage = {
+  name: string;
+  run: (state: PipelineState) => StageOutput;
+};
+
+export type PipelineDefinition = Record<PipelineStageKind, PipelineStage[]>;
+
+export type StageTrace = {
+  name: string;
+  kind: PipelineStageKind;
+  // Mask sau khi stage chạy xong
+  mask: Mask;
+  durationMs: number;
+};
+
+export type PipelineResult = {
+  image: PixelBuffer;
+  mask: Mask;
+  trace: StageTrace[];
+  diagnostics: PipelineDiagnostics;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK, createImage, fillRect, RED, rectMask, stageState } from '../../test/pixels';
+import { verifyStage } from './verify';
+
+describe('verifyStage', () => {
+  it('đếm mực đỏ còn sót ngoài vùng bảo vệ', () => {
+    const image = createImage(20, 20);
+    fillRect(image, 2, 2, 4, 4, RED);
+    fillRect(image, 10, 10, 2, 2, RED);
+    const protect = rectMask(20, 20, [[10, 10, 2, 2]]);
+
+    const { diagnostics } = verifyStage.run(stageState(image, { protect }));
+
+    expect(diagnostics!.residual).toEqual({ pixels: 16, ratio: 1 });
+  });
+
+  it('trang sạch không còn mực sót, ghi lại diện tích xóa và độ chạm chữ', () => {
+    const source = createImage(20, 20);
+    fillRect(source, 4, 4, 4, 1, RED);
+    fillRect(source, 4, 5, 4, 1, BLACK);
+    const mask = rectMask(20, 20, [[4, 4, 4, 1]]);
+
+    const { diagnostics } = verifyStage.run(stageState(createImage(20, 20), { source, mask }));
+
+    expect(diagnostics!.residual).toEqual({ pixels: 0, ratio: 0 });
+    expect(diagnostics!.maskCoverage).toBe(4 / 400);
+    expect(diagnostics!.textContact).toBe(1);
+  });
+
+  it('chỉ tính mực sót trong vùng annotation AI khoanh', () => {
+    const image = createImage(20, 20);
+    fillRect(image, 0, 0, 4, 4, RED);
+    fillRect(image, 14, 14, 4, 4, RED);
+    const regions = [{ kind: 'annotation' as const, points: [[0, 0], [0.5, 0], [0.5, 0.5], [0, 0.5]] as [number, number][] }];
+
+    const { diagnostics } = verifyStage.run(stageState(image, { options: { regions } }));
+
+    expect(diagnostics!.residual!.pixels).toBe(16);
+  });
+});
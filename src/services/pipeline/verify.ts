@@ -0,0 +1,93 @@
+import { getInkProfiles } from '../../const/inkProfiles';
+import type { HsvBand } from '../../models/appModels';
+import { rgbToHsv } from './color';
+import { matchesBand } from './detect';
+import { MASK_CORE } from './mask';
+import { rasterizeRegions } from './regions';
+import type { Mask, PipelineStage, PixelBuffer, ResidualMeasure } from './types';
+
+// Band kiểm tra rộng hơn band mặc định để bắt phần mực nhạt tuning đã bỏ sót
+const VERIFY_RELAX = 0.8;
+// Trang gần như không có mực: tỉ lệ tính trên tối thiểu chừng này pixel để nhiễu không bị phóng đại
+const MIN_INK_FRACTION = 0.0005;
+// Pixel gốc tối hơn ngưỡng này (độ sáng 0..255) coi là chữ/nét mực tối
+const DARK_LUMA = 90;
+const TEXT_CONTACT_RADIUS = 2;
+
+/**
+ * Band dùng để kiểm tra: band mặc định của các profile có màu (bỏ bút chì vì dễ lẫn chữ in xám)
+ */
+function verificationBands(inkProfiles: Parameters<typeof getInkProfiles>[0]): HsvBand[] {
+  return getInkProfiles(inkProfiles)
+    .filter((profile) => profile.tunable)
+    .flatMap((profile) => profile.bands)
+    .map((band) => ({ ...band, sMin: band.sMin * VERIFY_RELAX, vMin: band.vMin * VERIFY_RELAX }));
+}
+
+/**
+ * Đo mực còn sót trên ảnh đã xử lý: chỉ tính pixel không được bảo vệ
+ * và nằm trong vùng annotation AI khoanh (nếu có)
+ */
+export const verifyStage: PipelineStage = {
+  name: 'verify',
+  run: ({ source, image, mask, protect, tuning, options }) => {
+    const { width, height, data } = image;
+    const bands = verificationBands(tuning.inkProfiles);
+    const annotations = (options.regions ?? []).filter((region) => region.kind === 'annotation');
+    const allowed = annotations.length ? rasterizeRegions(annotations, width, height) : null;
+
+    let residual = 0;
+    let removed = 0;
+    for (let i = 0; i < width * height; i++) {
+      if (mask[i] >= MASK_CORE) removed += 1;
+      if (protect[i] || (allowed && !allowed[i])) continue;
+      const idx = i * 4;
+      if (data[idx + 3] < 10) continue;
+      const { h, s, v } = rgbToHsv(data[idx] / 255, data[idx + 1] / 255, data[idx + 2] / 255);
+      if (bands.some((band) => matchesBand(h, s, v, band))) residual += 1;
+    }
+
+    const total = Math.max(removed + residual, width * height * MIN_INK_FRACTION, 1);
+    const measure: ResidualMeasure = { pixels: residual, ratio: residual / total };
+    return {
+      diagnostics: {
+        residual: measure,
+        textContact: measureTextContact(source, mask, removed),
+        maskCoverage: removed / Math.max(width * height, 1),
+      },
+    };
+  },
+};
+
+/**
+ * Tỉ lệ pixel bị xóa có pixel tối (chưa bị xóa) trong bán kính nhỏ trên ảnh gốc
+ */
+function measureTextContact(source: Readonly<PixelBuffer>, mask: Mask, removed: number): number {
+  if (!removed) return 0;
+  const { width, height, data } = source;
+  const isDark = (i: number) => {
+    const idx = i * 4;
+    return data[idx] * 0.299 + data[idx + 1] * 0.587 + data[idx + 2] * 0.114 < DARK_LUMA;
+  };
+
+  let touching = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] < MASK_CORE) continue;
+      search: for (let dy = -TEXT_CONTACT_RADIUS; dy <= TEXT_CONTACT_RADIUS; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -TEXT_CONTACT_RADIUS; dx <= TEXT_CONTACT_RADIUS; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const n = ny * width + nx;
+          if (mask[n] < MASK_CORE && isDark(n)) {
+            touching += 1;
+            break search;
+          }
+        }
+      }
+    }
+  }
+  return touching / removed;
+}
@@ -0,0 +1,80 @@
+import { INK_PROFILES } from '../const/inkProfiles';
+import type { InkProfileId, TuningOverride, TuningPreset } from '../models/appModels';
+import { normalizeTuningOverride } from './tuningService';
+
+const PRESET_FILE_FORMAT = 'pdf-red-removal-presets';
+const PRESET_FILE_VERSION = 1;
+
+type PresetFile = {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: TuningPreset[];
+};
+
+const generatePresetId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `preset-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+};
+
+export const createPreset = (
+  name: string,
+  description: string,
+  inkProfile: InkProfileId,
+  tuning: TuningOverride
+): TuningPreset => ({
+  id: generatePresetId(),
+  name: name.trim(),
+  description: description.trim(),
+  inkProfile,
+  tuning,
+  updatedAt: Date.now(),
+});
+
+export const exportPresetsJson = (presets: TuningPreset[]): string => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Đọc file preset do nơi khác xuất ra. Preset thiếu tên bị bỏ qua, ngưỡng lỗi được kẹp về khoảng hợp lệ.
+ */
+export const parsePresetsJson = (text: string, fallback: TuningOverride): TuningPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File preset không phải JSON hợp lệ');
+  }
+
+  const file = parsed as Partial<PresetFile>;
+  if (!file || file.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error('File không đúng định dạng preset');
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    throw new Error('File preset được tạo bởi phiên bản mới hơn, chưa hỗ trợ');
+  }
+
+  return file.presets.flatMap((raw): TuningPreset[] => {
+    const item = (raw ?? {}) as Partial<TuningPreset>;
+    if (typeof item.name !== 'string' || !item.name.trim()) return [];
+    const inkProfile = item.inkProfile && item.inkProfile in INK_PROFILES ? item.inkProfile : 'red';
+    return [
+      {
+        id: typeof item.id === 'string' && item.id ? item.id : generatePresetId(),
+        name: item.name.trim(),
+        description: typeof item.description === 'string' ? item.description.trim() : '',
+        inkProfile,
+        tuning: normalizeTuningOverride(item.tuning, fallback),
+        updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : Date.now(),
+      },
+    ];
+  });
+};
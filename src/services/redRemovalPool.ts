@@ -0,0 +1,169 @@
+import RedRemovalWorker from '../workers/redRemoval.worker.ts?worker';
+import type { RedDetectionTuning } from '../models/appModels';
+import type { PipelineDiagnostics, PipelineOptions } from './pipeline/types';
+import type { RedRemovalRequest, RedRemovalResponse, RedRemovalResult } from '../workers/redRemoval.worker';
+
+type JobOutput = {
+  result: RedRemovalResult;
+  diagnostics: PipelineDiagnostics;
+};
+
+export type RedRemovalOutput = {
+  imageData: ImageData;
+  // Mask vùng đã xóa (0..255), cùng kích thước ảnh
+  mask: Uint8Array;
+  diagnostics: PipelineDiagnostics;
+};
+
+export type EncodedRedRemovalOutput = {
+  // Ảnh đã làm sạch và mask vùng đã xóa (tô màu, trong suốt), mã hóa PNG trong worker
+  image: Blob;
+  mask: Blob;
+  width: number;
+  height: number;
+  diagnostics: PipelineDiagnostics;
+};
+
+type PendingJob = {
+  request: RedRemovalRequest;
+  resolve: (output: JobOutput) => void;
+  reject: (error: Error) => void;
+};
+
+type PoolSlot = {
+  worker: Worker;
+  job: PendingJob | null;
+};
+
+const MAX_POOL_SIZE = 6;
+// Tổng số pixel các worker được xử lý cùng lúc: mỗi pixel tốn ~40 byte trong worker (RGBA vào/ra, mask
+// từng stage, nhãn thành phần và stack Int32, map nét Uint16), ~1 GB ở mức này. Trang lớn chạy ít song song hơn.
+const MAX_IN_FLIGHT_PIXELS = 24_000_000;
+
+const slots: PoolSlot[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+let inFlightPixels = 0;
+
+const jobPixels = (job: PendingJob) => job.request.width * job.request.height;
+
+/**
+ * Số worker dùng cho pool: chừa lại 1 nhân cho UI thread
+ */
+export const getRedRemovalPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+};
+
+const spawnWorker = (slot: PoolSlot): Worker => {
+  const worker = new RedRemovalWorker();
+  worker.addEventListener('message', (event: MessageEvent<RedRemovalResponse>) => {
+    handleResponse(slot, event.data);
+  });
+  worker.addEventListener('error', (event) => {
+    handleCrash(slot, event.message || 'Worker xử lý ảnh bị lỗi');
+  });
+  return worker;
+};
+
+const ensureSlots = () => {
+  if (slots.length) return;
+  const size = getRedRemovalPoolSize();
+  for (let i = 0; i < size; i++) {
+    const slot = { job: null } as PoolSlot;
+    slot.worker = spawnWorker(slot);
+    slots.push(slot);
+  }
+};
+
+const handleResponse = (slot: PoolSlot, response: RedRemovalResponse) => {
+  const job = slot.job;
+  slot.job = null;
+  if (job) inFlightPixels -= jobPixels(job);
+  if (job && job.request.id === response.id) {
+    if (response.ok) {
+      job.resolve({ result: response.result, diagnostics: response.diagnostics });
+    } else {
+      job.reject(new Error(response.error));
+    }
+  }
+  dispatch();
+};
+
+const handleCrash = (slot: PoolSlot, message: string) => {
+  const job = slot.job;
+  slot.job = null;
+  if (job) inFlightPixels -= jobPixels(job);
+  // Thay worker hỏng bằng worker mới để pool không bị co lại
+  slot.worker.terminate();
+  slot.worker = spawnWorker(slot);
+  job?.reject(new Error(message));
+  dispatch();
+};
+
+/**
+ * Giao job cho worker rảnh theo thứ tự hàng đợi, dừng khi vượt ngân sách pixel
+ * (luôn cho chạy ít nhất một job để trang lớn không bị kẹt)
+ */
+const dispatch = () => {
+  for (const slot of slots) {
+    if (slot.job) continue;
+    const job = queue[0];
+    if (!job) return;
+    if (inFlightPixels > 0 && inFlightPixels + jobPixels(job) > MAX_IN_FLIGHT_PIXELS) return;
+    queue.shift();
+    inFlightPixels += jobPixels(job);
+    slot.job = job;
+    const transfer: Transferable[] = [job.request.source];
+    if (job.request.options.manualMask) transfer.push(job.request.options.manualMask.buffer as ArrayBuffer);
+    slot.worker.postMessage(job.request, transfer);
+  }
+};
+
+const enqueue = (
+  source: RedRemovalRequest['source'],
+  width: number,
+  height: number,
+  tuning: RedDetectionTuning,
+  options: PipelineOptions
+): Promise<JobOutput> => {
+  ensureSlots();
+  return new Promise<JobOutput>((resolve, reject) => {
+    queue.push({ request: { id: nextJobId++, width, height, source, tuning, options }, resolve, reject });
+    dispatch();
+  });
+};
+
+/**
+ * Chạy thuật toán xóa nét đỏ trên worker pool.
+ * Buffer của `imageData` được transfer sang worker nên không dùng lại được sau khi gọi.
+ */
+export const runRedRemoval = async (
+  imageData: ImageData,
+  tuning: RedDetectionTuning,
+  options: PipelineOptions = {}
+): Promise<RedRemovalOutput> => {
+  const { width, height } = imageData;
+  const { result, diagnostics } = await enqueue(imageData.data.buffer as ArrayBuffer, width, height, tuning, options);
+  if (result.kind !== 'pixels') throw new Error('Worker trả về sai dạng kết quả');
+  return {
+    imageData: new ImageData(new Uint8ClampedArray(result.buffer), width, height),
+    mask: new Uint8Array(result.maskBuffer),
+    diagnostics,
+  };
+};
+
+/**
+ * Như runRedRemoval nhưng giải mã ảnh và mã hóa PNG kết quả ngay trong worker, UI thread không phải
+ * đọc/ghi điểm ảnh của cả trang. `bitmap` được transfer (và đóng) nên mỗi lần chạy cần bitmap riêng.
+ */
+export const runEncodedRedRemoval = async (
+  bitmap: ImageBitmap,
+  tuning: RedDetectionTuning,
+  options: PipelineOptions = {}
+): Promise<EncodedRedRemovalOutput> => {
+  const { width, height } = bitmap;
+  const { result, diagnostics } = await enqueue(bitmap, width, height, tuning, options);
+  if (result.kind !== 'png') throw new Error('Worker trả về sai dạng kết quả');
+  return { image: result.image, mask: result.mask, width, height, diagnostics };
+};
@@ -0,0 +1,57 @@
+import type { FileProcessingState, PageProcessingMeta } from '../models/appModels';
+
+export const REPORT_FORMAT = 'pdf-red-removal-report';
+const REPORT_VERSION = 1;
+
+/**
+ * Báo cáo xử lý một file (JSON): mỗi trang ghi phiên bản prompt, model, nguồn tuning,
+ * kết quả kiểm tra và quyết định duyệt để biết lô nào chạy với cấu hình nào
+ */
+export const buildProcessingReport = (fileName: string, state: FileProcessingState): string => {
+  // Trang vector, trang giữ nguyên không có meta raster nên pageMeta có thể thưa
+  const exportMode = (pageIndex: number) => {
+    if (state.editedPages[pageIndex]) return 'raster';
+    if (state.passThroughPages[pageIndex]) return 'original';
+    return state.vectorPages[pageIndex]?.kind === 'vector' ? 'vector' : 'raster';
+  };
+  const pages = Array.from(state.pageMeta, (meta: PageProcessingMeta | undefined, pageIndex) => ({
+    page: pageIndex + 1,
+    mode: exportMode(pageIndex),
+    passThrough: state.passThroughPages[pageIndex] ?? null,
+    removedAnnotations: state.vectorPages[pageIndex]?.removedAnnotations ?? 0,
+    removedVectorPaths: state.vectorPages[pageIndex]?.removedPaths ?? 0,
+    promptVersion: meta?.promptVersion ?? null,
+    model: meta?.tuningOutcome?.model ?? null,
+    tuningSource: meta?.tuningOutcome?.source ?? null,
+    tuningCache: meta?.tuningOutcome?.cache ?? null,
+    failure: meta?.tuningOutcome?.failure ?? null,
+    tuning: meta
+      ? {
+          sMin: meta.tuning.sMin,
+          vMin: meta.tuning.vMin,
+          hueA: meta.tuning.hueA,
+          hueB: meta.tuning.hueB,
+          dilateRadius: meta.tuning.dilateRadius,
+          inpaintRadius: meta.tuning.inpaintRadius,
+        }
+      : null,
+    residualRatio: meta?.verification?.residualRatio ?? null,
+    escalations: meta?.verification?.escalations ?? 0,
+    confidence: meta?.confidence?.score ?? null,
+    review: state.pageReview[pageIndex] ?? null,
+    manualEdits: !!state.pageEdits[pageIndex]?.length,
+  }));
+
+  return JSON.stringify(
+    {
+      format: REPORT_FORMAT,
+      version: REPORT_VERSION,
+      file: fileName,
+      generatedAt: new Date().toISOString(),
+      promptVersions: Array.from(new Set(pages.map((page) => page.promptVersion).filter(Boolean))),
+      pages,
+    },
+    null,
+    2
+  );
+};
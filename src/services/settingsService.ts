@@ -0,0 +1,130 @@
+import {
+  AI_SETTINGS_STORAGE_KEY,
+  EXPORT_SETTINGS_STORAGE_KEY,
+  REMOVAL_SETTINGS_STORAGE_KEY,
+  RENDER_SETTINGS_STORAGE_KEY,
+} from '../const/appConstants';
+import { DEFAULT_PROMPT_VERSION, getPromptTemplate } from '../const/ai/prompt';
+import type { ExportSettings, RemovalSettings, RenderSettings } from '../models/appModels';
+
+export type AiSettings = {
+  promptVersion: string;
+};
+
+/**
+ * Cài đặt AI lưu riêng trong localStorage, không bị xóa cùng dữ liệu file
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const raw = window.localStorage.getItem(AI_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<AiSettings>) : {};
+    // Phiên bản đã bị gỡ khỏi registry thì quay về mặc định
+    return { promptVersion: getPromptTemplate(parsed.promptVersion ?? DEFAULT_PROMPT_VERSION).id };
+  } catch {
+    return { promptVersion: DEFAULT_PROMPT_VERSION };
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings): void => {
+  try {
+    window.localStorage.setItem(AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Không thể lưu cài đặt AI', error);
+  }
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  colorMode: 'color',
+  format: 'png',
+  jpegQuality: 0.85,
+  targetSizeMb: null,
+  ocrTextLayer: false,
+};
+
+const clampQuality = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0.3, Math.min(0.95, value)) : DEFAULT_EXPORT_SETTINGS.jpegQuality;
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const raw = window.localStorage.getItem(EXPORT_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<ExportSettings>) : {};
+    return {
+      colorMode: ['color', 'grayscale', 'bilevel'].includes(parsed.colorMode ?? '')
+        ? (parsed.colorMode as ExportSettings['colorMode'])
+        : DEFAULT_EXPORT_SETTINGS.colorMode,
+      format: parsed.format === 'jpeg' ? 'jpeg' : 'png',
+      jpegQuality: clampQuality(parsed.jpegQuality),
+      targetSizeMb: typeof parsed.targetSizeMb === 'number' && parsed.targetSizeMb > 0 ? parsed.targetSizeMb : null,
+      ocrTextLayer: parsed.ocrTextLayer === true,
+    };
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings): void => {
+  try {
+    window.localStorage.setItem(EXPORT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Không thể lưu cài đặt xuất PDF', error);
+  }
+};
+
+export const RENDER_DPI_OPTIONS = [100, 150, 200, 300, 400, 600];
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  renderDpi: 150,
+  nativeScanImages: true,
+};
+
+export const loadRenderSettings = (): RenderSettings => {
+  try {
+    const raw = window.localStorage.getItem(RENDER_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<RenderSettings>) : {};
+    return {
+      renderDpi: RENDER_DPI_OPTIONS.includes(parsed.renderDpi ?? 0)
+        ? (parsed.renderDpi as number)
+        : DEFAULT_RENDER_SETTINGS.renderDpi,
+      nativeScanImages: parsed.nativeScanImages !== false,
+    };
+  } catch {
+    return DEFAULT_RENDER_SETTINGS;
+  }
+};
+
+export const saveRenderSettings = (settings: RenderSettings): void => {
+  try {
+    window.localStorage.setItem(RENDER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Không thể lưu cài đặt độ phân giải', error);
+  }
+};
+
+// Mặc định inpaint trung bình, không phân tích bố cục; tự nhận mực học sinh bật sẵn để bài làm viết bút đỏ không bị xóa
+export const DEFAULT_REMOVAL_SETTINGS: RemovalSettings = {
+  inpaintMode: 'average',
+  preserveLayout: false,
+  protectStudentInk: true,
+};
+
+export const loadRemovalSettings = (): RemovalSettings => {
+  try {
+    const raw = window.localStorage.getItem(REMOVAL_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<RemovalSettings>) : {};
+    return {
+      inpaintMode: parsed.inpaintMode === 'telea' ? 'telea' : 'average',
+      preserveLayout: parsed.preserveLayout === true,
+      protectStudentInk: parsed.protectStudentInk !== false,
+    };
+  } catch {
+    return DEFAULT_REMOVAL_SETTINGS;
+  }
+};
+
+export const saveRemovalSettings = (settings: RemovalSettings): void => {
+  try {
+    window.localStorage.setItem(REMOVAL_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Không thể lưu cài đặt xóa mực', error);
+  }
+};
@@ -1,10 +1,12 @@
-import { createStore, get, set, del, clear, entries } from 'idb-keyval';
-import type { FileProcessingState } from '../models/appModels';
+import { createStore, get, set, del, delMany, entries, keys } from 'idb-keyval';
+import type { FileProcessingState, TuningCacheEntry, TuningPreset } from '../models/appModels';
 
 const store = createStore('pdf-processor-db', 'pdf-store');
 
 const fileKey = (id: string) => `file-${id}`;
 const stateKey = (id: string) => `state-${id}`;
+const presetKey = (id: string) => `preset-${id}`;
+const tuningCacheKey = (scope: string, fingerprint: string) => `tuning-${scope}-${fingerprint}`;
 
 export const saveFileData = async (id: string, dataUrl: string): Promise<void> => {
   await set(fileKey(id), dataUrl, store);
@@ -32,8 +34,40 @@ export const deleteFileState = async (id: string): Promise<void> => {
   await del(stateKey(id), store);
 };
 
+/**
+ * Xóa dữ liệu file và trạng thái xử lý; preset và cache tuning được giữ lại
+ */
 export const clearAllStorage = async (): Promise<void> => {
-  await clear(store);
+  const allKeys = await keys(store);
+  await delMany(
+    allKeys.filter((key) => typeof key === 'string' && (key.startsWith('file-') || key.startsWith('state-'))),
+    store
+  );
+};
+
+export const savePreset = async (preset: TuningPreset): Promise<void> => {
+  await set(presetKey(preset.id), preset, store);
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await del(presetKey(id), store);
+};
+
+export const listPresets = async (): Promise<TuningPreset[]> => {
+  const all = await entries<IDBValidKey, TuningPreset>(store);
+  return all
+    .filter(([key]) => typeof key === 'string' && key.startsWith('preset-'))
+    .map(([, preset]) => preset)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTuningCacheEntry = async (entry: TuningCacheEntry): Promise<void> => {
+  await set(tuningCacheKey(entry.scope, entry.fingerprint), entry, store);
+};
+
+export const listTuningCacheEntries = async (): Promise<TuningCacheEntry[]> => {
+  const all = await entries<IDBValidKey, TuningCacheEntry>(store);
+  return all.filter(([key]) => typeof key === 'string' && key.startsWith('tuning-')).map(([, entry]) => entry);
 };
 
 export const listStoredIds = async (): Promise<string[]> => {
@@ -0,0 +1,61 @@
+import type { TuningCacheEntry } from '../models/appModels';
+import { listTuningCacheEntries, saveTuningCacheEntry } from './storageService';
+
+// Số bit dHash được phép lệch để coi hai trang là cùng mẫu đề
+const MAX_HAMMING_DISTANCE = 6;
+
+let entriesPromise: Promise<TuningCacheEntry[]> | null = null;
+
+// Đọc cache từ IndexedDB một lần, sau đó tra trong bộ nhớ
+const loadEntries = (): Promise<TuningCacheEntry[]> => {
+  entriesPromise ??= listTuningCacheEntries().catch((error) => {
+    console.warn('Không thể đọc cache tuning', error);
+    return [];
+  });
+  return entriesPromise;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Tìm gợi ý đã lưu cho trang có hash gần nhất trong cùng scope
+ */
+export const findCachedTuning = async (scope: string, fingerprint: string): Promise<TuningCacheEntry | null> => {
+  const entries = await loadEntries();
+  let best: TuningCacheEntry | null = null;
+  let bestDistance = MAX_HAMMING_DISTANCE + 1;
+  for (const entry of entries) {
+    if (entry.scope !== scope) continue;
+    const distance = hammingDistance(entry.fingerprint, fingerprint);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+      if (distance === 0) break;
+    }
+  }
+  return best;
+};
+
+export const storeCachedTuning = async (
+  scope: string,
+  fingerprint: string,
+  value: Pick<TuningCacheEntry, 'tuning' | 'keepRegions' | 'annotationRegions' | 'model'>
+): Promise<void> => {
+  const entry: TuningCacheEntry = { ...value, scope, fingerprint, createdAt: Date.now() };
+  const entries = await loadEntries();
+  const index = entries.findIndex((item) => item.scope === scope && item.fingerprint === fingerprint);
+  if (index === -1) entries.push(entry);
+  else entries[index] = entry;
+  await saveTuningCacheEntry(entry);
+};
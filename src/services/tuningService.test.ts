@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { testTuning } from '../test/pixels';
+import { escalateTuning, isBetterEscalation } from './tuningService';
+
+describe('escalateTuning', () => {
+  it('hạ ngưỡng, nới hue và tăng bán kính một bậc', () => {
+    const next = escalateTuning(testTuning({ dilateRadius: 1, inpaintRadius: 3 }))!;
+
+    expect(next.sMin).toBeCloseTo(0.15);
+    expect(next.vMin).toBeCloseTo(0.1);
+    expect(next.hueA).toEqual([355, 35]);
+    expect(next.hueB).toEqual([325, 5]);
+    expect(next.dilateRadius).toBe(2);
+    expect(next.inpaintRadius).toBe(4);
+  });
+
+  it('không hạ ngưỡng dưới mức sàn và không vượt bán kính tối đa', () => {
+    const next = escalateTuning(testTuning({ sMin: 0.1, vMin: 0.08, dilateRadius: 3, inpaintRadius: 5 }))!;
+
+    expect(next.sMin).toBe(0.08);
+    expect(next.vMin).toBe(0.08);
+    expect(next.dilateRadius).toBe(3);
+    expect(next.inpaintRadius).toBe(5);
+  });
+
+  it('trả về null khi mọi ngưỡng đã chạm giới hạn', () => {
+    const exhausted = testTuning({
+      sMin: 0.08,
+      vMin: 0.08,
+      hueA: [0, 360],
+      hueB: [0, 360],
+      dilateRadius: 3,
+      inpaintRadius: 5,
+    });
+
+    expect(escalateTuning(exhausted)).toBeNull();
+  });
+
+  it('giữ nguyên các thiết lập ngoài ngưỡng phát hiện', () => {
+    const tuning = testTuning({ inpaintMode: 'telea', preserveLayout: true, protectStudentInk: true });
+    const next = escalateTuning(tuning)!;
+
+    expect(next.inpaintMode).toBe('telea');
+    expect(next.preserveLayout).toBe(true);
+    expect(next.protectStudentInk).toBe(true);
+  });
+});
+
+describe('isBetterEscalation', () => {
+  const run = (ratio: number, maskCoverage: number) => ({ residual: { pixels: Math.round(ratio * 1000), ratio }, maskCoverage });
+  const first = run(0.1, 0.04);
+
+  it('chọn lần chạy lại sót ít mực hơn khi diện tích xóa tăng vừa phải', () => {
+    expect(isBetterEscalation(run(0.03, 0.05), first, first)).toBe(true);
+  });
+
+  it('bỏ lần chạy lại xóa lan quá giới hạn dù sót ít mực hơn', () => {
+    expect(isBetterEscalation(run(0.01, 0.07), first, first)).toBe(false);
+  });
+
+  it('bỏ lần chạy lại không giảm được mực sót', () => {
+    expect(isBetterEscalation(run(0.1, 0.04), first, first)).toBe(false);
+    expect(isBetterEscalation(run(0.05, 0.05), run(0.03, 0.05), first)).toBe(false);
+  });
+
+  it('lần đầu gần như không xóa gì vẫn cho phép xóa thêm một phần nhỏ trang', () => {
+    const empty = run(0.5, 0);
+    expect(isBetterEscalation(run(0.01, 0.004), empty, empty)).toBe(true);
+    expect(isBetterEscalation(run(0.01, 0.02), empty, empty)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import type { FileProcessingState, RedDetectionTuning, TuningOverride } from '../models/appModels';
+import type { PipelineDiagnostics } from './pipeline/types';
+
+export const TUNING_OVERRIDE_KEYS: (keyof TuningOverride)[] = [
+  'sMin',
+  'vMin',
+  'hueA',
+  'hueB',
+  'dilateRadius',
+  'inpaintRadius',
+];
+
+export const pickTuningOverride = (tuning: RedDetectionTuning | TuningOverride): TuningOverride => ({
+  sMin: tuning.sMin,
+  vMin: tuning.vMin,
+  hueA: [...tuning.hueA],
+  hueB: [...tuning.hueB],
+  dilateRadius: tuning.dilateRadius,
+  inpaintRadius: tuning.inpaintRadius,
+});
+
+export const sameTuningOverride = (a: TuningOverride, b: TuningOverride): boolean =>
+  TUNING_OVERRIDE_KEYS.every((key) => {
+    const left = a[key];
+    const right = b[key];
+    if (Array.isArray(left) && Array.isArray(right)) return left[0] === right[0] && left[1] === right[1];
+    return left === right;
+  });
+
+/**
+ * Tuning chỉnh tay áp dụng cho một trang: trang > file > không có (dùng AI/mặc định)
+ */
+export const resolveTuningOverride = (state: FileProcessingState, pageIndex: number): TuningOverride | null =>
+  state.pageTuning[pageIndex] ?? state.fileTuning ?? null;
+
+/**
+ * Trang đã xử lý với tuning khác tuning chỉnh tay hiện tại thì cần xử lý lại trước khi xuất
+ */
+export const isPageTuningStale = (state: FileProcessingState, pageIndex: number): boolean => {
+  const override = resolveTuningOverride(state, pageIndex);
+  const meta = state.pageMeta[pageIndex];
+  if (!override || !meta?.tuning) return false;
+  return !sameTuningOverride(pickTuningOverride(meta.tuning), override);
+};
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number): number => {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+};
+
+const normalizeHue = (value: unknown, fallback: [number, number]): [number, number] => {
+  if (!Array.isArray(value) || value.length !== 2) return [...fallback];
+  return [clampNumber(value[0], 0, 360, fallback[0]), clampNumber(value[1], 0, 360, fallback[1])];
+};
+
+/**
+ * Kiểm tra và kẹp giá trị tuning đọc từ nguồn ngoài (file preset), field lỗi lấy theo `fallback`
+ */
+export const normalizeTuningOverride = (raw: unknown, fallback: TuningOverride): TuningOverride => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof TuningOverride, unknown>>;
+  return {
+    sMin: clampNumber(value.sMin, 0, 1, fallback.sMin),
+    vMin: clampNumber(value.vMin, 0, 1, fallback.vMin),
+    hueA: normalizeHue(value.hueA, fallback.hueA),
+    hueB: normalizeHue(value.hueB, fallback.hueB),
+    dilateRadius: Math.round(clampNumber(value.dilateRadius, 0, 3, fallback.dilateRadius)),
+    inpaintRadius: Math.round(clampNumber(value.inpaintRadius, 1, 5, fallback.inpaintRadius)),
+  };
+};
+
+// Mỗi bậc tăng mức: hạ ngưỡng bão hòa/độ sáng, nới hue, tăng dilation và bán kính inpaint
+const ESCALATION_STEP = { saturation: 0.05, value: 0.05, hue: 5 };
+// Không hạ ngưỡng dưới mức này để tránh xóa giấy ngả màu và chữ in
+const ESCALATION_FLOOR = { sMin: 0.08, vMin: 0.08 };
+
+const widenHue = ([from, to]: [number, number], degrees: number): [number, number] => {
+  const span = from <= to ? to - from : 360 - from + to;
+  if (span + degrees * 2 >= 360) return [0, 360];
+  const start = (from - degrees + 360) % 360;
+  const end = to + degrees > 360 ? to + degrees - 360 : to + degrees;
+  return [start, end];
+};
+
+/**
+ * Tuning mạnh hơn một bậc cho lần chạy lại khi bước kiểm tra còn thấy mực sót.
+ * Trả về null nếu mọi ngưỡng đã chạm giới hạn.
+ */
+export const escalateTuning = (tuning: RedDetectionTuning): RedDetectionTuning | null => {
+  const next: RedDetectionTuning = {
+    ...tuning,
+    sMin: Math.max(ESCALATION_FLOOR.sMin, tuning.sMin - ESCALATION_STEP.saturation),
+    vMin: Math.max(ESCALATION_FLOOR.vMin, tuning.vMin - ESCALATION_STEP.value),
+    hueA: widenHue(tuning.hueA, ESCALATION_STEP.hue),
+    hueB: widenHue(tuning.hueB, ESCALATION_STEP.hue),
+    dilateRadius: Math.min(3, tuning.dilateRadius + 1),
+    inpaintRadius: Math.min(5, tuning.inpaintRadius + 1),
+  };
+  return sameTuningOverride(pickTuningOverride(next), pickTuningOverride(tuning)) ? null : next;
+};
+
+// Lần chạy lại không được xóa nhiều hơn lần đầu quá hệ số này (cộng thêm một phần nhỏ trang cho mực sót):
+// nới hue và dilation có thể ăn vào chữ in chỉ để giảm chút mực đỏ còn sót
+const MAX_ESCALATION_COVERAGE_GROWTH = 1.5;
+const ESCALATION_COVERAGE_SLACK = 0.005;
+
+type EscalationRun = Pick<PipelineDiagnostics, 'residual' | 'maskCoverage'>;
+
+/**
+ * Kết quả chạy lại chỉ thay kết quả tốt nhất khi sót ít mực hơn và diện tích xóa
+ * không phình quá giới hạn so với lần chạy đầu
+ */
+export const isBetterEscalation = (candidate: EscalationRun, best: EscalationRun, first: EscalationRun): boolean => {
+  const firstCoverage = first.maskCoverage ?? 0;
+  const maxCoverage = Math.max(firstCoverage * MAX_ESCALATION_COVERAGE_GROWTH, firstCoverage + ESCALATION_COVERAGE_SLACK);
+  return (
+    (candidate.residual?.ratio ?? 0) < (best.residual?.ratio ?? 0) && (candidate.maskCoverage ?? 0) <= maxCoverage
+  );
+};
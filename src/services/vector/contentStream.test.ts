@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { inheritedColorState, rewriteContent, tokenizeContent } from './contentStream';
+import type { ContentRewriteContext, ContentStats, RgbColor } from './contentStream';
+
+const isRed = ([r, g, b]: RgbColor) => r > 200 && g < 100 && b < 100;
+
+const context = (patch: Partial<ContentRewriteContext> = {}): ContentRewriteContext => ({
+  isInkColor: isRed,
+  protectLayout: () => false,
+  colorSpaceComponents: (name) => (name === 'CS0' ? 3 : null),
+  xObjectKind: (name) => (name.startsWith('Im') ? 'image' : name.startsWith('Fm') ? 'form' : 'other'),
+  onForm: (): ContentStats => ({ removedPaths: 0, textOps: 0, imageDraws: 0, imageArea: 0 }),
+  ...patch,
+});
+
+const operators = (text: string) =>
+  [...tokenizeContent(text)].flatMap((token) => (token.type === 'operator' ? [token.value] : []));
+
+describe('tokenizeContent', () => {
+  it('chuỗi lồng ngoặc và ký tự thoát là một token', () => {
+    const tokens = [...tokenizeContent('(a (1 0 0 rg) \\) b\\\\) Tj')];
+
+    expect(tokens).toEqual([{ type: 'other' }, { type: 'operator', value: 'Tj', start: 22, end: 24 }]);
+  });
+
+  it('chuỗi hex, dict, mảng và tên có mã #xx', () => {
+    const tokens = [...tokenizeContent('<< /A#20B 1 >> [<72673e> -2.5] /F1 .5 Tf')];
+
+    expect(tokens).toEqual([
+      { type: 'other' },
+      { type: 'name', value: 'A B' },
+      { type: 'number', value: 1 },
+      { type: 'other' },
+      { type: 'other' },
+      { type: 'other' },
+      { type: 'number', value: -2.5 },
+      { type: 'other' },
+      { type: 'name', value: 'F1' },
+      { type: 'number', value: 0.5 },
+      { type: 'operator', value: 'Tf', start: 38, end: 40 },
+    ]);
+  });
+
+  it('bỏ qua comment', () => {
+    expect(operators('% 1 0 0 rg f\n0 g')).toEqual(['g']);
+  });
+
+  it('bỏ qua dữ liệu ảnh inline giữa ID và EI', () => {
+    const text = 'BI /W 2 /H 1 /CS /RGB /BPC 8 ID \xd7\x26( f re)S EI Q';
+
+    expect(operators(text)).toEqual(['BI', 'ID', 'Q']);
+  });
+});
+
+describe('rewriteContent', () => {
+  it('thay lệnh vẽ bằng màu mực cần xóa bằng n, giữ nguyên phần còn lại', () => {
+    const text = '1 0 0 RG 10 10 m 20 25 l S 0 g 0 0 5 5 re f';
+    const result = rewriteContent(text, context());
+
+    expect(result.content).toBe('1 0 0 RG 10 10 m 20 25 l n 0 g 0 0 5 5 re f');
+    expect(result.removedPaths).toBe(1);
+  });
+
+  it('Q khôi phục màu đã lưu bởi q', () => {
+    const text = '0 0 0 rg q 1 0 0 rg 0 0 5 5 re f Q 0 0 5 5 re f';
+    const result = rewriteContent(text, context());
+
+    expect(result.content).toBe('0 0 0 rg q 1 0 0 rg 0 0 5 5 re n Q 0 0 5 5 re f');
+    expect(result.removedPaths).toBe(1);
+  });
+
+  it('Q thừa không làm mất màu hiện tại', () => {
+    expect(rewriteContent('1 0 0 rg Q 0 0 5 5 re f', context()).content).toBe('1 0 0 rg Q 0 0 5 5 re n');
+  });
+
+  it('B/b* chỉ giữ phần không phải mực: tô hoặc viền', () => {
+    const strokeRed = rewriteContent('1 0 0 RG 0 0 1 rg 0 0 5 5 re B', context());
+    const fillRed = rewriteContent('0 0 1 RG 1 0 0 rg 0 0 5 5 re b*', context());
+    const bothRed = rewriteContent('1 0 0 RG 1 0 0 rg 0 0 5 5 re B*', context());
+
+    expect(strokeRed.content).toBe('1 0 0 RG 0 0 1 rg 0 0 5 5 re f');
+    expect(fillRed.content).toBe('0 0 1 RG 1 0 0 rg 0 0 5 5 re s');
+    expect(bothRed.content).toBe('1 0 0 RG 1 0 0 rg 0 0 5 5 re n');
+    expect([strokeRed, fillRed, bothRed].map((r) => r.removedPaths)).toEqual([1, 1, 1]);
+  });
+
+  it('màu đặt qua color space tên trong Resources và CMYK', () => {
+    expect(rewriteContent('/CS0 cs 0.9 0.1 0.1 scn 0 0 5 5 re f', context()).removedPaths).toBe(1);
+    expect(rewriteContent('0 1 1 0 K 0 0 m 9 9 l S', context()).removedPaths).toBe(1);
+  });
+
+  it('màu pattern không quy đổi được nên không bị xóa', () => {
+    const colored = '/Pattern cs /P0 scn 0 0 5 5 re f';
+    const uncolored = '/Pattern CS 1 0 0 /P1 SCN 0 0 m 9 9 l S';
+
+    expect(rewriteContent(colored, context()).removedPaths).toBe(0);
+    expect(rewriteContent(uncolored, context()).removedPaths).toBe(0);
+    expect(rewriteContent('/Unknown cs 1 0 0 sc 0 0 5 5 re f', context()).removedPaths).toBe(0);
+  });
+
+  it('màu kế thừa từ nơi gọi form không bị coi là mực', () => {
+    const text = '0 0 5 5 re f 1 0 0 rg 0 0 5 5 re f';
+    const result = rewriteContent(text, context(), inheritedColorState());
+
+    expect(result.content).toBe('0 0 5 5 re f 1 0 0 rg 0 0 5 5 re n');
+  });
+
+  it('giữ path dạng bố cục in sẵn khi protectLayout cho phép', () => {
+    const text = [
+      '1 0 0 RG',
+      '50 50 200 100 re S',
+      '50 300 m 250 300 l S',
+      'q 0 1 -1 0 400 0 cm 10 10 m 110 10 l S Q',
+      '60 60 m 65 55 l 80 75 l S',
+      '10 10 m 20 30 40 30 50 10 c S',
+    ].join('\n');
+    const result = rewriteContent(text, context({ protectLayout: () => true }));
+
+    expect(result.removedPaths).toBe(2);
+    expect(result.content).toBe(
+      [
+        '1 0 0 RG',
+        '50 50 200 100 re S',
+        '50 300 m 250 300 l S',
+        'q 0 1 -1 0 400 0 cm 10 10 m 110 10 l S Q',
+        '60 60 m 65 55 l 80 75 l n',
+        '10 10 m 20 30 40 30 50 10 c n',
+      ].join('\n')
+    );
+  });
+
+  it('n kết thúc path nên clip path không ảnh hưởng path sau', () => {
+    const text = '1 0 0 RG 0 0 500 500 re W n 10 10 m 15 5 l S';
+    expect(rewriteContent(text, context({ protectLayout: () => true })).content).toBe(
+      '1 0 0 RG 0 0 500 500 re W n 10 10 m 15 5 l n'
+    );
+  });
+
+  it('đếm chữ nhìn thấy được, ảnh và cộng thống kê form lồng', () => {
+    const text = 'BT /F1 12 Tf (a) Tj 3 Tr (hidden) Tj ET /Im0 Do /Fm0 Do BI /W 1 /H 1 ID \x00 EI';
+    const result = rewriteContent(
+      text,
+      context({ onForm: (name) => ({ removedPaths: name === 'Fm0' ? 2 : 0, textOps: 1, imageDraws: 0, imageArea: 0 }) })
+    );
+
+    expect(result).toMatchObject({ removedPaths: 2, textOps: 2, imageDraws: 2, imageArea: 2 });
+  });
+
+  it('diện tích ảnh theo CTM, cộng cả ảnh trong form theo CTM tại chỗ gọi', () => {
+    const text = 'q 200 0 0 100 0 0 cm /Im0 Do Q q 0 50 -20 0 0 0 cm /Im1 Do Q q 2 0 0 2 0 0 cm /Fm0 Do Q';
+    const result = rewriteContent(text, context({ onForm: () => ({ removedPaths: 0, textOps: 0, imageDraws: 1, imageArea: 25 }) }));
+
+    expect(result.imageArea).toBe(20000 + 1000 + 100);
+  });
+
+  it('không xóa gì thì trả lại đúng từng byte', () => {
+    const text = '%PDF comment\r\nq 0 0 1 rg\t0 0 5 5 re f\n(\xe9\xff\\)) Tj <00ff> Tj\r\nBI /W 1 /H 1 ID \xd7( EI\nQ  ';
+    const result = rewriteContent(text, context());
+
+    expect(result.removedPaths).toBe(0);
+    expect(result.content).toBe(text);
+  });
+});
@@ -0,0 +1,408 @@
+export type RgbColor = [number, number, number];
+
+export type ContentToken =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string; start: number; end: number }
+  // Chuỗi, mảng, dict, true/false/null: không cần giá trị khi phân tích màu
+  | { type: 'other' };
+
+// Số lượng thành phần màu của color space; null = không quy đổi được sang RGB
+type PaintColor = { components: number | null; rgb: RgbColor | null };
+
+export type ColorState = { stroke: PaintColor; fill: PaintColor };
+
+export type ContentStats = {
+  removedPaths: number;
+  // Lệnh vẽ chữ nhìn thấy được (bỏ qua chữ ẩn Tr 3 của lớp OCR)
+  textOps: number;
+  imageDraws: number;
+  // Tổng diện tích các ảnh được vẽ, theo đơn vị của không gian gọi (trang, hoặc nơi gọi form)
+  imageArea: number;
+};
+
+export type ContentRewriteContext = {
+  isInkColor: (rgb: RgbColor) => boolean;
+  // Path có dạng bố cục in sẵn (khung, ô bảng, đường kẻ) vẽ bằng màu này được giữ lại
+  protectLayout: (rgb: RgbColor) => boolean;
+  // Số thành phần của color space đặt tên trong Resources, null nếu không phải RGB/Gray/CMYK
+  colorSpaceComponents: (name: string) => number | null;
+  xObjectKind: (name: string) => 'image' | 'form' | 'other';
+  // Xử lý form XObject lồng (độc lập với trạng thái đồ họa tại chỗ gọi); imageArea đã tính cả /Matrix của form
+  onForm: (name: string) => ContentStats;
+};
+
+type Matrix = [number, number, number, number, number, number];
+type Point = [number, number];
+
+// Hình học của path đang dựng, tính theo tọa độ trang (sau CTM)
+type PathShape = {
+  // Chỉ gồm đoạn thẳng nằm ngang hoặc dọc
+  rectilinear: boolean;
+  rects: number;
+  segments: number;
+  longest: number;
+  start: Point | null;
+  current: Point | null;
+};
+
+// Đoạn lệch khỏi phương ngang/dọc quá tỉ lệ này (~1°) thì không phải đường kẻ in
+const AXIS_TOLERANCE = 0.02;
+// Đường kẻ in sẵn (không phải hình chữ nhật) dài ít nhất ~1 cm
+const LAYOUT_MIN_SEGMENT = 28;
+// Đoạn ngắn hơn (điểm PDF) bỏ qua khi xét hướng
+const MIN_SEGMENT_LENGTH = 0.5;
+
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+const isRegular = (ch: string) => !WHITESPACE.includes(ch) && !DELIMITERS.includes(ch);
+
+/**
+ * Tách content stream (chuỗi nhị phân latin1) thành token; dữ liệu ảnh inline (ID ... EI) được bỏ qua
+ */
+export function* tokenizeContent(text: string): Generator<ContentToken> {
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (WHITESPACE.includes(ch)) {
+      i++;
+    } else if (ch === '%') {
+      while (i < text.length && text[i] !== '\n' && text[i] !== '\r') i++;
+    } else if (ch === '(') {
+      let depth = 0;
+      for (; i < text.length; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === '(') depth++;
+        else if (text[i] === ')' && --depth === 0) break;
+      }
+      i++;
+      yield { type: 'other' };
+    } else if (ch === '<') {
+      if (text[i + 1] === '<') i += 2;
+      else i = text.indexOf('>', i) + 1 || text.length;
+      yield { type: 'other' };
+    } else if (ch === '>') {
+      i += text[i + 1] === '>' ? 2 : 1;
+      yield { type: 'other' };
+    } else if ('[]{}'.includes(ch)) {
+      i++;
+      yield { type: 'other' };
+    } else if (ch === '/') {
+      const start = ++i;
+      while (i < text.length && isRegular(text[i])) i++;
+      const value = text.slice(start, i).replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      yield { type: 'name', value };
+    } else {
+      const start = i;
+      while (i < text.length && isRegular(text[i])) i++;
+      if (i === start) {
+        i++;
+        continue;
+      }
+      const value = text.slice(start, i);
+      if (NUMBER_PATTERN.test(value)) {
+        yield { type: 'number', value: Number(value) };
+      } else if (value === 'true' || value === 'false' || value === 'null') {
+        yield { type: 'other' };
+      } else {
+        yield { type: 'operator', value, start, end: i };
+        if (value === 'ID') i = skipInlineImageData(text, i);
+      }
+    }
+  }
+}
+
+// Dữ liệu ảnh inline kết thúc ở "EI" đứng riêng giữa hai khoảng trắng
+function skipInlineImageData(text: string, from: number): number {
+  for (let i = from + 1; i < text.length - 1; i++) {
+    if (
+      text[i] === 'E' &&
+      text[i + 1] === 'I' &&
+      WHITESPACE.includes(text[i - 1]) &&
+      (i + 2 >= text.length || WHITESPACE.includes(text[i + 2]))
+    ) {
+      return i + 2;
+    }
+  }
+  return text.length;
+}
+
+const DEVICE_SPACES: Record<string, number | null> = {
+  DeviceGray: 1,
+  G: 1,
+  DeviceRGB: 3,
+  RGB: 3,
+  DeviceCMYK: 4,
+  CMYK: 4,
+  Pattern: null,
+};
+
+/**
+ * Màu (0..1) theo số thành phần sang RGB 0..255
+ */
+function toRgb(values: number[], components: number | null): RgbColor | null {
+  if (components === null || values.length !== components) return null;
+  const clamp = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+  if (components === 1) return [clamp(values[0]), clamp(values[0]), clamp(values[0])];
+  if (components === 3) return [clamp(values[0]), clamp(values[1]), clamp(values[2])];
+  if (components === 4) {
+    const [c, m, y, k] = values;
+    return [clamp((1 - c) * (1 - k)), clamp((1 - m) * (1 - k)), clamp((1 - y) * (1 - k))];
+  }
+  return null;
+}
+
+export const initialColorState = (): ColorState => ({
+  stroke: { components: 1, rgb: [0, 0, 0] },
+  fill: { components: 1, rgb: [0, 0, 0] },
+});
+
+/**
+ * Màu kế thừa từ nơi gọi form XObject: coi như không biết để path dùng màu này được giữ nguyên,
+ * nhờ vậy kết quả viết lại form không phụ thuộc nơi gọi
+ */
+export const inheritedColorState = (): ColorState => ({
+  stroke: { components: null, rgb: null },
+  fill: { components: null, rgb: null },
+});
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Ma trận `m` áp trước rồi tới `n` (cm: CTM mới = m × CTM)
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const emptyPath = (): PathShape => ({
+  rectilinear: true,
+  rects: 0,
+  segments: 0,
+  longest: 0,
+  start: null,
+  current: null,
+});
+
+/**
+ * Path giống bố cục in sẵn: chỉ có đoạn ngang/dọc, là hình chữ nhật hoặc có đoạn đủ dài.
+ * Nét chấm tay (đường cong, dấu tích chéo, nét ngắn) không thỏa.
+ */
+const looksLikeLayout = (path: PathShape) =>
+  path.segments > 0 && path.rectilinear && (path.rects > 0 || path.longest >= LAYOUT_MIN_SEGMENT);
+
+const COLOR_OPERATOR_COMPONENTS: Record<string, number> = { G: 1, g: 1, RG: 3, rg: 3, K: 4, k: 4 };
+
+const STROKE_OPERATORS = new Set(['S', 's']);
+const FILL_OPERATORS = new Set(['f', 'F', 'f*']);
+// Lệnh vừa tô vừa vẽ viền: [lệnh chỉ giữ phần tô, lệnh chỉ giữ viền]
+const FILL_STROKE_OPERATORS: Record<string, [string, string]> = {
+  B: ['f', 'S'],
+  'B*': ['f*', 'S'],
+  b: ['f', 's'],
+  'b*': ['f*', 's'],
+};
+
+const TEXT_SHOW_OPERATORS = new Set(['Tj', 'TJ', "'", '"']);
+// Tr 3: chữ ẩn (lớp OCR của bản scan), không tính là chữ nhìn thấy được
+const INVISIBLE_TEXT_MODE = 3;
+
+/**
+ * Bỏ các path vẽ bằng màu mực cần xóa: lệnh tô/vẽ viền được thay bằng `n` (kết thúc path không vẽ),
+ * nên clip path và mọi nội dung khác giữ nguyên từng byte. Path có dạng bố cục in sẵn được giữ
+ * khi `context.protectLayout` cho phép với màu của nó.
+ */
+export function rewriteContent(
+  text: string,
+  context: ContentRewriteContext,
+  initialColors: ColorState = initialColorState()
+): ContentStats & { content: string } {
+  const stats: ContentStats = { removedPaths: 0, textOps: 0, imageDraws: 0, imageArea: 0 };
+  const edits: { start: number; end: number; replacement: string }[] = [];
+  const stack: ColorState[] = [];
+  let colors: ColorState = { stroke: { ...initialColors.stroke }, fill: { ...initialColors.fill } };
+  let textRenderMode = 0;
+  const textModeStack: number[] = [];
+  let ctm: Matrix = IDENTITY;
+  const ctmStack: Matrix[] = [];
+  let path = emptyPath();
+  let operands: ContentToken[] = [];
+
+  const numbers = () => operands.flatMap((token) => (token.type === 'number' ? [token.value] : []));
+  const lastName = () => {
+    const token = operands[operands.length - 1];
+    return token?.type === 'name' ? token.value : null;
+  };
+  const setSpace = (target: 'stroke' | 'fill') => {
+    const name = lastName();
+    if (name === null) return;
+    const components = name in DEVICE_SPACES ? DEVICE_SPACES[name] : context.colorSpaceComponents(name);
+    // Đặt color space thì màu về mặc định (đen với Gray/RGB/CMYK)
+    colors[target] = { components, rgb: components === null ? null : [0, 0, 0] };
+  };
+  const setColor = (target: 'stroke' | 'fill', components: number | null) => {
+    // Màu pattern (toán hạng cuối là tên) không quy đổi được
+    colors[target] = { components, rgb: lastName() === null ? toRgb(numbers(), components) : null };
+  };
+  // Ảnh chiếm hình vuông đơn vị của CTM: diện tích = |định thức|
+  const ctmArea = () => Math.abs(ctm[0] * ctm[3] - ctm[1] * ctm[2]);
+  const toPage = (x: number, y: number): Point => [ctm[0] * x + ctm[2] * y + ctm[4], ctm[1] * x + ctm[3] * y + ctm[5]];
+  const addSegment = (from: Point, to: Point) => {
+    const dx = Math.abs(to[0] - from[0]);
+    const dy = Math.abs(to[1] - from[1]);
+    const length = Math.hypot(dx, dy);
+    if (length < MIN_SEGMENT_LENGTH) return;
+    path.segments++;
+    path.longest = Math.max(path.longest, length);
+    if (Math.min(dx, dy) > length * AXIS_TOLERANCE) path.rectilinear = false;
+  };
+  const lineTo = (point: Point) => {
+    if (path.current) addSegment(path.current, point);
+    path.current = point;
+  };
+  const curveTo = (point: Point) => {
+    path.rectilinear = false;
+    path.segments++;
+    path.current = point;
+  };
+
+  for (const token of tokenizeContent(text)) {
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    const op = token.value;
+    switch (op) {
+      case 'q':
+        stack.push({ stroke: { ...colors.stroke }, fill: { ...colors.fill } });
+        textModeStack.push(textRenderMode);
+        ctmStack.push(ctm);
+        break;
+      case 'Q':
+        colors = stack.pop() ?? colors;
+        textRenderMode = textModeStack.pop() ?? textRenderMode;
+        ctm = ctmStack.pop() ?? ctm;
+        break;
+      case 'cm': {
+        const values = numbers();
+        if (values.length === 6) ctm = multiply(values as Matrix, ctm);
+        break;
+      }
+      case 'm':
+      case 'l': {
+        const [x, y] = numbers();
+        if (y === undefined) break;
+        if (op === 'm') path.start = path.current = toPage(x, y);
+        else lineTo(toPage(x, y));
+        break;
+      }
+      case 'c':
+      case 'v':
+      case 'y': {
+        const values = numbers();
+        if (values.length < 4) break;
+        curveTo(toPage(values[values.length - 2], values[values.length - 1]));
+        break;
+      }
+      case 'h':
+        if (path.start) lineTo(path.start);
+        break;
+      case 're': {
+        const [x, y, w, h] = numbers();
+        if (h === undefined) break;
+        const corners = [toPage(x, y), toPage(x + w, y), toPage(x + w, y + h), toPage(x, y + h)];
+        corners.forEach((corner, index) => addSegment(corner, corners[(index + 1) % 4]));
+        path.rects++;
+        path.start = path.current = corners[0];
+        break;
+      }
+      case 'n':
+        path = emptyPath();
+        break;
+      case 'CS':
+        setSpace('stroke');
+        break;
+      case 'cs':
+        setSpace('fill');
+        break;
+      case 'SC':
+      case 'SCN':
+        setColor('stroke', colors.stroke.components);
+        break;
+      case 'sc':
+      case 'scn':
+        setColor('fill', colors.fill.components);
+        break;
+      case 'G':
+      case 'RG':
+      case 'K':
+        setColor('stroke', COLOR_OPERATOR_COMPONENTS[op]);
+        break;
+      case 'g':
+      case 'rg':
+      case 'k':
+        setColor('fill', COLOR_OPERATOR_COMPONENTS[op]);
+        break;
+      case 'Tr':
+        textRenderMode = numbers()[0] ?? 0;
+        break;
+      case 'BI':
+        stats.imageDraws++;
+        stats.imageArea += ctmArea();
+        break;
+      case 'Do': {
+        const name = lastName();
+        if (name === null) break;
+        const kind = context.xObjectKind(name);
+        if (kind === 'image') {
+          stats.imageDraws++;
+          stats.imageArea += ctmArea();
+        }
+        if (kind === 'form') {
+          const nested = context.onForm(name);
+          stats.removedPaths += nested.removedPaths;
+          stats.textOps += nested.textOps;
+          stats.imageDraws += nested.imageDraws;
+          stats.imageArea += nested.imageArea * ctmArea();
+        }
+        break;
+      }
+      default: {
+        if (TEXT_SHOW_OPERATORS.has(op)) {
+          if (textRenderMode !== INVISIBLE_TEXT_MODE) stats.textOps++;
+          break;
+        }
+        const both = FILL_STROKE_OPERATORS[op];
+        const strokes = !!both || STROKE_OPERATORS.has(op);
+        const fills = !!both || FILL_OPERATORS.has(op);
+        if (!strokes && !fills) break;
+        const layout = looksLikeLayout(path);
+        path = emptyPath();
+        const isInk = ({ rgb }: PaintColor) => !!rgb && context.isInkColor(rgb) && !(layout && context.protectLayout(rgb));
+        const strokeInk = strokes && isInk(colors.stroke);
+        const fillInk = fills && isInk(colors.fill);
+        if (!strokeInk && !fillInk) break;
+        const replacement = !both || (strokeInk && fillInk) ? 'n' : strokeInk ? both[0] : both[1];
+        edits.push({ start: token.start, end: token.end, replacement });
+        stats.removedPaths++;
+      }
+    }
+    operands = [];
+  }
+
+  if (!edits.length) return { ...stats, content: text };
+  let content = '';
+  let cursor = 0;
+  for (const edit of edits) {
+    content += text.slice(cursor, edit.start) + edit.replacement;
+    cursor = edit.end;
+  }
+  content += text.slice(cursor);
+  return { ...stats, content };
+}
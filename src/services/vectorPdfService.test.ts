@@ -0,0 +1,170 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, StandardFonts, type PDFRef } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { testTuning } from '../test/pixels';
+import { findPageScanImage, setPageXObject, stripVectorMarkings } from './vectorPdfService';
+
+// PNG 1x1 dùng làm ảnh quét
+const PIXEL_PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg=='),
+  (ch) => ch.charCodeAt(0)
+);
+
+const PAGE: [number, number] = [200, 300];
+const FULL_PAGE_IMAGE = 'q 200 0 0 300 0 0 cm /Im0 Do Q\n';
+const textLines = (count: number) =>
+  `BT /F1 10 Tf ${Array.from({ length: count }, (_, i) => `1 0 0 1 10 ${280 - i * 10} Tm (line ${i}) Tj`).join(' ')} ET\n`;
+
+/**
+ * PDF mỗi trang một content stream; trang có sẵn ảnh Im0, font F1 và form Fm0 (vẽ Im0 phủ trang)
+ */
+const buildPdf = async (contents: string[]): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  const image = await doc.embedPng(PIXEL_PNG);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const form = doc.context.register(
+    doc.context.stream('q 2 0 0 3 0 0 cm /Im0 Do Q', {
+      Type: 'XObject',
+      Subtype: 'Form',
+      BBox: [0, 0, 2, 3],
+      Matrix: [100, 0, 0, 100, 0, 0],
+      Resources: { XObject: { Im0: image.ref } },
+    })
+  );
+  for (const content of contents) {
+    const page = doc.addPage(PAGE);
+    page.node.setXObject(PDFName.of('Im0'), image.ref);
+    page.node.setXObject(PDFName.of('Fm0'), form as PDFRef);
+    page.node.setFontDictionary(PDFName.of('F1'), font.ref);
+    page.node.set(PDFName.of('Contents'), doc.context.register(doc.context.stream(content)));
+  }
+  return doc.save();
+};
+
+const kinds = async (contents: string[]) =>
+  (await stripVectorMarkings(await buildPdf(contents), testTuning())).pages.map((page) => page.kind);
+
+describe('stripVectorMarkings: phân loại trang quét', () => {
+  it('ảnh phủ kín trang là trang quét, kể cả khi có lớp chữ OCR ẩn hoặc một dòng chữ đóng thêm', async () => {
+    expect(
+      await kinds([
+        FULL_PAGE_IMAGE,
+        FULL_PAGE_IMAGE + `3 Tr ${textLines(40)}`,
+        FULL_PAGE_IMAGE + textLines(1),
+        '/Fm0 Do',
+      ])
+    ).toEqual(['scanned', 'scanned', 'scanned', 'scanned']);
+  });
+
+  it('ảnh nhỏ hoặc nền ảnh dưới nhiều chữ là trang vector', async () => {
+    expect(
+      await kinds([
+        `q 50 0 0 50 10 10 cm /Im0 Do Q\n${textLines(1)}`,
+        FULL_PAGE_IMAGE + textLines(40),
+        textLines(3),
+      ])
+    ).toEqual(['vector', 'vector', 'vector']);
+  });
+
+  it('nhiều dải ảnh ghép lại phủ trang vẫn là trang quét', async () => {
+    const strips = [0, 100, 200].map((y) => `q 200 0 0 100 0 ${y} cm /Im0 Do Q`).join('\n');
+    expect(await kinds([strips])).toEqual(['scanned']);
+  });
+});
+
+/**
+ * Một trang trắng với các chú thích Ink; `appearance` là content của /AP /N (nếu có)
+ */
+const buildAnnotatedPdf = async (annots: { color?: number[]; appearance?: string; popup?: boolean }[]) => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage(PAGE);
+  const refs: PDFRef[] = [];
+  for (const { color, appearance, popup } of annots) {
+    const ref = doc.context.register(
+      doc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Ink',
+        Rect: [10, 10, 60, 60],
+        ...(color ? { C: color } : {}),
+        ...(appearance
+          ? { AP: { N: doc.context.register(doc.context.stream(appearance, { Type: 'XObject', Subtype: 'Form', BBox: [0, 0, 50, 50] })) } }
+          : {}),
+      })
+    );
+    refs.push(ref);
+    if (popup) {
+      refs.push(doc.context.register(doc.context.obj({ Type: 'Annot', Subtype: 'Popup', Rect: [60, 60, 160, 120], Parent: ref })));
+    }
+  }
+  page.node.set(PDFName.of('Annots'), doc.context.obj(refs));
+  return doc.save();
+};
+
+const remainingAnnotations = async (bytes: Uint8Array) => {
+  const doc = await PDFDocument.load(bytes);
+  const annots = doc.getPage(0).node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+  return (annots?.asArray() ?? []).map((entry) =>
+    doc.context.lookup(entry, PDFDict).lookup(PDFName.of('Subtype'), PDFName).decodeText()
+  );
+};
+
+describe('stripVectorMarkings: chú thích', () => {
+  it('gỡ chú thích màu đỏ cùng popup, giữ chú thích màu khác', async () => {
+    const result = await stripVectorMarkings(
+      await buildAnnotatedPdf([{ color: [1, 0, 0], popup: true }, { color: [0, 0, 1] }]),
+      testTuning()
+    );
+
+    expect(result.pages[0].removedAnnotations).toBe(1);
+    expect(await remainingAnnotations(result.bytes)).toEqual(['Ink']);
+  });
+
+  it('giữ chú thích không khai báo màu và không có appearance stream', async () => {
+    const result = await stripVectorMarkings(await buildAnnotatedPdf([{ popup: true }]), testTuning());
+
+    expect(result.pages[0].removedAnnotations).toBe(0);
+    expect(await remainingAnnotations(result.bytes)).toEqual(['Ink', 'Popup']);
+  });
+
+  it('không khai báo màu thì xét màu nét trong appearance stream', async () => {
+    const result = await stripVectorMarkings(
+      await buildAnnotatedPdf([
+        { appearance: '1 0 0 RG 2 w 5 5 m 40 30 l S' },
+        { appearance: '0 0 1 RG 2 w 5 5 m 40 30 l S' },
+        { appearance: '1 0 0 RG 0 0 1 rg 5 5 m 40 30 l S 0 0 20 20 re f' },
+      ]),
+      testTuning()
+    );
+
+    expect(result.pages[0].removedAnnotations).toBe(1);
+    expect(await remainingAnnotations(result.bytes)).toEqual(['Ink', 'Ink']);
+  });
+});
+
+describe('setPageXObject', () => {
+  it('thay ảnh quét từng trang khi các trang dùng chung Resources kế thừa từ /Pages', async () => {
+    const source = await PDFDocument.create();
+    const image = await source.embedPng(PIXEL_PNG);
+    for (let i = 0; i < 3; i++) {
+      const page = source.addPage(PAGE);
+      page.node.delete(PDFName.of('Resources'));
+      page.node.set(PDFName.of('Contents'), source.context.register(source.context.stream(FULL_PAGE_IMAGE)));
+    }
+    source.catalog.Pages().set(PDFName.of('Resources'), source.context.obj({ XObject: { Im0: image.ref } }));
+    // Ảnh nhúng chỉ được ghi khi save nên đọc lại để findPageScanImage thấy ảnh
+    const doc = await PDFDocument.load(await source.save());
+    const pages = doc.getPages();
+
+    const replacements = [(await doc.embedPng(PIXEL_PNG)).ref, (await doc.embedPng(PIXEL_PNG)).ref];
+    replacements.forEach((ref, index) => {
+      const name = findPageScanImage(pages[index]);
+      expect(name?.decodeText()).toBe('Im0');
+      setPageXObject(pages[index], name as PDFName, ref);
+    });
+
+    const reloaded = await PDFDocument.load(await doc.save());
+    const images = reloaded.getPages().map((page) =>
+      page.node.Resources()?.lookup(PDFName.of('XObject'), PDFDict).get(PDFName.of('Im0'))
+    );
+    expect(images.map(String)).toEqual([...replacements, image.ref].map(String));
+  });
+});
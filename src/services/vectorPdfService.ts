@@ -0,0 +1,380 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFHexString,
+  type PDFContext,
+  type PDFPage,
+} from 'pdf-lib';
+import { MIN_SCAN_COVERAGE } from '../const/appConstants';
+import type { RedDetectionTuning, VectorPageResult } from '../models/appModels';
+import { rgbToHsv } from './pipeline/color';
+import { isRemovableColor } from './pipeline/detect';
+import {
+  inheritedColorState,
+  initialColorState,
+  rewriteContent,
+  tokenizeContent,
+  type ColorState,
+  type ContentStats,
+  type RgbColor,
+} from './vector/contentStream';
+
+// Chú thích dạng đánh dấu/vẽ tay của ứng dụng chấm bài trên máy tính bảng
+const MARKUP_SUBTYPES = new Set([
+  'Ink',
+  'FreeText',
+  'Highlight',
+  'Underline',
+  'StrikeOut',
+  'Squiggly',
+  'Square',
+  'Circle',
+  'Line',
+  'Polygon',
+  'PolyLine',
+  'Caret',
+]);
+
+export type VectorCleanupResult = {
+  // PDF gốc đã gỡ chú thích và path màu mực, giữ nguyên chữ và vector còn lại
+  bytes: Uint8Array;
+  pages: VectorPageResult[];
+};
+
+const bytesToBinary = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+const binaryToBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+};
+
+const decodeStream = (stream: PDFStream): string | null => {
+  if (!(stream instanceof PDFRawStream)) return null;
+  return bytesToBinary(decodePDFRawStream(stream).decode());
+};
+
+/**
+ * Màu chú thích: /C (0, 1, 3 hoặc 4 thành phần) hoặc màu chữ trong /DA của FreeText
+ */
+const annotationColor = (annot: PDFDict): RgbColor | null | undefined => {
+  const values = annot.lookupMaybe(PDFName.of('C'), PDFArray)
+    ?.asArray()
+    .map((value) => (value instanceof PDFNumber ? value.asNumber() : NaN));
+  let components = values;
+  if (!components) {
+    const da = annot.lookupMaybe(PDFName.of('DA'), PDFString, PDFHexString)?.decodeText();
+    const match = da?.match(/((?:[\d.]+\s+){0,3}[\d.]+)\s+(g|rg|k)\b/);
+    components = match?.[1].trim().split(/\s+/).map(Number);
+  }
+  if (!components || components.some((value) => !Number.isFinite(value))) return undefined;
+  // Mảng rỗng = chú thích trong suốt
+  if (!components.length) return null;
+  const byte = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+  if (components.length === 1) return [byte(components[0]), byte(components[0]), byte(components[0])];
+  if (components.length === 3) return [byte(components[0]), byte(components[1]), byte(components[2])];
+  if (components.length === 4) {
+    const [c, m, y, k] = components;
+    return [byte((1 - c) * (1 - k)), byte((1 - m) * (1 - k)), byte((1 - y) * (1 - k))];
+  }
+  return undefined;
+};
+
+/**
+ * Chú thích không khai báo màu: đọc màu các path trong appearance stream (/AP /N).
+ * Chỉ coi là mực cần xóa khi có path tô/vẽ viền và mọi path đều mang màu mực đó.
+ */
+const appearanceIsInk = (context: PDFContext, annot: PDFDict, tuning: RedDetectionTuning): boolean => {
+  const appearance = annot.lookupMaybe(PDFName.of('AP'), PDFDict)?.lookupMaybe(PDFName.of('N'), PDFStream);
+  const text = appearance ? decodeStream(appearance) : null;
+  if (!appearance || text === null) return false;
+  const resources = appearance.dict.lookupMaybe(PDFName.of('Resources'), PDFDict);
+
+  let painted = 0;
+  let ink = 0;
+  rewriteContent(text, {
+    isInkColor: (rgb) => {
+      painted++;
+      if (isRemovableColor(rgb, tuning)) ink++;
+      return false;
+    },
+    protectLayout: () => false,
+    colorSpaceComponents: (name) => resourceColorSpaceComponents(context, resources, name),
+    xObjectKind: () => 'other',
+    onForm: () => EMPTY_STATS,
+  });
+  return painted > 0 && ink === painted;
+};
+
+/**
+ * Gỡ chú thích đánh dấu có màu mực cần xóa (theo /C, màu chữ /DA hoặc màu vẽ trong appearance stream)
+ * cùng popup của chúng. Chú thích không xác định được màu được giữ nguyên.
+ */
+const stripAnnotations = (page: PDFPage, tuning: RedDetectionTuning): number => {
+  const annots = page.node.Annots();
+  if (!annots) return 0;
+  const context = page.doc.context;
+  const removed = new Set<PDFRef | PDFDict>();
+
+  annots.asArray().forEach((entry) => {
+    const annot = context.lookupMaybe(entry, PDFDict);
+    const subtype = annot?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+    if (!annot || !subtype || !MARKUP_SUBTYPES.has(subtype)) return;
+    const color = annotationColor(annot);
+    const removable =
+      color === undefined ? appearanceIsInk(context, annot, tuning) : color !== null && isRemovableColor(color, tuning);
+    if (!removable) return;
+    removed.add(entry instanceof PDFRef ? entry : annot);
+  });
+  if (!removed.size) return 0;
+
+  const kept = annots.asArray().filter((entry) => {
+    if (removed.has(entry as PDFRef)) return false;
+    const annot = context.lookupMaybe(entry, PDFDict);
+    const parent = annot?.get(PDFName.of('Parent'));
+    const isPopup = annot?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() === 'Popup';
+    return !(isPopup && parent && removed.has(parent as PDFRef));
+  });
+  page.node.set(PDFName.of('Annots'), context.obj(kept));
+  return removed.size;
+};
+
+/**
+ * Số thành phần màu của color space khai báo trong Resources (ICCBased/Cal*), null nếu không quy đổi được
+ */
+const resourceColorSpaceComponents = (context: PDFContext, resources: PDFDict | undefined, name: string): number | null => {
+  const space = resources?.lookupMaybe(PDFName.of('ColorSpace'), PDFDict)?.get(PDFName.of(name));
+  const resolved = space ? context.lookup(space) : undefined;
+  if (resolved instanceof PDFName) {
+    return { DeviceGray: 1, DeviceRGB: 3, DeviceCMYK: 4 }[resolved.decodeText()] ?? null;
+  }
+  if (!(resolved instanceof PDFArray)) return null;
+  const family = resolved.lookupMaybe(0, PDFName)?.decodeText();
+  if (family === 'CalGray') return 1;
+  if (family === 'CalRGB') return 3;
+  if (family === 'ICCBased') {
+    const profile = resolved.lookupMaybe(1, PDFStream);
+    const n = profile?.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber();
+    return n === 1 || n === 3 || n === 4 ? n : null;
+  }
+  return null;
+};
+
+// Trang quét có thể kèm vài dòng chữ thật (dấu, tiêu đề đóng thêm); PDF số có nền ảnh thì nhiều chữ hơn hẳn
+const MAX_SCAN_TEXT_OPS = 20;
+
+// Độ bão hòa tối đa của màu trung tính (xám): đường kẻ in xám luôn được xét như bố cục
+const NEUTRAL_MAX_SATURATION = 0.15;
+
+type StreamVisitor = {
+  context: PDFContext;
+  tuning: RedDetectionTuning;
+  // Form XObject dùng chung giữa các trang chỉ được viết lại một lần (kết quả không phụ thuộc nơi gọi)
+  forms: Map<PDFRef, ContentStats>;
+};
+
+/**
+ * Giữ path dạng khung/đường kẻ khi bật giữ bố cục; path xám luôn được giữ như vậy vì trên PDF số
+ * đó gần như luôn là đường kẻ in chứ không phải nét bút chì
+ */
+const protectsLayout = (rgb: RgbColor, tuning: RedDetectionTuning): boolean =>
+  tuning.preserveLayout || rgbToHsv(rgb[0] / 255, rgb[1] / 255, rgb[2] / 255).s <= NEUTRAL_MAX_SATURATION;
+
+const processContent = (
+  visitor: StreamVisitor,
+  text: string,
+  resources: PDFDict | undefined,
+  colors: ColorState
+): ContentStats & { content: string } => {
+  const { context } = visitor;
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  const xObjectRef = (name: string) => xObjects?.get(PDFName.of(name));
+
+  return rewriteContent(
+    text,
+    {
+      isInkColor: (rgb) => isRemovableColor(rgb, visitor.tuning),
+      protectLayout: (rgb) => protectsLayout(rgb, visitor.tuning),
+      colorSpaceComponents: (name) => resourceColorSpaceComponents(context, resources, name),
+      xObjectKind: (name) => {
+        const ref = xObjectRef(name);
+        const stream = ref ? context.lookupMaybe(ref, PDFStream) : undefined;
+        const subtype = stream?.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+        return subtype === 'Image' ? 'image' : subtype === 'Form' ? 'form' : 'other';
+      },
+      onForm: (name) => processForm(visitor, xObjectRef(name), resources),
+    },
+    colors
+  );
+};
+
+/**
+ * Hệ số diện tích của /Matrix form XObject (mặc định đơn vị)
+ */
+const matrixArea = (dict: PDFDict): number => {
+  const values = dict
+    .lookupMaybe(PDFName.of('Matrix'), PDFArray)
+    ?.asArray()
+    .map((value) => (value instanceof PDFNumber ? value.asNumber() : NaN));
+  if (!values || values.length !== 6 || values.some((value) => !Number.isFinite(value))) return 1;
+  return Math.abs(values[0] * values[3] - values[1] * values[2]);
+};
+
+const EMPTY_STATS: ContentStats = { removedPaths: 0, textOps: 0, imageDraws: 0, imageArea: 0 };
+
+/**
+ * Viết lại form XObject một lần cho mọi nơi gọi: màu kế thừa coi như không biết nên path vẽ bằng
+ * màu kế thừa được giữ, chỉ path tự đặt màu mực trong form mới bị gỡ
+ */
+const processForm = (
+  visitor: StreamVisitor,
+  ref: ReturnType<PDFDict['get']>,
+  parentResources: PDFDict | undefined
+): ContentStats => {
+  if (!(ref instanceof PDFRef)) return EMPTY_STATS;
+  const cached = visitor.forms.get(ref);
+  if (cached) return cached;
+  // Đánh dấu trước để form tự gọi lại chính nó không lặp vô hạn
+  visitor.forms.set(ref, EMPTY_STATS);
+
+  const { context } = visitor;
+  const stream = context.lookup(ref, PDFStream);
+  const text = decodeStream(stream);
+  if (text === null) return EMPTY_STATS;
+  const resources = stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? parentResources;
+  const { content, ...formStats } = processContent(visitor, text, resources, inheritedColorState());
+  const stats = { ...formStats, imageArea: formStats.imageArea * matrixArea(stream.dict) };
+
+  if (stats.removedPaths) {
+    const rewritten = context.flateStream(binaryToBytes(content));
+    for (const [key, value] of stream.dict.entries()) {
+      if (['Filter', 'DecodeParms', 'Length'].includes(key.decodeText())) continue;
+      rewritten.dict.set(key, value);
+    }
+    context.assign(ref, rewritten);
+  }
+  visitor.forms.set(ref, stats);
+  return stats;
+};
+
+/**
+ * Nội dung (đã giải nén, nối các stream) của trang
+ */
+const readPageContent = (page: PDFPage): string => {
+  const { context } = page.doc;
+  const contents = page.node.Contents();
+  const streams =
+    contents instanceof PDFArray
+      ? contents.asArray().map((entry) => context.lookup(entry, PDFStream))
+      : contents
+        ? [contents]
+        : [];
+  const parts = streams.map(decodeStream);
+  if (parts.some((part) => part === null)) throw new Error('Content stream không đọc được');
+  return parts.join('\n');
+};
+
+/**
+ * Gỡ path màu mực trong content stream của trang (gộp các stream thành một khi có thay đổi)
+ */
+const stripPagePaths = (visitor: StreamVisitor, page: PDFPage): ContentStats => {
+  const { context } = visitor;
+  const { content, ...stats } = processContent(visitor, readPageContent(page), page.node.Resources(), initialColorState());
+  if (stats.removedPaths) {
+    page.node.set(PDFName.of('Contents'), context.register(context.flateStream(binaryToBytes(content))));
+  }
+  return stats;
+};
+
+/**
+ * Trang quét: ảnh phủ gần hết trang và chỉ có ít chữ nhìn thấy được (dấu, tiêu đề đóng thêm).
+ * Lớp chữ OCR ẩn (Tr 3) không được tính nên bản scan có OCR vẫn là trang quét.
+ */
+const isScannedPage = (page: PDFPage, stats: ContentStats): boolean => {
+  const { width, height } = page.getCropBox();
+  return stats.imageArea >= MIN_SCAN_COVERAGE * width * height && stats.textOps <= MAX_SCAN_TEXT_OPS;
+};
+
+/**
+ * Xóa trực tiếp trên PDF các nét chấm dạng vector (chú thích /Annot và path màu mực).
+ * Trang quét (ảnh phủ gần hết trang) được đánh dấu `scanned` để xử lý raster.
+ * Lỗi đọc một trang (stream mã hóa lạ...) cũng đưa trang đó về raster.
+ */
+export async function stripVectorMarkings(data: ArrayBuffer | Uint8Array, tuning: RedDetectionTuning): Promise<VectorCleanupResult> {
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+  const visitor: StreamVisitor = { context: pdfDoc.context, tuning, forms: new Map() };
+
+  const pages = pdfDoc.getPages().map((page): VectorPageResult => {
+    const removedAnnotations = stripAnnotations(page, tuning);
+    try {
+      const stats = stripPagePaths(visitor, page);
+      return {
+        kind: isScannedPage(page, stats) ? 'scanned' : 'vector',
+        removedAnnotations,
+        removedPaths: stats.removedPaths,
+      };
+    } catch {
+      return { kind: 'scanned', removedAnnotations, removedPaths: 0 };
+    }
+  });
+
+  return { bytes: await pdfDoc.save(), pages };
+}
+
+/**
+ * Ảnh XObject duy nhất mà content stream của trang vẽ trực tiếp (Do), để thay ảnh quét đã làm sạch vào đúng chỗ.
+ * Trang vẽ nhiều ảnh, ảnh nằm trong form hoặc content không đọc được thì trả về null.
+ */
+export const findPageScanImage = (page: PDFPage): PDFName | null => {
+  const xObjects = page.node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  if (!xObjects) return null;
+  let text: string;
+  try {
+    text = readPageContent(page);
+  } catch {
+    return null;
+  }
+
+  const names = new Set<string>();
+  let operand: string | null = null;
+  for (const token of tokenizeContent(text)) {
+    if (token.type !== 'operator') {
+      operand = token.type === 'name' ? token.value : null;
+      continue;
+    }
+    if (token.value === 'Do' && operand !== null) {
+      const stream = page.doc.context.lookupMaybe(xObjects.get(PDFName.of(operand)), PDFStream);
+      if (stream?.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() === 'Image') names.add(operand);
+    }
+    operand = null;
+  }
+  const [name] = names;
+  return names.size === 1 ? PDFName.of(name) : null;
+};
+
+/**
+ * Gán XObject `name` của trang sang `ref`. Resources và từ điển XObject có thể kế thừa từ /Pages hoặc
+ * dùng chung với trang khác nên được chép riêng cho trang này trước khi ghi.
+ */
+export const setPageXObject = (page: PDFPage, name: PDFName, ref: PDFRef): void => {
+  const { context } = page.doc;
+  const resources = page.node.Resources()?.clone(context) ?? context.obj({});
+  const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict)?.clone(context) ?? context.obj({});
+  xObjects.set(name, ref);
+  resources.set(PDFName.of('XObject'), xObjects);
+  page.node.set(PDFName.of('Resources'), resources);
+};
@@ -0,0 +1,66 @@
+import type { RedDetectionTuning } from '../models/appModels';
+import { DEFAULT_TUNING } from '../services/geminiService';
+import type { Mask, PipelineState, PixelBuffer } from '../services/pipeline/types';
+
+export type Rgb = [number, number, number];
+
+export const PAPER: Rgb = [255, 255, 255];
+export const BLACK: Rgb = [20, 20, 20];
+export const RED: Rgb = [215, 38, 61];
+export const PINK: Rgb = [240, 150, 160];
+export const BLUE: Rgb = [31, 79, 209];
+
+/**
+ * Tuning mặc định của ứng dụng, ghi đè vài ngưỡng cho từng test
+ */
+export const testTuning = (patch: Partial<RedDetectionTuning> = {}): RedDetectionTuning => ({ ...DEFAULT_TUNING, ...patch });
+
+export const createImage = (width: number, height: number, color: Rgb = PAPER): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set([...color, 255], i * 4);
+  return { width, height, data };
+};
+
+export const fillRect = (image: PixelBuffer, x: number, y: number, w: number, h: number, color: Rgb): void => {
+  for (let py = y; py < y + h; py++) {
+    for (let px = x; px < x + w; px++) setPixel(image, px, py, color);
+  }
+};
+
+export const setPixel = (image: PixelBuffer, x: number, y: number, color: Rgb): void => {
+  image.data.set(color, (y * image.width + x) * 4);
+};
+
+export const pixelAt = (image: PixelBuffer, x: number, y: number): Rgb => {
+  const idx = (y * image.width + x) * 4;
+  return [image.data[idx], image.data[idx + 1], image.data[idx + 2]];
+};
+
+export const maskAt = (mask: Mask, width: number, x: number, y: number): number => mask[y * width + x];
+
+export const countMask = (mask: Mask): number => mask.reduce((sum, value) => sum + (value ? 1 : 0), 0);
+
+/**
+ * Mask nhị phân từ danh sách hình chữ nhật [x, y, w, h]
+ */
+export const rectMask = (width: number, height: number, rects: [number, number, number, number][]): Mask => {
+  const mask = new Uint8Array(width * height);
+  for (const [x, y, w, h] of rects) {
+    for (let py = y; py < y + h; py++) mask.fill(255, py * width + x, py * width + x + w);
+  }
+  return mask;
+};
+
+/**
+ * Trạng thái để chạy riêng một stage: ảnh gốc = ảnh đang xử lý, mask và protect rỗng
+ */
+export const stageState = (image: PixelBuffer, patch: Partial<PipelineState> = {}): PipelineState => ({
+  source: image,
+  image,
+  mask: new Uint8Array(image.width * image.height),
+  protect: new Uint8Array(image.width * image.height),
+  tuning: testTuning(),
+  options: {},
+  diagnostics: {},
+  ...patch,
+});
@@ -4,6 +4,12 @@ type ViteEnvString = string | undefined;
 
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: ViteEnvString;
+  // gemini | openai | mock, mặc định gemini
+  readonly VITE_AI_PROVIDER: ViteEnvString;
+  readonly VITE_AI_MODEL: ViteEnvString;
+  // Base URL cho provider openai, ví dụ http://localhost:11434/v1
+  readonly VITE_AI_ENDPOINT: ViteEnvString;
+  readonly VITE_AI_API_KEY: ViteEnvString;
 }
 
 interface ImportMeta {
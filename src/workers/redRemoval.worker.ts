@@ -0,0 +1,76 @@
+import type { RedDetectionTuning } from '../models/appModels';
+import { tintMask } from '../services/imageService';
+import { runPipeline } from '../services/pipeline/pipeline';
+import type { PipelineDiagnostics, PipelineOptions } from '../services/pipeline/types';
+
+export type RedRemovalRequest = {
+  id: number;
+  width: number;
+  height: number;
+  // Điểm ảnh RGBA, hoặc ảnh chưa đọc điểm ảnh: worker tự giải mã và trả về ảnh/mask đã mã hóa PNG
+  source: ArrayBuffer | ImageBitmap;
+  tuning: RedDetectionTuning;
+  options: PipelineOptions;
+};
+
+export type RedRemovalResult =
+  | { kind: 'pixels'; buffer: ArrayBuffer; maskBuffer: ArrayBuffer }
+  | { kind: 'png'; image: Blob; mask: Blob };
+
+export type RedRemovalResponse =
+  | { id: number; ok: true; result: RedRemovalResult; diagnostics: PipelineDiagnostics }
+  | { id: number; ok: false; error: string };
+
+const createContext = (width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return { canvas, ctx };
+};
+
+const decodeBitmap = (bitmap: ImageBitmap): Uint8ClampedArray => {
+  const { ctx } = createContext(bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height).data;
+};
+
+const encodePng = (imageData: ImageData): Promise<Blob> => {
+  const { canvas, ctx } = createContext(imageData.width, imageData.height);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+};
+
+self.addEventListener('message', async (event: MessageEvent<RedRemovalRequest>) => {
+  const { id, width, height, source, tuning, options } = event.data;
+  try {
+    const encoded = !(source instanceof ArrayBuffer);
+    const data = encoded ? decodeBitmap(source) : new Uint8ClampedArray(source);
+    const { image, mask, diagnostics } = runPipeline({ width, height, data }, tuning, options);
+    if (encoded) {
+      const [imageBlob, maskBlob] = await Promise.all([
+        encodePng(new ImageData(image.data as Uint8ClampedArray<ArrayBuffer>, width, height)),
+        encodePng(tintMask(mask, width, height)),
+      ]);
+      const response: RedRemovalResponse = {
+        id,
+        ok: true,
+        result: { kind: 'png', image: imageBlob, mask: maskBlob },
+        diagnostics,
+      };
+      self.postMessage(response);
+      return;
+    }
+    const buffer = image.data.buffer as ArrayBuffer;
+    const maskBuffer = mask.buffer as ArrayBuffer;
+    const response: RedRemovalResponse = { id, ok: true, result: { kind: 'pixels', buffer, maskBuffer }, diagnostics };
+    self.postMessage(response, { transfer: [buffer, maskBuffer] });
+  } catch (error) {
+    const response: RedRemovalResponse = {
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : 'Lỗi xử lý ảnh trong worker',
+    };
+    self.postMessage(response);
+  }
+});